@@ -0,0 +1,90 @@
+import { readFileSync, readdirSync } from "node:fs";
+import path from "node:path";
+import type { Plugin } from "vite";
+import { tipCardId } from "../src/lib/card-ids";
+import { parseLessonFile } from "../src/lib/lesson-file";
+import type { LessonSummary } from "../src/types";
+
+const MANIFEST_ID = "virtual:lesson-manifest";
+const RESOLVED_MANIFEST_ID = `\0${MANIFEST_ID}`;
+const LESSON_QUERY = "?lesson";
+
+/**
+ * Parses src/content/lessons/*.md at build time.
+ *
+ * - `virtual:lesson-manifest` exports a `LessonSummary[]` in curriculum order:
+ *   everything the sidebar and navigation need, without section bodies.
+ * - `<file>.md?lesson` exports the full `Lesson`. Imported through a lazy
+ *   `import.meta.glob`, each lesson becomes its own chunk.
+ *
+ * Malformed files fail the build (or the dev server overlay) with the file
+ * and line number.
+ */
+export function lessonContent(): Plugin {
+  let lessonsDir = "";
+
+  const loadLesson = (file: string) => {
+    const lesson = parseLessonFile(readFileSync(file, "utf8"), path.relative(process.cwd(), file));
+    const fileName = path.basename(file, ".md");
+    if (fileName !== lesson.id) {
+      throw new Error(`${file}: file name must match the lesson id "${lesson.id}"`);
+    }
+    return lesson;
+  };
+
+  return {
+    name: "lesson-content",
+
+    configResolved(config) {
+      lessonsDir = path.resolve(config.root, "src/content/lessons");
+    },
+
+    resolveId(id) {
+      if (id === MANIFEST_ID) return RESOLVED_MANIFEST_ID;
+    },
+
+    load(id) {
+      if (id === RESOLVED_MANIFEST_ID) {
+        const files = readdirSync(lessonsDir).filter((name) => name.endsWith(".md"));
+        const manifest: LessonSummary[] = files
+          .map((name) => {
+            const file = path.join(lessonsDir, name);
+            this.addWatchFile(file);
+            const lesson = loadLesson(file);
+            return {
+              id: lesson.id,
+              title: lesson.title,
+              description: lesson.description,
+              module: lesson.module,
+              category: lesson.category,
+              order: lesson.order,
+              prerequisites: lesson.prerequisites,
+              sectionCount: lesson.sections.length,
+              tipCardIds: lesson.sections.map((section) =>
+                (section.tips ?? []).map((tip) => tipCardId(lesson.id, tip)),
+              ),
+            };
+          })
+          .sort((a, b) => a.order - b.order);
+        return `export default ${JSON.stringify(manifest)};`;
+      }
+
+      if (id.endsWith(`.md${LESSON_QUERY}`)) {
+        const file = id.slice(0, -LESSON_QUERY.length);
+        return `export default ${JSON.stringify(loadLesson(file))};`;
+      }
+    },
+
+    // Adding or removing a lesson file changes the manifest
+    configureServer(server) {
+      const refreshManifest = (file: string) => {
+        if (path.dirname(file) !== lessonsDir || !file.endsWith(".md")) return;
+        const manifest = server.moduleGraph.getModuleById(RESOLVED_MANIFEST_ID);
+        if (manifest) server.moduleGraph.invalidateModule(manifest);
+        server.ws.send({ type: "full-reload" });
+      };
+      server.watcher.on("add", refreshManifest);
+      server.watcher.on("unlink", refreshManifest);
+    },
+  };
+}
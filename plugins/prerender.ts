@@ -0,0 +1,152 @@
+import { mkdir, readFile, rm, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { pathToFileURL } from "node:url";
+import { build } from "vite";
+import type { Plugin, ResolvedConfig } from "vite";
+
+// Matches src/lib/page-meta.ts, which can't be imported here: it pulls in the
+// Vite-only lesson manifest
+interface PageMeta {
+  title: string;
+  description: string;
+}
+
+interface ServerEntry {
+  routes: string[];
+  /** The routes to list in sitemap.xml */
+  indexedRoutes: string[];
+  render: (url: string) => Promise<{ html: string; meta: PageMeta }>;
+}
+
+interface PrerenderOptions {
+  /** Module exporting `routes`, `indexedRoutes` and `render(url)` */
+  entry: string;
+  /** Origin for absolute sitemap URLs, e.g. https://example.com. Required to build. */
+  siteUrl: string | undefined;
+}
+
+// Any path outside `routes` renders the not-found page
+const NOT_FOUND_PATH = "/404";
+
+function escapeHtml(text: string) {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/** `/` → index.html, `/lessons/state` → lessons/state.html */
+function routeToFile(route: string) {
+  return route === "/" ? "index.html" : `${route.slice(1)}.html`;
+}
+
+function fillTemplate(template: string, html: string, meta: PageMeta) {
+  const replace = (pattern: RegExp, value: string) => {
+    if (!pattern.test(template)) throw new Error(`index.html has no match for ${pattern}`);
+    template = template.replace(
+      pattern,
+      (_, before: string, after: string) => before + value + after,
+    );
+  };
+
+  replace(/(<title>)[^<]*(<\/title>)/, escapeHtml(meta.title));
+  for (const key of ["description", "og:description"]) {
+    replace(
+      new RegExp(`(<meta\\s+(?:name|property)="${key}"\\s+content=")[^"]*(")`),
+      escapeHtml(meta.description),
+    );
+  }
+  replace(/(<meta\s+property="og:title"\s+content=")[^"]*(")/, escapeHtml(meta.title));
+  replace(/(<div id="root">)(<\/div>)/, html);
+  return template;
+}
+
+function buildSitemap(siteUrl: string, routes: string[]) {
+  const origin = siteUrl.replace(/\/+$/, "");
+  const urls = routes.map((route) => `  <url><loc>${escapeHtml(origin + route)}</loc></url>`);
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">',
+    ...urls,
+    "</urlset>",
+    "",
+  ].join("\n");
+}
+
+/**
+ * After the client build, bundles `entry` for Node, renders each route to
+ * static HTML inside the built index.html (which hydrates on load) and writes
+ * 404.html and sitemap.xml (of `indexedRoutes`).
+ *
+ * The sitemap needs absolute URLs, so the build fails without a `siteUrl`
+ * rather than shipping without one.
+ */
+export function prerender({ entry, siteUrl }: PrerenderOptions): Plugin {
+  let config: ResolvedConfig;
+  let origin: string;
+
+  return {
+    name: "prerender",
+    apply: "build",
+
+    configResolved(resolvedConfig) {
+      config = resolvedConfig;
+    },
+
+    buildStart() {
+      if (!siteUrl || !URL.canParse(siteUrl)) {
+        this.error(
+          `siteUrl must be an absolute URL for sitemap.xml, got ${JSON.stringify(siteUrl)}. Set SITE_URL to the origin the site is served from.`,
+        );
+      }
+      origin = siteUrl;
+    },
+
+    async closeBundle() {
+      // The server bundle below is built with this config too
+      if (config.build.ssr) return;
+
+      const outDir = path.resolve(config.root, config.build.outDir);
+      const serverDir = path.resolve(config.root, "dist-ssr");
+
+      await build({
+        configFile: config.configFile,
+        mode: config.mode,
+        logLevel: "warn",
+        build: {
+          ssr: true,
+          outDir: serverDir,
+          emptyOutDir: true,
+          rollupOptions: { input: { server: entry }, output: { entryFileNames: "[name].js" } },
+        },
+      });
+
+      try {
+        const server: ServerEntry = await import(
+          pathToFileURL(path.join(serverDir, "server.js")).href
+        );
+        const template = await readFile(path.join(outDir, "index.html"), "utf8");
+
+        const pages = [
+          ...server.routes.map((route) => ({ route, file: routeToFile(route) })),
+          { route: NOT_FOUND_PATH, file: "404.html" },
+        ];
+        for (const { route, file } of pages) {
+          const { html, meta } = await server.render(route);
+          const target = path.join(outDir, file);
+          await mkdir(path.dirname(target), { recursive: true });
+          await writeFile(target, fillTemplate(template, html, meta));
+        }
+
+        await writeFile(
+          path.join(outDir, "sitemap.xml"),
+          buildSitemap(origin, server.indexedRoutes),
+        );
+        config.logger.info(`prerender: wrote ${pages.length} pages`);
+      } finally {
+        await rm(serverDir, { recursive: true, force: true });
+      }
+    },
+  };
+}
@@ -0,0 +1,76 @@
+import { createHash } from "node:crypto";
+import { readFile, readdir } from "node:fs/promises";
+import path from "node:path";
+import { build } from "vite";
+import type { Plugin, ResolvedConfig } from "vite";
+
+interface ServiceWorkerOptions {
+  /** Service worker source, bundled to `<outDir>/sw.js` */
+  entry: string;
+}
+
+const SW_FILE = "sw.js";
+// Crawler files that have no use offline
+const EXCLUDED_FILES = new Set([SW_FILE, "sitemap.xml", "robots.txt"]);
+
+async function listFiles(dir: string): Promise<string[]> {
+  const entries = await readdir(dir, { withFileTypes: true, recursive: true });
+  return entries
+    .filter((entry) => entry.isFile())
+    .map((entry) => path.relative(dir, path.join(entry.parentPath, entry.name)))
+    .sort();
+}
+
+/**
+ * After the client build (and the prerendered pages), bundles `entry` to
+ * sw.js with a manifest of every file in the output directory, so the app
+ * shell, each page and every lesson chunk are cached on install. The version
+ * hashes all of their contents: any change to the build installs a new cache.
+ */
+export function serviceWorker({ entry }: ServiceWorkerOptions): Plugin {
+  let config: ResolvedConfig;
+
+  return {
+    name: "service-worker",
+    apply: "build",
+
+    configResolved(resolvedConfig) {
+      config = resolvedConfig;
+    },
+
+    closeBundle: {
+      // Runs after prerender so the precache includes its pages
+      order: "post",
+      sequential: true,
+      async handler() {
+        if (config.build.ssr) return;
+
+        const outDir = path.resolve(config.root, config.build.outDir);
+        const files = (await listFiles(outDir)).filter((file) => !EXCLUDED_FILES.has(file));
+        const hash = createHash("sha256");
+        for (const file of files) {
+          hash.update(file);
+          hash.update(await readFile(path.join(outDir, file)));
+        }
+        const manifest = {
+          version: hash.digest("hex").slice(0, 12),
+          urls: files.map((file) => `/${file.split(path.sep).join("/")}`),
+        };
+
+        await build({
+          configFile: false,
+          root: config.root,
+          logLevel: "warn",
+          define: { __PRECACHE_MANIFEST__: JSON.stringify(manifest) },
+          build: {
+            outDir,
+            emptyOutDir: false,
+            copyPublicDir: false,
+            lib: { entry, formats: ["iife"], name: "sw", fileName: () => SW_FILE },
+          },
+        });
+        config.logger.info(`service-worker: precaching ${manifest.urls.length} files`);
+      },
+    },
+  };
+}
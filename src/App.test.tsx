@@ -1,12 +1,26 @@
-import { render, screen, cleanup } from "@testing-library/react";
-import { MemoryRouter } from "react-router-dom";
-import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { act, screen, cleanup } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { afterEach, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
 import App from "./App";
-import { ThemeProvider } from "./context/ThemeContext";
-import { lessons } from "./data/lessons";
+import { lessons, loadLesson } from "./data/lessons";
+import { LoadError } from "./lib/load-error";
+
+// Wrapped so a test can make a lesson fail to load
+vi.mock("./data/lessons", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("./data/lessons")>();
+  return { ...actual, loadLesson: vi.fn(actual.loadLesson) };
+});
+import { renderWithProviders } from "./test-utils";
+
+// The lesson route is lazy-loaded; import it up front so the first test to
+// open a lesson isn't racing a cold module transform
+beforeAll(async () => {
+  await import("./components/LessonView");
+});
 
 afterEach(() => {
   cleanup();
+  localStorage.clear();
 });
 
 describe("App routing", () => {
@@ -27,55 +41,108 @@ describe("App routing", () => {
   });
 
   it("renders welcome page at root path", () => {
-    render(
-      <MemoryRouter initialEntries={["/"]}>
-        <ThemeProvider>
-          <App />
-        </ThemeProvider>
-      </MemoryRouter>,
-    );
+    renderWithProviders(<App />);
 
     expect(screen.getByText("SwiftUI for React Developers")).toBeInTheDocument();
     expect(screen.getByText("Get Started")).toBeInTheDocument();
   });
 
-  it("renders lesson page at /lessons/:id", () => {
+  it("renders lesson page at /lessons/:id", async () => {
     const firstLesson = lessons[0];
-    render(
-      <MemoryRouter initialEntries={[`/lessons/${firstLesson.id}`]}>
-        <ThemeProvider>
-          <App />
-        </ThemeProvider>
-      </MemoryRouter>,
-    );
+    await loadLesson(firstLesson.id);
+    // The lazy lesson route suspends on first render; an awaited act lets React retry
+    await act(async () => {
+      renderWithProviders(<App />, { route: `/lessons/${firstLesson.id}` });
+    });
 
-    // The lesson title should appear as the main heading
-    expect(screen.getByRole("heading", { name: firstLesson.title })).toBeInTheDocument();
+    // The lesson title should appear as the main heading once its content loads
+    expect(await screen.findByRole("heading", { name: firstLesson.title })).toBeInTheDocument();
   });
 
-  it.each(lessons)("renders lesson page for $title", (lesson) => {
-    render(
-      <MemoryRouter initialEntries={[`/lessons/${lesson.id}`]}>
-        <ThemeProvider>
-          <App />
-        </ThemeProvider>
-      </MemoryRouter>,
-    );
+  it.each(lessons)("renders lesson page for $title", async (lesson) => {
+    await loadLesson(lesson.id);
+    await act(async () => {
+      renderWithProviders(<App />, { route: `/lessons/${lesson.id}` });
+    });
 
-    expect(screen.getByRole("heading", { name: lesson.title })).toBeInTheDocument();
+    expect(await screen.findByRole("heading", { name: lesson.title })).toBeInTheDocument();
   });
 
   it("sidebar links navigate to lesson routes", () => {
-    render(
-      <MemoryRouter initialEntries={["/"]}>
-        <ThemeProvider>
-          <App />
-        </ThemeProvider>
-      </MemoryRouter>,
-    );
+    renderWithProviders(<App />);
 
     const firstLesson = lessons[0];
     const lessonLink = screen.getByRole("link", { name: new RegExp(firstLesson.title) });
     expect(lessonLink).toHaveAttribute("href", `/lessons/${firstLesson.id}`);
   });
+
+  it("sets the document title and description for the route", async () => {
+    const lesson = lessons[0];
+    await loadLesson(lesson.id);
+    document.head.innerHTML = [
+      '<meta name="description" content="" />',
+      '<meta property="og:title" content="" />',
+      '<meta property="og:description" content="" />',
+    ].join("");
+    await act(async () => {
+      renderWithProviders(<App />, { route: `/lessons/${lesson.id}` });
+    });
+
+    expect(document.title).toBe(`${lesson.title} · SwiftUI for React Developers`);
+    expect(document.querySelector('meta[name="description"]')).toHaveAttribute(
+      "content",
+      lesson.description,
+    );
+    expect(document.querySelector('meta[property="og:title"]')).toHaveAttribute(
+      "content",
+      document.title,
+    );
+    expect(document.querySelector('meta[property="og:description"]')).toHaveAttribute(
+      "content",
+      lesson.description,
+    );
+  });
+});
+
+describe("Lesson load errors", () => {
+  beforeEach(() => {
+    Object.defineProperty(window, "matchMedia", {
+      writable: true,
+      value: vi.fn().mockImplementation((query: string) => ({
+        matches: false,
+        media: query,
+        onchange: null,
+        addListener: vi.fn(),
+        removeListener: vi.fn(),
+        addEventListener: vi.fn(),
+        removeEventListener: vi.fn(),
+        dispatchEvent: vi.fn(),
+      })),
+    });
+  });
+
+  it("offers to retry a lesson that failed to load", async () => {
+    const user = userEvent.setup();
+    const lesson = lessons[1];
+    // React reports the caught error; keep it out of the test output
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const failed = Promise.reject(new LoadError(`Couldn't load lesson "${lesson.id}"`));
+    failed.catch(() => {});
+    vi.mocked(loadLesson).mockReturnValue(failed);
+
+    await act(async () => {
+      renderWithProviders(<App />, { route: `/lessons/${lesson.id}` });
+    });
+
+    expect(screen.getByRole("alert")).toHaveTextContent("Couldn't load this lesson");
+    // The rest of the app is still there
+    expect(screen.getByRole("navigation", { name: /lesson navigation/i })).toBeInTheDocument();
+
+    vi.mocked(loadLesson).mockReset();
+    await user.click(screen.getByRole("button", { name: "Retry" }));
+
+    expect(await screen.findByRole("heading", { name: lesson.title })).toBeInTheDocument();
+    expect(screen.queryByRole("alert")).not.toBeInTheDocument();
+    vi.mocked(console.error).mockRestore();
+  });
 });
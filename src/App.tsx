@@ -1,10 +1,17 @@
-import { useState } from "react";
-import { Routes, Route, useParams, useNavigate, Link } from "react-router-dom";
-import { Menu, X } from "lucide-react";
-import { lessons } from "./data/lessons";
+import { Suspense, lazy, use, useEffect, useState } from "react";
+import { Routes, Route, useParams, useNavigate, useLocation, Link } from "react-router-dom";
+import { LoaderCircle, Menu, X } from "lucide-react";
+import { getLessonById, lessons, loadLesson } from "./data/lessons";
 import { Sidebar } from "./components/Sidebar";
-import { LessonView } from "./components/LessonView";
 import { Welcome } from "./components/Welcome";
+import { CommandPalette } from "./components/CommandPalette";
+import { SettingsPanel } from "./components/SettingsPanel";
+import { Bookmarks } from "./components/Bookmarks";
+import { Review } from "./components/Review";
+import { Cheatsheet } from "./components/Cheatsheet";
+import { LoadErrorBoundary } from "./components/LoadErrorBoundary";
+import { LoadError } from "./lib/load-error";
+import { getPageMeta } from "./lib/page-meta";
 import { APP_TITLE_SHORT } from "./constants";
 
 function NotFound() {
@@ -22,16 +29,63 @@ function NotFound() {
   );
 }
 
+// The lesson page (code highlighting included) and each lesson's content load
+// on demand, so the first paint only needs the app shell and the manifest
+function lazyLessonView() {
+  return lazy(() =>
+    import("./components/LessonView").then(
+      (module) => ({ default: module.LessonView }),
+      (cause: unknown) => {
+        lessonViewFailed = true;
+        throw new LoadError("Couldn't load the lesson page", { cause });
+      },
+    ),
+  );
+}
+
+let LessonView = lazyLessonView();
+let lessonViewFailed = false;
+
+// React.lazy remembers a failed import, so retrying after one needs a fresh
+// lazy component
+function retryLessonView() {
+  if (!lessonViewFailed) return;
+  lessonViewFailed = false;
+  LessonView = lazyLessonView();
+}
+
+function LessonLoading() {
+  return (
+    <div
+      role="status"
+      className="flex items-center justify-center gap-2 min-h-[50vh] text-sm text-text-muted"
+    >
+      <LoaderCircle size={16} className="animate-spin" aria-hidden="true" />
+      Loading lesson…
+    </div>
+  );
+}
+
+function LessonContent({ id }: { id: string }) {
+  const navigate = useNavigate();
+  const lesson = use(loadLesson(id));
+  return <LessonView lesson={lesson} onBack={() => navigate("/")} />;
+}
+
 function LessonPage() {
   const { id } = useParams<{ id: string }>();
-  const navigate = useNavigate();
-  const lesson = lessons.find((l) => l.id === id);
 
-  if (!lesson) {
+  if (!id || !getLessonById(id)) {
     return <NotFound />;
   }
 
-  return <LessonView lesson={lesson} onBack={() => navigate("/")} />;
+  return (
+    <LoadErrorBoundary key={id} subject="this lesson" onRetry={retryLessonView}>
+      <Suspense fallback={<LessonLoading />}>
+        <LessonContent id={id} />
+      </Suspense>
+    </LoadErrorBoundary>
+  );
 }
 
 function WelcomePage() {
@@ -41,13 +95,50 @@ function WelcomePage() {
 
 function App() {
   const [sidebarOpen, setSidebarOpen] = useState(false);
+  const [searchOpen, setSearchOpen] = useState(false);
+  const [settingsOpen, setSettingsOpen] = useState(false);
+  const { pathname } = useLocation();
 
   const closeSidebar = () => setSidebarOpen(false);
 
+  const openSearch = () => {
+    setSidebarOpen(false);
+    setSearchOpen(true);
+  };
+
+  const openSettings = () => {
+    setSidebarOpen(false);
+    setSettingsOpen(true);
+  };
+
+  // Prerendered pages ship the right title and description (Open Graph tags
+  // included); keep them in sync during client-side navigation
+  useEffect(() => {
+    const { title, description } = getPageMeta(pathname);
+    document.title = title;
+    document.querySelector('meta[name="description"]')?.setAttribute("content", description);
+    document.querySelector('meta[property="og:title"]')?.setAttribute("content", title);
+    document.querySelector('meta[property="og:description"]')?.setAttribute("content", description);
+  }, [pathname]);
+
+  // Cmd/Ctrl-K toggles the search palette from anywhere
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if ((event.metaKey || event.ctrlKey) && event.key.toLowerCase() === "k") {
+        event.preventDefault();
+        setSidebarOpen(false);
+        setSearchOpen((open) => !open);
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, []);
+
   return (
     <div className="flex min-h-screen bg-bg-primary text-text-primary font-sans antialiased">
       {/* Mobile header */}
-      <header className="fixed top-0 left-0 right-0 h-14 bg-bg-primary border-b border-border flex items-center px-4 z-30 lg:hidden">
+      <header className="fixed top-0 left-0 right-0 h-14 bg-bg-primary border-b border-border flex items-center px-4 z-30 lg:hidden print:hidden">
         <button
           onClick={() => setSidebarOpen(!sidebarOpen)}
           className="p-2 -ml-2 text-text-secondary hover:text-text-primary transition-colors"
@@ -69,12 +160,22 @@ function App() {
         />
       )}
 
-      <Sidebar isOpen={sidebarOpen} onClose={closeSidebar} />
+      <Sidebar
+        isOpen={sidebarOpen}
+        onClose={closeSidebar}
+        onOpenSearch={openSearch}
+        onOpenSettings={openSettings}
+      />
+      <CommandPalette isOpen={searchOpen} onClose={() => setSearchOpen(false)} />
+      <SettingsPanel isOpen={settingsOpen} onClose={() => setSettingsOpen(false)} />
 
-      <main className="flex-1 min-w-0 overflow-x-hidden ml-0 lg:ml-70 min-h-screen pt-14 lg:pt-0">
+      <main className="flex-1 min-w-0 overflow-x-clip ml-0 lg:ml-70 min-h-screen pt-14 lg:pt-0 print:ml-0 print:pt-0">
         <Routes>
           <Route path="/" element={<WelcomePage />} />
           <Route path="/lessons/:id" element={<LessonPage />} />
+          <Route path="/bookmarks" element={<Bookmarks />} />
+          <Route path="/review" element={<Review />} />
+          <Route path="/cheatsheet" element={<Cheatsheet />} />
           <Route path="*" element={<NotFound />} />
         </Routes>
       </main>
@@ -0,0 +1,251 @@
+import { act, fireEvent, screen, cleanup, within } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { afterEach, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import App from "../App";
+import { loadLesson } from "../data/lessons";
+import { getSectionAnchors } from "../lib/anchors";
+import { EXPORT_FORMAT, exportSavedSections } from "../lib/saved-sections";
+import { renderWithProviders } from "../test-utils";
+
+beforeAll(async () => {
+  await import("./LessonView");
+  // jsdom's Blob predates Blob.text(), which import reads files with
+  Blob.prototype.text ??= function (this: Blob) {
+    return new Promise<string>((resolve) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(reader.result as string);
+      reader.readAsText(this);
+    });
+  };
+});
+
+afterEach(() => {
+  cleanup();
+  localStorage.clear();
+  vi.restoreAllMocks();
+  vi.useRealTimers();
+});
+
+const lesson = await loadLesson("view-lifecycle");
+const [firstAnchor, secondAnchor] = getSectionAnchors(lesson);
+const [firstSection, secondSection] = lesson.sections;
+
+async function renderApp(path: string) {
+  // Lesson routes suspend on first render; an awaited act lets React retry
+  return act(async () => renderWithProviders(<App />, { route: path }));
+}
+
+function saveSections(sections: Record<string, unknown>) {
+  localStorage.setItem("bookmarks", JSON.stringify(sections));
+}
+
+beforeEach(() => {
+  Object.defineProperty(window, "matchMedia", {
+    writable: true,
+    value: vi.fn().mockImplementation((query: string) => ({
+      matches: false,
+      media: query,
+      onchange: null,
+      addListener: vi.fn(),
+      removeListener: vi.fn(),
+      addEventListener: vi.fn(),
+      removeEventListener: vi.fn(),
+      dispatchEvent: vi.fn(),
+    })),
+  });
+});
+
+describe("Section bookmarks and notes", () => {
+  it("bookmarks a section and remembers it", async () => {
+    const user = userEvent.setup();
+    const { unmount } = await renderApp(`/lessons/${lesson.id}`);
+    const bookmark = screen.getByRole("button", { name: `Bookmark "${firstSection.title}"` });
+
+    await user.click(bookmark);
+    expect(bookmark).toHaveAttribute("aria-pressed", "true");
+
+    unmount();
+    await renderApp(`/lessons/${lesson.id}`);
+    expect(
+      screen.getByRole("button", { name: `Bookmark "${firstSection.title}"` }),
+    ).toHaveAttribute("aria-pressed", "true");
+  });
+
+  it("writes a markdown note with a preview and shows it under the section title", async () => {
+    const user = userEvent.setup();
+    await renderApp(`/lessons/${lesson.id}`);
+
+    await user.click(screen.getByRole("button", { name: `Add note to "${firstSection.title}"` }));
+    await user.type(screen.getByRole("textbox", { name: "Note" }), "Runs **after** paint");
+    await user.click(screen.getByRole("button", { name: "Preview" }));
+    const editor = screen.getByRole("form", { name: `Note on "${firstSection.title}"` });
+    expect(within(editor).getByText("after").tagName).toBe("STRONG");
+
+    await user.click(screen.getByRole("button", { name: "Save note" }));
+
+    expect(screen.queryByRole("form")).not.toBeInTheDocument();
+    expect(screen.getByRole("note", { name: "Your note" })).toHaveTextContent("Runs after paint");
+    expect(
+      screen.getByRole("button", { name: `Edit note on "${firstSection.title}"` }),
+    ).toBeInTheDocument();
+  });
+
+  it("discards edits on Escape and deletes a note saved empty", async () => {
+    const user = userEvent.setup();
+    saveSections({
+      [`${lesson.id}#${firstAnchor}`]: {
+        bookmarked: false,
+        note: "Keep me",
+        updatedAt: "2026-10-01T00:00:00.000Z",
+      },
+    });
+    await renderApp(`/lessons/${lesson.id}`);
+    const editButton = screen.getByRole("button", {
+      name: `Edit note on "${firstSection.title}"`,
+    });
+
+    await user.click(editButton);
+    await user.type(screen.getByRole("textbox", { name: "Note" }), " and this{Escape}");
+    expect(screen.getByRole("note", { name: "Your note" })).toHaveTextContent("Keep me");
+    expect(screen.getByRole("note", { name: "Your note" })).not.toHaveTextContent("and this");
+
+    await user.click(editButton);
+    await user.clear(screen.getByRole("textbox", { name: "Note" }));
+    await user.keyboard("{Control>}{Enter}{/Control}");
+
+    expect(screen.queryByRole("note", { name: "Your note" })).not.toBeInTheDocument();
+    expect(JSON.parse(localStorage.getItem("bookmarks")!)).toEqual({});
+  });
+});
+
+describe("Bookmarks page", () => {
+  it("lists saved sections by lesson with links back to them", async () => {
+    const user = userEvent.setup();
+    saveSections({
+      [`${lesson.id}#${secondAnchor}`]: {
+        bookmarked: false,
+        note: "Like `useEffect` cleanup",
+        updatedAt: "2026-10-02T00:00:00.000Z",
+      },
+      [`${lesson.id}#${firstAnchor}`]: {
+        bookmarked: true,
+        note: "",
+        updatedAt: "2026-10-01T00:00:00.000Z",
+      },
+    });
+    await renderApp(`/lessons/${lesson.id}`);
+
+    await act(async () => {
+      await user.click(screen.getByRole("link", { name: "Bookmarks & notes" }));
+    });
+
+    const group = screen.getByRole("region", { name: lesson.title });
+    const links = within(group).getAllByRole("link");
+    expect(links.map((link) => link.getAttribute("href"))).toEqual([
+      `/lessons/${lesson.id}`,
+      `/lessons/${lesson.id}#${firstAnchor}`,
+      `/lessons/${lesson.id}#${secondAnchor}`,
+    ]);
+    expect(links[1]).toHaveTextContent(firstSection.title);
+    expect(links[2]).toHaveTextContent(secondSection.title);
+    expect(within(group).getByRole("img", { name: "Bookmarked" })).toBeInTheDocument();
+    expect(within(group).getByText("useEffect").tagName).toBe("CODE");
+  });
+
+  it("says so when nothing is saved", async () => {
+    await renderApp("/bookmarks");
+
+    expect(screen.getByText(/nothing saved yet/i)).toBeInTheDocument();
+    expect(screen.getByRole("button", { name: "Export notes" })).toBeDisabled();
+  });
+
+  it("exports everything saved as a JSON file", async () => {
+    const saved = {
+      [`${lesson.id}#${firstAnchor}`]: {
+        bookmarked: true,
+        note: "Remember this",
+        updatedAt: "2026-10-01T00:00:00.000Z",
+      },
+    };
+    saveSections(saved);
+    let exported: Blob | undefined;
+    URL.createObjectURL = vi.fn((blob: Blob) => {
+      exported = blob;
+      return "blob:notes";
+    });
+    URL.revokeObjectURL = vi.fn();
+    const click = vi.spyOn(HTMLAnchorElement.prototype, "click").mockImplementation(() => {});
+    await renderApp("/bookmarks");
+    vi.useFakeTimers({ toFake: ["setTimeout", "clearTimeout"] });
+
+    fireEvent.click(screen.getByRole("button", { name: "Export notes" }));
+
+    expect(click).toHaveBeenCalledOnce();
+    expect(click.mock.contexts[0]).toHaveAttribute("download", "swiftui-for-react-devs-notes.json");
+    // Revoked later, once the browser has started the download
+    expect(URL.revokeObjectURL).not.toHaveBeenCalled();
+    vi.runAllTimers();
+    expect(URL.revokeObjectURL).toHaveBeenCalledWith("blob:notes");
+    vi.useRealTimers();
+    const file = JSON.parse(await exported!.text());
+    expect(file).toMatchObject({ format: EXPORT_FORMAT, version: 1, sections: saved });
+  });
+
+  it("imports an exported file, keeping what's already saved", async () => {
+    const user = userEvent.setup();
+    saveSections({
+      [`${lesson.id}#${firstAnchor}`]: {
+        bookmarked: true,
+        note: "",
+        updatedAt: "2026-10-01T00:00:00.000Z",
+      },
+    });
+    await renderApp("/bookmarks");
+    const file = new File(
+      [
+        exportSavedSections({
+          [`${lesson.id}#${secondAnchor}`]: {
+            bookmarked: false,
+            note: "From my laptop",
+            updatedAt: "2026-10-02T00:00:00.000Z",
+          },
+        }),
+      ],
+      "notes.json",
+      { type: "application/json" },
+    );
+
+    await act(async () => {
+      await user.upload(screen.getByTestId("import-notes"), file);
+    });
+
+    expect(screen.getByText("Imported 1 section")).toBeInTheDocument();
+    const group = screen.getByRole("region", { name: lesson.title });
+    expect(within(group).getByRole("link", { name: firstSection.title })).toBeInTheDocument();
+    expect(within(group).getByText("From my laptop")).toBeInTheDocument();
+  });
+
+  it("reports files that aren't a notes export", async () => {
+    const user = userEvent.setup();
+    await renderApp("/bookmarks");
+    const file = new File(['{"sections": {}}'], "other.json", { type: "application/json" });
+
+    await user.upload(screen.getByTestId("import-notes"), file);
+
+    expect(await screen.findByRole("alert")).toHaveTextContent(
+      "Couldn't import other.json: The file isn't a notes export",
+    );
+  });
+
+  it("reports files it can't read", async () => {
+    const user = userEvent.setup();
+    await renderApp("/bookmarks");
+    const file = new File(["{}"], "notes.json", { type: "application/json" });
+    file.text = () =>
+      Promise.reject(new DOMException("The file could not be read", "NotReadableError"));
+
+    await user.upload(screen.getByTestId("import-notes"), file);
+
+    expect(await screen.findByRole("alert")).toHaveTextContent("Couldn't read notes.json");
+  });
+});
@@ -0,0 +1,209 @@
+import { Suspense, use, useEffect, useRef, useState } from "react";
+import type { ChangeEvent } from "react";
+import { Link } from "react-router-dom";
+import { BookmarkCheck, Download, LoaderCircle, Upload } from "lucide-react";
+import { Markdown } from "./Markdown";
+import { Toast } from "./Toast";
+import { LoadErrorBoundary } from "./LoadErrorBoundary";
+import { noteStyles } from "./SectionNote";
+import { useBookmarks } from "../context/BookmarksContext";
+import { lessons, loadLesson } from "../data/lessons";
+import { getSectionAnchors, lessonPath } from "../lib/anchors";
+import {
+  NotesImportError,
+  exportSavedSections,
+  parseSectionKey,
+  parseSavedSectionsExport,
+} from "../lib/saved-sections";
+import type { SavedSection } from "../lib/saved-sections";
+import type { LessonSummary } from "../types";
+
+const EXPORT_FILE_NAME = "swiftui-for-react-devs-notes.json";
+// Long enough for a slow browser to have started the download (FileSaver.js waits as long)
+const REVOKE_EXPORT_URL_DELAY = 40_000;
+
+interface SavedEntry {
+  anchor: string;
+  section: SavedSection;
+}
+
+/** Every bookmarked or annotated section, grouped by lesson in curriculum order */
+export function Bookmarks() {
+  const { sections, importSections } = useBookmarks();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+  const [toast, setToast] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!toast) return;
+    const timeout = setTimeout(() => setToast(null), 2000);
+    return () => clearTimeout(timeout);
+  }, [toast]);
+
+  const entriesByLesson = new Map<string, SavedEntry[]>();
+  for (const [key, section] of Object.entries(sections)) {
+    const parsed = parseSectionKey(key);
+    if (!parsed) continue;
+    const entries = entriesByLesson.get(parsed.lessonId) ?? [];
+    entries.push({ anchor: parsed.anchor, section });
+    entriesByLesson.set(parsed.lessonId, entries);
+  }
+  // Sections of lessons that no longer exist stay in the export but aren't listed
+  const groups = lessons.filter((lesson) => entriesByLesson.has(lesson.id));
+  const savedCount = Object.keys(sections).length;
+
+  const exportNotes = () => {
+    const blob = new Blob([exportSavedSections(sections)], { type: "application/json" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = EXPORT_FILE_NAME;
+    link.click();
+    // Some browsers (Safari) start the download after click() returns, and
+    // revoking the URL straight away cancels it
+    setTimeout(() => URL.revokeObjectURL(url), REVOKE_EXPORT_URL_DELAY);
+  };
+
+  const importNotes = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    // Clear the input so choosing the same file again still fires a change
+    event.target.value = "";
+    if (!file) return;
+
+    try {
+      const imported = parseSavedSectionsExport(await file.text());
+      importSections(imported);
+      setImportError(null);
+      const count = Object.keys(imported).length;
+      setToast(`Imported ${count} ${count === 1 ? "section" : "sections"}`);
+    } catch (error) {
+      setImportError(
+        error instanceof NotesImportError
+          ? `Couldn't import ${file.name}: ${error.message}`
+          : `Couldn't read ${file.name}`,
+      );
+    }
+  };
+
+  return (
+    <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-8 sm:py-12 lg:py-16">
+      <header className="mb-8 lg:mb-12 pb-6 lg:pb-8 border-b border-border">
+        <h1 className="text-xl sm:text-2xl font-normal tracking-tight mb-3 text-text-primary">
+          Bookmarks & notes
+        </h1>
+        <p className="text-[0.9375rem] text-text-secondary mb-6">
+          Sections you bookmarked or wrote notes on. They're saved in this browser; export them to
+          keep a copy or move them to another device.
+        </p>
+        <div className="flex flex-wrap gap-2">
+          <button
+            onClick={exportNotes}
+            disabled={savedCount === 0}
+            className="inline-flex items-center gap-2 px-4 py-2 bg-transparent border border-border rounded text-sm text-text-secondary cursor-pointer transition-colors hover:bg-bg-tertiary hover:text-text-primary disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Download size={16} aria-hidden="true" />
+            Export notes
+          </button>
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="inline-flex items-center gap-2 px-4 py-2 bg-transparent border border-border rounded text-sm text-text-secondary cursor-pointer transition-colors hover:bg-bg-tertiary hover:text-text-primary"
+          >
+            <Upload size={16} aria-hidden="true" />
+            Import notes
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            onChange={importNotes}
+            className="hidden"
+            data-testid="import-notes"
+          />
+        </div>
+        {importError && (
+          <p role="alert" className="mt-3 text-sm text-accent-warm">
+            {importError}
+          </p>
+        )}
+      </header>
+
+      {groups.length === 0 ? (
+        <p className="text-sm text-text-muted">
+          Nothing saved yet. Use the bookmark and note buttons next to a section's title in any
+          lesson.
+        </p>
+      ) : (
+        groups.map((lesson) => (
+          <LoadErrorBoundary key={lesson.id} subject={lesson.title}>
+            <Suspense fallback={<SavedLessonLoading lesson={lesson} />}>
+              <SavedLesson lesson={lesson} entries={entriesByLesson.get(lesson.id)!} />
+            </Suspense>
+          </LoadErrorBoundary>
+        ))
+      )}
+
+      {toast && <Toast message={toast} />}
+    </div>
+  );
+}
+
+function SavedLessonLoading({ lesson }: { lesson: LessonSummary }) {
+  return (
+    <section className="mb-8">
+      <h2 className="text-sm font-medium text-text-primary mb-3">{lesson.title}</h2>
+      <LoaderCircle size={16} className="animate-spin text-text-muted" aria-hidden="true" />
+    </section>
+  );
+}
+
+/** One lesson's saved sections, in the order they appear in the lesson */
+function SavedLesson({ lesson, entries }: { lesson: LessonSummary; entries: SavedEntry[] }) {
+  const content = use(loadLesson(lesson.id));
+  const anchors = getSectionAnchors(content);
+  const position = (anchor: string) => {
+    const index = anchors.indexOf(anchor);
+    return index === -1 ? anchors.length : index;
+  };
+  const sorted = [...entries].sort((a, b) => position(a.anchor) - position(b.anchor));
+
+  return (
+    <section className="mb-8" aria-labelledby={`saved-${lesson.id}`}>
+      <h2 id={`saved-${lesson.id}`} className="text-sm font-medium text-text-primary mb-3">
+        <Link
+          to={lessonPath(lesson.id)}
+          className="text-text-primary no-underline hover:text-accent-warm"
+        >
+          {lesson.title}
+        </Link>
+      </h2>
+      <ul className="list-none space-y-3">
+        {sorted.map(({ anchor, section }) => {
+          const index = anchors.indexOf(anchor);
+          // A section renamed since it was saved keeps its entry under the old anchor
+          const title = index === -1 ? anchor : content.sections[index].title;
+          return (
+            <li key={anchor} className="bg-bg-secondary border border-border rounded-lg p-4">
+              <div className="flex items-center gap-2">
+                <Link
+                  to={lessonPath(lesson.id, anchor)}
+                  className="text-sm text-accent-warm no-underline hover:underline"
+                >
+                  {title}
+                </Link>
+                {section.bookmarked && (
+                  <BookmarkCheck
+                    size={14}
+                    className="text-accent-warm"
+                    aria-label="Bookmarked"
+                    role="img"
+                  />
+                )}
+              </div>
+              {section.note && <Markdown source={section.note} className={`mt-2 ${noteStyles}`} />}
+            </li>
+          );
+        })}
+      </ul>
+    </section>
+  );
+}
@@ -0,0 +1,93 @@
+import { act, screen, cleanup, within } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import App from "../App";
+import { featuredQuickReference, quickReference } from "../data/quick-reference";
+import { renderWithProviders } from "../test-utils";
+
+afterEach(() => {
+  cleanup();
+  localStorage.clear();
+  vi.restoreAllMocks();
+});
+
+async function renderApp(path: string) {
+  return act(async () => renderWithProviders(<App />, { route: path }));
+}
+
+beforeEach(() => {
+  Object.defineProperty(window, "matchMedia", {
+    writable: true,
+    value: vi.fn().mockImplementation((query: string) => ({
+      matches: false,
+      media: query,
+      onchange: null,
+      addListener: vi.fn(),
+      removeListener: vi.fn(),
+      addEventListener: vi.fn(),
+      removeEventListener: vi.fn(),
+      dispatchEvent: vi.fn(),
+    })),
+  });
+});
+
+describe("Cheat sheet", () => {
+  it("groups every entry by category and links it to its lesson", async () => {
+    await renderApp("/cheatsheet");
+
+    const state = screen.getByRole("region", { name: "State" });
+    expect(within(state).getByText("useState()").closest("tr")).toHaveTextContent("@State");
+    expect(within(state).getAllByRole("link", { name: "State Management" })[0]).toHaveAttribute(
+      "href",
+      "/lessons/state#usestate-state",
+    );
+    expect(screen.getAllByRole("row")).toHaveLength(
+      quickReference.length + screen.getAllByRole("table").length,
+    );
+  });
+
+  it("filters the entries and drops empty categories", async () => {
+    const user = userEvent.setup();
+    await renderApp("/cheatsheet");
+
+    await user.type(screen.getByRole("searchbox", { name: "Filter cheat sheet" }), "sheet");
+
+    expect(screen.getByText(".sheet()")).toBeInTheDocument();
+    expect(screen.queryByText("useState()")).not.toBeInTheDocument();
+    expect(screen.queryByRole("region", { name: "State" })).not.toBeInTheDocument();
+
+    await user.clear(screen.getByRole("searchbox"));
+    await user.type(screen.getByRole("searchbox"), "no such thing");
+
+    expect(screen.getByText(/No entries match/)).toBeInTheDocument();
+  });
+
+  it("starts from the filter in the URL", async () => {
+    await renderApp("/cheatsheet?q=focus");
+
+    expect(screen.getByRole("searchbox")).toHaveValue("focus");
+    expect(screen.getByText("@FocusState")).toBeInTheDocument();
+    expect(screen.queryByText("@State")).not.toBeInTheDocument();
+  });
+
+  it("prints the sheet", async () => {
+    const user = userEvent.setup();
+    const print = vi.spyOn(window, "print").mockImplementation(() => {});
+    await renderApp("/cheatsheet");
+
+    await user.click(screen.getByRole("button", { name: "Print" }));
+
+    expect(print).toHaveBeenCalled();
+  });
+
+  it("previews the featured entries on the home page", async () => {
+    await renderApp("/");
+
+    const table = screen.getByRole("table");
+    expect(within(table).getAllByRole("row")).toHaveLength(featuredQuickReference.length + 1);
+    expect(screen.getByRole("link", { name: /Full cheat sheet/ })).toHaveAttribute(
+      "href",
+      "/cheatsheet",
+    );
+  });
+});
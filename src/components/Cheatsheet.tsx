@@ -0,0 +1,121 @@
+import { Link, useSearchParams } from "react-router-dom";
+import { Printer, Search } from "lucide-react";
+import {
+  QUICK_REFERENCE_CATEGORIES,
+  filterQuickReference,
+  quickReference,
+} from "../data/quick-reference";
+import { getLessonById } from "../data/lessons";
+import { lessonPath } from "../lib/anchors";
+
+/**
+ * Every Quick Reference entry, grouped by category and linked to the lesson
+ * that explains it. The filter lives in the URL (`?q=state`) so a filtered
+ * sheet can be shared, and printing drops the controls and the app chrome.
+ */
+export function Cheatsheet() {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const query = searchParams.get("q") ?? "";
+  const entries = filterQuickReference(quickReference, query);
+  const groups = QUICK_REFERENCE_CATEGORIES.map((category) => ({
+    category,
+    entries: entries.filter((entry) => entry.category === category),
+  })).filter((group) => group.entries.length > 0);
+
+  const setQuery = (value: string) => {
+    setSearchParams(value ? { q: value } : {}, { replace: true });
+  };
+
+  return (
+    <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-8 sm:py-12 lg:py-16 print:p-0 print:max-w-none">
+      <header className="mb-8 pb-6 border-b border-border print:mb-4 print:pb-2">
+        <h1 className="text-xl sm:text-2xl font-normal tracking-tight mb-3 text-text-primary">
+          React → SwiftUI cheat sheet
+        </h1>
+        <p className="text-[0.9375rem] text-text-secondary mb-6 print:hidden">
+          The closest SwiftUI equivalent of the React patterns you use every day, each linked to the
+          lesson that explains it.
+        </p>
+        <div className="flex flex-wrap gap-2 print:hidden">
+          <label className="flex-1 min-w-48 flex items-center gap-2 px-3 py-2 bg-bg-secondary border border-border rounded text-sm text-text-muted focus-within:border-accent-dim">
+            <Search size={14} aria-hidden="true" />
+            <input
+              type="search"
+              value={query}
+              onChange={(event) => setQuery(event.target.value)}
+              placeholder="Filter, e.g. state or ForEach"
+              aria-label="Filter cheat sheet"
+              className="flex-1 bg-transparent border-0 outline-none text-text-primary placeholder:text-text-muted"
+            />
+          </label>
+          <button
+            onClick={() => window.print()}
+            className="inline-flex items-center gap-2 px-4 py-2 bg-transparent border border-border rounded text-sm text-text-secondary cursor-pointer transition-colors hover:bg-bg-tertiary hover:text-text-primary"
+          >
+            <Printer size={16} aria-hidden="true" />
+            Print
+          </button>
+        </div>
+      </header>
+
+      {groups.length === 0 ? (
+        <p className="text-sm text-text-muted">No entries match “{query}”.</p>
+      ) : (
+        <div className="space-y-8 print:space-y-4 print:columns-2 print:gap-8">
+          {groups.map(({ category, entries }) => (
+            <section
+              key={category}
+              aria-labelledby={`cheatsheet-${category}`}
+              className="break-inside-avoid"
+            >
+              <h2
+                id={`cheatsheet-${category}`}
+                className="text-xs font-semibold uppercase tracking-wide text-text-muted mb-2"
+              >
+                {category}
+              </h2>
+              <table className="w-full border-collapse text-sm">
+                <thead className="sr-only">
+                  <tr>
+                    <th>React</th>
+                    <th>SwiftUI</th>
+                    <th>Lesson</th>
+                  </tr>
+                </thead>
+                <tbody className="text-text-primary">
+                  {entries.map((entry) => {
+                    const lesson = getLessonById(entry.lessonId);
+                    return (
+                      <tr key={entry.react} className="border-b border-border">
+                        <td className="py-2 pr-3 align-top">
+                          <code className="bg-bg-tertiary px-1.5 py-0.5 rounded text-xs font-mono text-accent-cool">
+                            {entry.react}
+                          </code>
+                        </td>
+                        <td className="py-2 pr-3 align-top">
+                          <code className="bg-bg-tertiary px-1.5 py-0.5 rounded text-xs font-mono text-accent-warm">
+                            {entry.swiftui}
+                          </code>
+                        </td>
+                        <td className="py-2 text-right align-top print:hidden">
+                          {lesson && (
+                            <Link
+                              to={lessonPath(lesson.id, entry.section)}
+                              className="text-xs text-text-muted no-underline hover:text-accent-warm"
+                            >
+                              {lesson.title}
+                            </Link>
+                          )}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </section>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,161 @@
+import { act, cleanup, render, screen } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import type { ReactNode } from "react";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { CodeBlock } from "./CodeBlock";
+import { CodeThemePicker } from "./CodeThemePicker";
+import { ThemeToggle } from "./ThemeToggle";
+import { ThemeProvider } from "../context/ThemeContext";
+import { PreferencesProvider } from "../context/PreferencesContext";
+import { CODE_THEMES } from "../lib/code-themes";
+
+afterEach(() => {
+  cleanup();
+  localStorage.clear();
+  vi.useRealTimers();
+});
+
+beforeEach(() => {
+  Object.defineProperty(window, "matchMedia", {
+    writable: true,
+    value: vi.fn().mockImplementation((query: string) => ({
+      matches: false,
+      media: query,
+      onchange: null,
+      addListener: vi.fn(),
+      removeListener: vi.fn(),
+      addEventListener: vi.fn(),
+      removeEventListener: vi.fn(),
+      dispatchEvent: vi.fn(),
+    })),
+  });
+});
+
+function Providers({ children }: { children: ReactNode }) {
+  return (
+    <ThemeProvider>
+      <PreferencesProvider>{children}</PreferencesProvider>
+    </ThemeProvider>
+  );
+}
+
+describe("CodeBlock copy actions", () => {
+  it("copies the code without line numbers and confirms with a toast", async () => {
+    const user = userEvent.setup();
+    render(<CodeBlock code={"\nconst a = 1;\nconst b = 2;\n"} language="tsx" title="React" />, {
+      wrapper: Providers,
+    });
+
+    await user.click(screen.getByRole("button", { name: "Copy code" }));
+
+    expect(await navigator.clipboard.readText()).toBe("const a = 1;\nconst b = 2;");
+    expect(screen.getByRole("status")).toHaveTextContent("Code copied");
+  });
+
+  it("copies exactly the lines shown, keeping the first line's indentation", async () => {
+    const user = userEvent.setup();
+    // An excerpt from inside a block starts indented, and its lines can end in spaces
+    const excerpt = "\n  \n    Text(title)  \n        .bold()\n}\n\n";
+    render(<CodeBlock code={excerpt} language="swift" title="Swift" startLine={4} />, {
+      wrapper: Providers,
+    });
+
+    await user.click(screen.getByRole("button", { name: "Copy code" }));
+
+    expect(await navigator.clipboard.readText()).toBe("    Text(title)  \n        .bold()\n}");
+  });
+
+  it("hides the toast after a moment", async () => {
+    vi.useFakeTimers({ shouldAdvanceTime: true });
+    const user = userEvent.setup({ advanceTimers: vi.advanceTimersByTime });
+    render(<CodeBlock code="let a = 1" language="swift" title="Swift" />, { wrapper: Providers });
+
+    await user.click(screen.getByRole("button", { name: "Copy code" }));
+    act(() => {
+      vi.advanceTimersByTime(2000);
+    });
+
+    expect(screen.queryByRole("status")).not.toBeInTheDocument();
+  });
+
+  it("copies a bare Swift view as a compilable Xcode snippet", async () => {
+    const user = userEvent.setup();
+    render(<CodeBlock code={'Text("Hi")\n    .padding()'} language="swift" title="SwiftUI" />, {
+      wrapper: Providers,
+    });
+
+    await user.click(screen.getByRole("button", { name: "Copy as Xcode snippet" }));
+
+    const snippet = await navigator.clipboard.readText();
+    expect(snippet).toContain("struct ContentView: View {");
+    expect(snippet).toContain('        Text("Hi")\n            .padding()');
+    expect(snippet).toContain("#Preview {\n    ContentView()\n}");
+    expect(screen.getByRole("status")).toHaveTextContent("Copied as Xcode snippet");
+  });
+
+  it("offers the Xcode snippet only for bare Swift views", () => {
+    render(
+      <>
+        <CodeBlock code="struct Row: View {}" language="swift" />
+        <CodeBlock code="<Text>Hi</Text>" language="tsx" />
+      </>,
+      { wrapper: Providers },
+    );
+
+    expect(screen.getAllByRole("button", { name: "Copy code" })).toHaveLength(2);
+    expect(screen.queryByRole("button", { name: "Copy as Xcode snippet" })).not.toBeInTheDocument();
+  });
+});
+
+describe("CodeBlock themes", () => {
+  function background() {
+    return document.querySelector("pre")!.style.backgroundColor;
+  }
+
+  function rgb(hex: string) {
+    const [r, g, b] = [1, 3, 5].map((i) => parseInt(hex.slice(i, i + 2), 16));
+    return `rgb(${r}, ${g}, ${b})`;
+  }
+
+  it("follows the page theme by default", async () => {
+    const user = userEvent.setup();
+    render(
+      <>
+        <ThemeToggle />
+        <CodeBlock code="let a = 1" language="swift" />
+      </>,
+      { wrapper: Providers },
+    );
+
+    expect(background()).toBe(rgb(CODE_THEMES["utilitarian-dark"].prism.plain.backgroundColor!));
+
+    await user.click(screen.getByRole("button", { name: "Theme" }));
+    await user.click(screen.getByRole("menuitemradio", { name: "Light" }));
+
+    expect(background()).toBe(rgb(CODE_THEMES["utilitarian-light"].prism.plain.backgroundColor!));
+    expect(document.querySelector("pre")!.style.colorScheme).toBe("light");
+  });
+
+  it("keeps a chosen code theme whatever the page theme, and remembers it", async () => {
+    const user = userEvent.setup();
+    render(
+      <>
+        <ThemeToggle />
+        <CodeThemePicker />
+        <CodeBlock code="let a = 1" language="swift" />
+      </>,
+      { wrapper: Providers },
+    );
+
+    await user.selectOptions(screen.getByRole("combobox", { name: "Code theme" }), "Xcode Light");
+    expect(background()).toBe(rgb(CODE_THEMES["xcode-light"].prism.plain.backgroundColor!));
+
+    await user.click(screen.getByRole("button", { name: "Theme" }));
+    await user.click(screen.getByRole("menuitemradio", { name: "Light" }));
+
+    expect(background()).toBe(rgb(CODE_THEMES["xcode-light"].prism.plain.backgroundColor!));
+    expect(JSON.parse(localStorage.getItem("preferences")!)).toMatchObject({
+      codeTheme: "xcode-light",
+    });
+  });
+});
@@ -1,65 +1,149 @@
+import { useEffect, useState } from "react";
 import { Highlight, type Language } from "prism-react-renderer";
+import { Copy, Hammer } from "lucide-react";
+import "../lib/prism-swift";
+import { expandRanges, trimBlankLines } from "../lib/line-ranges";
+import { toXcodeSnippet } from "../lib/xcode-snippet";
+import { resolveCodeTheme } from "../lib/code-themes";
+import { useTheme } from "../context/ThemeContext";
+import { usePreferences, type FontSize } from "../context/PreferencesContext";
+import { Toast } from "./Toast";
+import type { LineRange } from "../types";
 
 interface CodeBlockProps {
   code: string;
   language: "tsx" | "swift";
   title?: string;
+  highlights?: LineRange[];
+  /** Lines lit up by a linked hover in a sibling block */
+  linkedLines?: LineRange[];
+  onLineHover?: (line: number | null) => void;
+  /** Number of the first line, when showing an excerpt of a longer block */
+  startLine?: number;
 }
 
-const darkUtilitarianTheme = {
-  plain: {
-    color: "#c8c8c8",
-    backgroundColor: "#0c0c0c",
-  },
-  styles: [
-    {
-      types: ["comment", "prolog", "doctype", "cdata"],
-      style: { color: "#606060", fontStyle: "italic" as const },
-    },
-    { types: ["punctuation"], style: { color: "#888888" } },
-    { types: ["property", "tag", "constant", "symbol", "deleted"], style: { color: "#d4a574" } },
-    { types: ["boolean", "number"], style: { color: "#e0a870" } },
-    {
-      types: ["selector", "attr-name", "string", "char", "builtin", "inserted"],
-      style: { color: "#a8c490" },
-    },
-    { types: ["operator", "entity", "url"], style: { color: "#8ab4d0" } },
-    { types: ["atrule", "attr-value", "keyword"], style: { color: "#7aa2c4" } },
-    { types: ["function"], style: { color: "#8cc8e8" } },
-    { types: ["class-name"], style: { color: "#c4a8d8" } },
-    { types: ["regex", "important", "variable"], style: { color: "#e8c078" } },
-  ],
+const CODE_FONT_SIZES: Record<FontSize, string> = {
+  small: "text-xs",
+  medium: "text-xs sm:text-sm",
+  large: "text-sm sm:text-base",
 };
 
-export function CodeBlock({ code, language, title }: CodeBlockProps) {
-  const prismLang: Language = language === "swift" ? "typescript" : "tsx";
+export function CodeBlock({
+  code,
+  language,
+  title,
+  highlights,
+  linkedLines,
+  onLineHover,
+  startLine = 1,
+}: CodeBlockProps) {
+  const prismLang: Language = language === "swift" ? "swift" : "tsx";
+  const highlighted = expandRanges(highlights);
+  const linked = expandRanges(linkedLines);
+  // Shown and copied alike. Excerpts can start mid-block, so only blank lines
+  // are trimmed and the first line keeps its indentation.
+  const trimmed = trimBlankLines(code);
+  const xcodeSnippet = language === "swift" ? toXcodeSnippet(trimmed) : null;
+  const [toast, setToast] = useState<string | null>(null);
+  const { appearance: pageAppearance } = useTheme();
+  const { codeTheme, codeFontSize, wrapLines, showLineNumbers } = usePreferences();
+  const { prism, appearance } = resolveCodeTheme(codeTheme, pageAppearance);
+
+  useEffect(() => {
+    if (!toast) return;
+    const timeout = setTimeout(() => setToast(null), 2000);
+    return () => clearTimeout(timeout);
+  }, [toast]);
+
+  const copy = async (text: string, message: string) => {
+    try {
+      await navigator.clipboard.writeText(text);
+      setToast(message);
+    } catch {
+      // Clipboard unavailable (insecure context or denied) - nothing to confirm
+    }
+  };
+
+  const toolbarButton =
+    "p-1 rounded text-text-muted bg-transparent border-0 cursor-pointer transition-colors hover:text-text-primary";
 
   return (
     <div className="rounded-lg overflow-hidden border border-border">
-      {title && (
-        <div className="px-4 py-2 bg-bg-tertiary border-b border-border text-xs font-medium uppercase tracking-wide text-text-secondary">
+      <div className="flex items-center justify-between gap-2 px-4 py-1.5 bg-bg-tertiary border-b border-border">
+        <span className="text-xs font-medium uppercase tracking-wide text-text-secondary">
           {title}
+        </span>
+        <div className="flex items-center gap-1">
+          {xcodeSnippet && (
+            <button
+              onClick={() => copy(xcodeSnippet, "Copied as Xcode snippet")}
+              aria-label="Copy as Xcode snippet"
+              title="Copy as Xcode snippet (ContentView + #Preview)"
+              className={toolbarButton}
+            >
+              <Hammer size={14} aria-hidden="true" />
+            </button>
+          )}
+          <button
+            onClick={() => copy(trimmed, "Code copied")}
+            aria-label="Copy code"
+            title="Copy code"
+            className={toolbarButton}
+          >
+            <Copy size={14} aria-hidden="true" />
+          </button>
         </div>
-      )}
-      <Highlight theme={darkUtilitarianTheme} code={code.trim()} language={prismLang}>
+      </div>
+      <Highlight theme={prism} code={trimmed} language={prismLang}>
         {({ className, style, tokens, getLineProps, getTokenProps }) => (
           <pre
-            className={`${className} m-0 p-3 sm:p-4 overflow-auto font-mono text-xs sm:text-sm leading-relaxed`}
-            style={style}
+            className={`${className} m-0 p-3 sm:p-4 font-mono leading-relaxed ${CODE_FONT_SIZES[codeFontSize]} ${
+              wrapLines ? "whitespace-pre-wrap [overflow-wrap:anywhere]" : "overflow-auto"
+            }`}
+            // Scrollbars follow the code theme, which can differ from the page's
+            style={{ ...style, colorScheme: appearance }}
+            onMouseLeave={onLineHover && (() => onLineHover(null))}
           >
-            {tokens.map((line, i) => (
-              <div key={i} {...getLineProps({ line })}>
-                <span className="inline-block w-6 sm:w-8 text-right pr-2 sm:pr-4 text-text-muted select-none text-[10px] sm:text-xs">
-                  {i + 1}
-                </span>
-                {line.map((token, key) => (
-                  <span key={key} {...getTokenProps({ token })} />
-                ))}
-              </div>
-            ))}
+            {tokens.map((line, i) => {
+              const lineNumber = startLine + i;
+              const isHighlighted = highlighted.has(lineNumber);
+              const isLinked = linked.has(lineNumber);
+              const lineProps = getLineProps({ line });
+
+              return (
+                <div
+                  key={i}
+                  {...lineProps}
+                  className={`${lineProps.className} rounded-sm ${wrapLines ? "flex" : ""} ${
+                    isLinked
+                      ? "bg-accent-cool/20"
+                      : isHighlighted
+                        ? "bg-accent-warm/10 shadow-[inset_2px_0_0_var(--color-accent-warm)]"
+                        : ""
+                  }`}
+                  data-highlighted={isHighlighted || undefined}
+                  data-linked={isLinked || undefined}
+                  onMouseEnter={onLineHover && (() => onLineHover(lineNumber))}
+                >
+                  {showLineNumbers && (
+                    <span className="inline-block shrink-0 w-6 sm:w-8 text-right pr-2 sm:pr-4 text-text-muted select-none text-[10px] sm:text-xs">
+                      {lineNumber}
+                    </span>
+                  )}
+                  {isHighlighted && <span className="sr-only select-none">Highlighted line: </span>}
+                  {/* Wrapped lines continue under the code, not under the line number */}
+                  <span className={wrapLines ? "flex-1 min-w-0" : undefined}>
+                    {line.map((token, key) => (
+                      <span key={key} {...getTokenProps({ token })} />
+                    ))}
+                  </span>
+                </div>
+              );
+            })}
           </pre>
         )}
       </Highlight>
+      {toast && <Toast message={toast} />}
     </div>
   );
 }
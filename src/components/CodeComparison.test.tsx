@@ -0,0 +1,295 @@
+import { render, screen, fireEvent, cleanup, within } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import type { ComponentProps, ReactNode } from "react";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { CodeComparison } from "./CodeComparison";
+import { CodeBlock } from "./CodeBlock";
+import { PreferencesProvider } from "../context/PreferencesContext";
+import { ThemeProvider } from "../context/ThemeContext";
+
+afterEach(() => {
+  cleanup();
+  localStorage.clear();
+  vi.restoreAllMocks();
+});
+
+beforeEach(() => {
+  Object.defineProperty(window, "matchMedia", {
+    writable: true,
+    value: vi.fn().mockImplementation((query: string) => ({
+      matches: false,
+      media: query,
+      onchange: null,
+      addListener: vi.fn(),
+      removeListener: vi.fn(),
+      addEventListener: vi.fn(),
+      removeEventListener: vi.fn(),
+      dispatchEvent: vi.fn(),
+    })),
+  });
+});
+
+function Providers({ children }: { children: ReactNode }) {
+  return (
+    <ThemeProvider>
+      <PreferencesProvider>{children}</PreferencesProvider>
+    </ThemeProvider>
+  );
+}
+
+function renderComparison(props: ComponentProps<typeof CodeComparison>) {
+  return render(<CodeComparison {...props} />, { wrapper: Providers });
+}
+
+const reactCode = `function Counter() {
+  const [count, setCount] = useState(0);
+  return <p>{count}</p>;
+}`;
+
+const swiftCode = `struct Counter: View {
+    @State private var count = 0
+    var body: some View {
+        Text("\\(count)")
+    }
+}`;
+
+function linesOf(container: HTMLElement) {
+  return Array.from(container.querySelectorAll("pre > div"));
+}
+
+describe("CodeBlock highlights", () => {
+  it("marks single lines and ranges as highlighted", () => {
+    const { container } = render(
+      <CodeBlock code={swiftCode} language="swift" highlights={[2, [4, 5]]} />,
+      { wrapper: Providers },
+    );
+
+    const highlighted = linesOf(container).map((line) => line.hasAttribute("data-highlighted"));
+    expect(highlighted).toEqual([false, true, false, true, true, false]);
+  });
+
+  it("announces highlighted lines to screen readers", () => {
+    render(<CodeBlock code={swiftCode} language="swift" highlights={[2]} />, {
+      wrapper: Providers,
+    });
+
+    expect(screen.getAllByText("Highlighted line:")).toHaveLength(1);
+  });
+});
+
+describe("CodeComparison linked highlights", () => {
+  const links = [
+    { react: 2, swiftui: 2 },
+    { react: 3, swiftui: [3, 5] as [number, number] },
+  ];
+
+  it("passes highlights through to both code blocks", () => {
+    const { container } = renderComparison({
+      react: { code: reactCode, highlights: [2] },
+      swiftui: { code: swiftCode, highlights: [[1, 2]] },
+    });
+
+    expect(container.querySelectorAll("[data-highlighted]")).toHaveLength(3);
+  });
+
+  it("lights up the SwiftUI counterpart when hovering a React line", () => {
+    const { container } = renderComparison({
+      react: { code: reactCode },
+      swiftui: { code: swiftCode },
+      links,
+    });
+    const [reactBlock, swiftBlock] = Array.from(container.querySelectorAll("pre"));
+
+    fireEvent.mouseEnter(linesOf(reactBlock)[2]);
+
+    const linked = linesOf(swiftBlock).map((line) => line.hasAttribute("data-linked"));
+    expect(linked).toEqual([false, false, true, true, true, false]);
+    expect(linesOf(reactBlock)[2]).toHaveAttribute("data-linked");
+
+    fireEvent.mouseLeave(reactBlock);
+    expect(container.querySelectorAll("[data-linked]")).toHaveLength(0);
+  });
+
+  it("links in both directions", () => {
+    const { container } = renderComparison({
+      react: { code: reactCode },
+      swiftui: { code: swiftCode },
+      links,
+    });
+    const [reactBlock, swiftBlock] = Array.from(container.querySelectorAll("pre"));
+
+    fireEvent.mouseEnter(linesOf(swiftBlock)[1]);
+
+    expect(linesOf(reactBlock)[1]).toHaveAttribute("data-linked");
+    expect(container.querySelectorAll("[data-linked]")).toHaveLength(2);
+  });
+});
+
+describe("CodeComparison mapped view", () => {
+  const links = [
+    { react: 2, swiftui: 2 },
+    { react: 3, swiftui: [3, 5] as [number, number] },
+  ];
+
+  function renderMapped() {
+    const result = renderComparison({
+      react: { code: reactCode },
+      swiftui: { code: swiftCode },
+      links,
+    });
+    fireEvent.click(screen.getByRole("button", { name: "Mapped" }));
+    return result;
+  }
+
+  it("is only offered when the section declares links", () => {
+    renderComparison({ react: { code: reactCode }, swiftui: { code: swiftCode } });
+
+    expect(screen.getByRole("button", { name: "Side by side" })).toBeInTheDocument();
+    expect(screen.queryByRole("button", { name: "Mapped" })).not.toBeInTheDocument();
+  });
+
+  it("draws a connector for each link", () => {
+    renderMapped();
+
+    expect(screen.getByRole("button", { name: "Mapped" })).toHaveAttribute("aria-pressed", "true");
+    expect(screen.getByTestId("connectors").querySelectorAll("g")).toHaveLength(2);
+  });
+
+  it("lights up both ends when hovering a connector", () => {
+    const { container } = renderMapped();
+    const [, secondConnector] = Array.from(screen.getByTestId("connectors").querySelectorAll("g"));
+
+    fireEvent.mouseEnter(secondConnector);
+
+    expect(secondConnector).toHaveAttribute("data-active");
+    const [reactBlock, swiftBlock] = Array.from(container.querySelectorAll("pre"));
+    expect(linesOf(reactBlock)[2]).toHaveAttribute("data-linked");
+    expect(linesOf(swiftBlock).map((line) => line.hasAttribute("data-linked"))).toEqual([
+      false,
+      false,
+      true,
+      true,
+      true,
+      false,
+    ]);
+  });
+
+  it("interleaves the linked lines as pairs on narrow screens", () => {
+    renderMapped();
+
+    const pairs = within(screen.getByRole("list", { name: "Line mapping" })).getAllByRole(
+      "listitem",
+    );
+    expect(pairs).toHaveLength(2);
+    expect(within(pairs[1]).getByText("React / JSX · line 3")).toBeInTheDocument();
+    expect(within(pairs[1]).getByText("SwiftUI · lines 3–5")).toBeInTheDocument();
+
+    const [reactExcerpt, swiftExcerpt] = Array.from(pairs[1].querySelectorAll("pre"));
+    expect(reactExcerpt).toHaveTextContent(/^3return <p>\{count\}<\/p>;$/);
+    expect(linesOf(swiftExcerpt).map((line) => line.firstChild?.textContent)).toEqual([
+      "3",
+      "4",
+      "5",
+    ]);
+  });
+});
+
+describe("CodeComparison layouts", () => {
+  it("stacks the blocks on every screen size", async () => {
+    const user = userEvent.setup();
+    const { container } = renderComparison({
+      react: { code: reactCode },
+      swiftui: { code: swiftCode },
+    });
+
+    await user.click(screen.getByRole("button", { name: "Stacked" }));
+
+    expect(screen.getByRole("button", { name: "Stacked" })).toHaveAttribute("aria-pressed", "true");
+    expect(container.querySelector(".lg\\:flex-row")).not.toBeInTheDocument();
+    expect(container.querySelectorAll("pre")).toHaveLength(2);
+  });
+
+  it("remembers the chosen layout", async () => {
+    const user = userEvent.setup();
+    const { unmount } = renderComparison({
+      react: { code: reactCode },
+      swiftui: { code: swiftCode },
+    });
+
+    await user.click(screen.getByRole("button", { name: "Tabbed" }));
+    unmount();
+    renderComparison({ react: { code: reactCode }, swiftui: { code: swiftCode } });
+
+    expect(screen.getByRole("button", { name: "Tabbed" })).toHaveAttribute("aria-pressed", "true");
+    expect(screen.getByRole("tablist", { name: "Code" })).toBeInTheDocument();
+  });
+
+  it("falls back to side by side for sections without links when mapped is chosen", () => {
+    localStorage.setItem("preferences", JSON.stringify({ comparisonLayout: "mapped" }));
+    renderComparison({ react: { code: reactCode }, swiftui: { code: swiftCode } });
+
+    expect(screen.getByRole("button", { name: "Side by side" })).toHaveAttribute(
+      "aria-pressed",
+      "true",
+    );
+  });
+});
+
+describe("CodeComparison tabbed layout", () => {
+  const links = [{ react: 2, swiftui: [2, 3] as [number, number] }];
+
+  function renderTabbed() {
+    localStorage.setItem("preferences", JSON.stringify({ comparisonLayout: "tabbed" }));
+    return renderComparison({ react: { code: reactCode }, swiftui: { code: swiftCode }, links });
+  }
+
+  it("shows one pane at a time", async () => {
+    const user = userEvent.setup();
+    renderTabbed();
+
+    expect(screen.getByRole("tabpanel")).toHaveTextContent("useState");
+
+    await user.click(screen.getByRole("tab", { name: /SwiftUI/ }));
+
+    expect(screen.getByRole("tab", { name: /SwiftUI/ })).toHaveAttribute("aria-selected", "true");
+    expect(screen.getByRole("tabpanel")).toHaveTextContent("@State");
+    expect(screen.getAllByRole("tabpanel")).toHaveLength(1);
+  });
+
+  it("switches panes with arrow keys on the tabs and 1/2 inside the comparison", async () => {
+    const user = userEvent.setup();
+    renderTabbed();
+
+    screen.getByRole("tab", { name: /React/ }).focus();
+    await user.keyboard("{ArrowRight}");
+    expect(screen.getByRole("tab", { name: /SwiftUI/ })).toHaveFocus();
+    expect(screen.getByRole("tabpanel")).toHaveTextContent("@State");
+
+    screen.getByRole("tabpanel").focus();
+    await user.keyboard("1");
+    expect(screen.getByRole("tab", { name: /React/ })).toHaveAttribute("aria-selected", "true");
+  });
+
+  it("keeps the reader's place when flipping tabs", async () => {
+    const user = userEvent.setup();
+    renderTabbed();
+    const scrollBy = vi.spyOn(window, "scrollBy").mockImplementation(() => {});
+    // The panel is scrolled past its top: React line 2 is the first line in
+    // view, and SwiftUI lines render lower down once that tab is open
+    vi.spyOn(Element.prototype, "getBoundingClientRect").mockImplementation(
+      function (this: Element) {
+        if (this.getAttribute("role") === "tabpanel") return { top: -40 } as DOMRect;
+        const index = Array.from(this.parentElement?.children ?? []).indexOf(this);
+        const offset = this.closest("pre")?.textContent?.includes("@State") ? 35 : -30;
+        return { top: index * 20 + offset, bottom: index * 20 + offset + 20 } as DOMRect;
+      },
+    );
+    screen.getByRole("tabpanel").querySelector("pre")!.scrollLeft = 120;
+
+    await user.click(screen.getByRole("tab", { name: /SwiftUI/ }));
+
+    // React line 2 links to SwiftUI line 2, scrolled from 55 back to where it was (-10)
+    expect(scrollBy).toHaveBeenCalledWith(0, 65);
+    expect(screen.getByRole("tabpanel").querySelector("pre")!.scrollLeft).toBe(120);
+  });
+});
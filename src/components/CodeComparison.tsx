@@ -1,9 +1,30 @@
+import { useState } from "react";
 import { CodeBlock } from "./CodeBlock";
-import { ArrowRight, ArrowDown } from "lucide-react";
+import { MappedComparison } from "./MappedComparison";
+import { TabbedComparison } from "./TabbedComparison";
+import { ArrowRight, ArrowDown, Columns2, PanelTop, Rows2, Spline } from "lucide-react";
+import type { LucideIcon } from "lucide-react";
+import { usePreferences, type ComparisonLayout } from "../context/PreferencesContext";
+import { rangeContains } from "../lib/line-ranges";
+import type { CodeExample, LineLink } from "../types";
+
+const LAYOUTS: { id: ComparisonLayout; label: string; icon: LucideIcon }[] = [
+  { id: "side-by-side", label: "Side by side", icon: Columns2 },
+  { id: "stacked", label: "Stacked", icon: Rows2 },
+  { id: "tabbed", label: "Tabbed", icon: PanelTop },
+  { id: "mapped", label: "Mapped", icon: Spline },
+];
+
+// Large code needs more room before the blocks fit side by side
+const SIDE_BY_SIDE_CLASSES = {
+  lg: { row: "lg:flex-row", arrows: "lg:py-0", down: "block lg:hidden", right: "hidden lg:block" },
+  xl: { row: "xl:flex-row", arrows: "xl:py-0", down: "block xl:hidden", right: "hidden xl:block" },
+};
 
 interface CodeComparisonProps {
-  react: { code: string };
-  swiftui: { code: string };
+  react: CodeExample;
+  swiftui: CodeExample;
+  links?: LineLink[];
   leftTitle?: string;
   rightTitle?: string;
 }
@@ -11,25 +32,98 @@ interface CodeComparisonProps {
 export function CodeComparison({
   react,
   swiftui,
+  links = [],
   leftTitle = "React / JSX",
   rightTitle = "SwiftUI",
 }: CodeComparisonProps) {
+  const [activeLink, setActiveLink] = useState<LineLink | null>(null);
+  const { comparisonLayout, codeFontSize, setPreference } = usePreferences();
+
+  const hoverSide = (side: keyof LineLink) => (line: number | null) => {
+    setActiveLink(
+      line === null ? null : (links.find((link) => rangeContains(link[side], line)) ?? null),
+    );
+  };
+
+  const hasLinks = links.length > 0;
+  // The mapped layout draws the links, so sections without any fall back
+  const layout = comparisonLayout === "mapped" && !hasLinks ? "side-by-side" : comparisonLayout;
+  const isStacked = layout === "stacked";
+  const sideBySide = SIDE_BY_SIDE_CLASSES[codeFontSize === "large" ? "xl" : "lg"];
+
   return (
     <div className="mb-6 max-w-[1440px] mx-auto">
-      <div className="flex flex-col lg:flex-row gap-4 items-stretch">
-        <div className="flex-1 min-w-0">
-          <CodeBlock code={react.code} language="tsx" title={leftTitle} />
-        </div>
+      <div className="flex justify-end gap-1 mb-2" role="group" aria-label="Comparison layout">
+        {LAYOUTS.filter(({ id }) => id !== "mapped" || hasLinks).map(
+          ({ id, label, icon: Icon }) => (
+            <button
+              key={id}
+              onClick={() => setPreference("comparisonLayout", id)}
+              aria-pressed={layout === id}
+              title={label}
+              className={`inline-flex items-center gap-1.5 px-2.5 py-1 text-xs rounded border cursor-pointer transition-colors ${
+                layout === id
+                  ? "bg-bg-tertiary border-border text-text-primary"
+                  : "bg-transparent border-transparent text-text-muted hover:text-text-primary"
+              }`}
+            >
+              <Icon size={14} aria-hidden="true" />
+              <span className="sr-only sm:not-sr-only">{label}</span>
+            </button>
+          ),
+        )}
+      </div>
 
-        <div className="flex items-center justify-center text-text-muted py-2 lg:py-0">
-          <ArrowDown size={20} className="block lg:hidden" />
-          <ArrowRight size={20} className="hidden lg:block" />
-        </div>
+      {layout === "mapped" ? (
+        <MappedComparison
+          react={react}
+          swiftui={swiftui}
+          links={links}
+          leftTitle={leftTitle}
+          rightTitle={rightTitle}
+          activeLink={activeLink}
+          onActiveLinkChange={setActiveLink}
+        />
+      ) : layout === "tabbed" ? (
+        <TabbedComparison
+          react={react}
+          swiftui={swiftui}
+          links={links}
+          leftTitle={leftTitle}
+          rightTitle={rightTitle}
+        />
+      ) : (
+        <div className={`flex flex-col gap-4 items-stretch ${isStacked ? "" : sideBySide.row}`}>
+          <div className="flex-1 min-w-0">
+            <CodeBlock
+              code={react.code}
+              language="tsx"
+              title={leftTitle}
+              highlights={react.highlights}
+              linkedLines={activeLink ? [activeLink.react] : undefined}
+              onLineHover={hasLinks ? hoverSide("react") : undefined}
+            />
+          </div>
 
-        <div className="flex-1 min-w-0">
-          <CodeBlock code={swiftui.code} language="swift" title={rightTitle} />
+          <div
+            className={`flex items-center justify-center text-text-muted py-2 ${isStacked ? "" : sideBySide.arrows}`}
+          >
+            <ArrowDown size={20} className={isStacked ? "block" : sideBySide.down} />
+            {!isStacked && <ArrowRight size={20} className={sideBySide.right} />}
+          </div>
+
+          <div className="flex-1 min-w-0">
+            <CodeBlock
+              code={swiftui.code}
+              language="swift"
+              title={rightTitle}
+              highlights={swiftui.highlights}
+              linkedLines={activeLink ? [activeLink.swiftui] : undefined}
+              onLineHover={hasLinks ? hoverSide("swiftui") : undefined}
+            />
+          </div>
         </div>
-      </div>
+      )}
     </div>
   );
 }
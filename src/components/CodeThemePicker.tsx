@@ -0,0 +1,25 @@
+import { Code } from "lucide-react";
+import { usePreferences } from "../context/PreferencesContext";
+import { CODE_THEMES, CODE_THEME_PREFERENCES, type CodeThemePreference } from "../lib/code-themes";
+
+export function CodeThemePicker() {
+  const { codeTheme, setPreference } = usePreferences();
+
+  return (
+    <label className="flex items-center gap-2 text-xs text-text-secondary">
+      <Code size={14} aria-hidden="true" />
+      Code theme
+      <select
+        value={codeTheme}
+        onChange={(event) => setPreference("codeTheme", event.target.value as CodeThemePreference)}
+        className="ml-auto px-1.5 py-1 bg-bg-primary border border-border rounded text-xs text-text-primary cursor-pointer"
+      >
+        {CODE_THEME_PREFERENCES.map((id) => (
+          <option key={id} value={id}>
+            {id === "auto" ? "Match page" : CODE_THEMES[id].label}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
@@ -0,0 +1,114 @@
+import { act, screen, cleanup, within } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { afterEach, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import App from "../App";
+import { loadAllLessons } from "../data/lessons";
+import { renderWithProviders } from "../test-utils";
+
+// Wrapped so a test can make the search index fail to load
+vi.mock("../data/lessons", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("../data/lessons")>();
+  return { ...actual, loadAllLessons: vi.fn(actual.loadAllLessons) };
+});
+
+// The lesson route is lazy-loaded; import it up front so the first test to
+// open a lesson isn't racing a cold module transform
+beforeAll(async () => {
+  await import("./LessonView");
+});
+
+afterEach(() => {
+  cleanup();
+});
+
+function renderApp() {
+  return renderWithProviders(<App />);
+}
+
+describe("CommandPalette", () => {
+  beforeEach(() => {
+    Object.defineProperty(window, "matchMedia", {
+      writable: true,
+      value: vi.fn().mockImplementation((query: string) => ({
+        matches: false,
+        media: query,
+        onchange: null,
+        addListener: vi.fn(),
+        removeListener: vi.fn(),
+        addEventListener: vi.fn(),
+        removeEventListener: vi.fn(),
+        dispatchEvent: vi.fn(),
+      })),
+    });
+  });
+
+  it("opens with Ctrl+K and closes with Escape", async () => {
+    const user = userEvent.setup();
+    renderApp();
+
+    expect(screen.queryByRole("dialog", { name: /search lessons/i })).not.toBeInTheDocument();
+
+    await user.keyboard("{Control>}k{/Control}");
+    expect(screen.getByRole("dialog", { name: /search lessons/i })).toBeInTheDocument();
+    expect(screen.getByRole("combobox", { name: /search/i })).toHaveFocus();
+
+    await user.keyboard("{Escape}");
+    expect(screen.queryByRole("dialog", { name: /search lessons/i })).not.toBeInTheDocument();
+  });
+
+  it("opens from the sidebar search button", async () => {
+    const user = userEvent.setup();
+    renderApp();
+
+    await user.click(screen.getByRole("button", { name: /search lessons/i }));
+
+    expect(screen.getByRole("dialog", { name: /search lessons/i })).toBeInTheDocument();
+  });
+
+  it("shows ranked results and navigates to the selected section", async () => {
+    const user = userEvent.setup();
+    renderApp();
+
+    await user.keyboard("{Meta>}k{/Meta}");
+    await user.type(screen.getByRole("combobox", { name: /search/i }), "@AppStorage");
+
+    // The search index is built from lazily loaded lessons
+    const options = await within(screen.getByRole("dialog")).findAllByRole("option");
+    expect(options[0]).toHaveTextContent("@AppStorage");
+    expect(options[0]).toHaveAttribute("aria-selected", "true");
+
+    // Opening the lazily loaded lesson route suspends; an awaited act lets React retry
+    await act(() => user.keyboard("{Enter}"));
+
+    expect(screen.queryByRole("dialog")).not.toBeInTheDocument();
+    expect(
+      await screen.findByRole("heading", { level: 1, name: "State Management" }),
+    ).toBeInTheDocument();
+  });
+
+  it("tells the user when nothing matches", async () => {
+    const user = userEvent.setup();
+    renderApp();
+
+    await user.keyboard("{Control>}k{/Control}");
+    await user.type(screen.getByRole("combobox", { name: /search/i }), "zzzqqq");
+
+    expect(await screen.findByText(/no results/i)).toBeInTheDocument();
+  });
+
+  it("offers a retry when the lessons fail to load", async () => {
+    const user = userEvent.setup();
+    vi.mocked(loadAllLessons).mockRejectedValueOnce(new Error("Failed to fetch"));
+    renderApp();
+
+    await user.keyboard("{Control>}k{/Control}");
+    const dialog = screen.getByRole("dialog", { name: /search lessons/i });
+    expect(await within(dialog).findByRole("alert")).toHaveTextContent("Couldn't load the lessons");
+
+    await user.click(within(dialog).getByRole("button", { name: "Retry" }));
+    await user.type(screen.getByRole("combobox", { name: /search/i }), "appstorage");
+
+    expect(await within(dialog).findAllByRole("option")).not.toHaveLength(0);
+    expect(within(dialog).queryByRole("alert")).not.toBeInTheDocument();
+  });
+});
@@ -0,0 +1,170 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import type { KeyboardEvent } from "react";
+import { useNavigate } from "react-router-dom";
+import { Search, CornerDownLeft, RotateCcw } from "lucide-react";
+import { loadAllLessons } from "../data/lessons";
+import { buildSearchIndex, search } from "../lib/search";
+import type { SearchIndex } from "../lib/search";
+import { lessonPath } from "../lib/anchors";
+
+interface CommandPaletteProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+export function CommandPalette({ isOpen, onClose }: CommandPaletteProps) {
+  const navigate = useNavigate();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [query, setQuery] = useState("");
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  const [index, setIndex] = useState<SearchIndex | null>(null);
+  const [loadFailed, setLoadFailed] = useState(false);
+  const results = useMemo(() => (index ? search(index, query) : []), [index, query]);
+
+  // Lesson content is lazy-loaded, so the index is built the first time the
+  // palette opens rather than on page load. A failed load waits for a retry.
+  useEffect(() => {
+    if (!isOpen || index || loadFailed) return;
+    let cancelled = false;
+    loadAllLessons().then(
+      (lessons) => {
+        if (!cancelled) setIndex(buildSearchIndex(lessons));
+      },
+      () => {
+        if (!cancelled) setLoadFailed(true);
+      },
+    );
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, index, loadFailed]);
+
+  useEffect(() => {
+    if (isOpen) {
+      setQuery("");
+      setActiveIndex(0);
+      inputRef.current?.focus();
+    }
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const openResult = (resultIndex: number) => {
+    const result = results[resultIndex];
+    if (!result) return;
+    navigate(lessonPath(result.lessonId, result.sectionAnchor));
+    onClose();
+  };
+
+  const handleKeyDown = (event: KeyboardEvent) => {
+    if (event.key === "ArrowDown") {
+      event.preventDefault();
+      setActiveIndex((i) => Math.min(i + 1, results.length - 1));
+    } else if (event.key === "ArrowUp") {
+      event.preventDefault();
+      setActiveIndex((i) => Math.max(i - 1, 0));
+    } else if (event.key === "Enter") {
+      event.preventDefault();
+      openResult(activeIndex);
+    } else if (event.key === "Escape") {
+      event.preventDefault();
+      onClose();
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-60 flex items-start justify-center p-4 pt-[10vh]">
+      <div className="absolute inset-0 bg-black/50" onClick={onClose} aria-hidden="true" />
+      <div
+        className="relative w-full max-w-xl bg-bg-secondary border border-border rounded-lg shadow-2xl overflow-hidden"
+        role="dialog"
+        aria-modal="true"
+        aria-label="Search lessons"
+      >
+        <div className="flex items-center gap-3 px-4 border-b border-border">
+          <Search size={16} className="text-text-muted shrink-0" aria-hidden="true" />
+          <input
+            ref={inputRef}
+            type="text"
+            value={query}
+            onChange={(event) => {
+              setQuery(event.target.value);
+              setActiveIndex(0);
+            }}
+            onKeyDown={handleKeyDown}
+            placeholder="Search lessons, tips and code…"
+            className="flex-1 py-3.5 bg-transparent text-sm text-text-primary placeholder:text-text-muted outline-none"
+            role="combobox"
+            aria-expanded={results.length > 0}
+            aria-controls="search-results"
+            aria-activedescendant={results.length > 0 ? `search-result-${activeIndex}` : undefined}
+            aria-label="Search"
+          />
+          <kbd className="text-[0.6875rem] text-text-muted font-mono">Esc</kbd>
+        </div>
+
+        {loadFailed ? (
+          <div
+            role="alert"
+            className="flex flex-col items-center gap-3 px-4 py-6 text-center text-sm text-text-muted"
+          >
+            Couldn't load the lessons to search. Check your connection and try again.
+            <button
+              onClick={() => setLoadFailed(false)}
+              className="inline-flex items-center gap-2 px-3 py-1.5 bg-transparent border border-border rounded text-sm text-text-secondary cursor-pointer transition-colors hover:bg-bg-tertiary hover:text-text-primary"
+            >
+              <RotateCcw size={14} aria-hidden="true" />
+              Retry
+            </button>
+          </div>
+        ) : (
+          query.trim() && (
+            <ul id="search-results" role="listbox" className="max-h-[60vh] overflow-y-auto py-2">
+              {!index ? (
+                <li className="px-4 py-6 text-center text-sm text-text-muted">Loading lessons…</li>
+              ) : results.length === 0 ? (
+                <li className="px-4 py-6 text-center text-sm text-text-muted">
+                  No results for “{query.trim()}”
+                </li>
+              ) : (
+                results.map((result, resultIndex) => (
+                  <li
+                    key={`${result.lessonId}-${result.sectionIndex ?? "lesson"}`}
+                    id={`search-result-${resultIndex}`}
+                    role="option"
+                    aria-selected={resultIndex === activeIndex}
+                    onMouseEnter={() => setActiveIndex(resultIndex)}
+                    onClick={() => openResult(resultIndex)}
+                    className={`flex items-start gap-3 px-4 py-2.5 cursor-pointer ${
+                      resultIndex === activeIndex ? "bg-bg-tertiary" : ""
+                    }`}
+                  >
+                    <div className="flex-1 min-w-0">
+                      <div className="text-[0.8125rem] text-text-primary truncate">
+                        {result.sectionTitle ?? result.lessonTitle}
+                      </div>
+                      <div className="text-[0.6875rem] text-text-muted truncate">
+                        {result.sectionTitle ? result.lessonTitle : "Lesson"}
+                        {result.field !== "lessonTitle" && result.field !== "sectionTitle" && (
+                          <> · {result.snippet}</>
+                        )}
+                      </div>
+                    </div>
+                    {resultIndex === activeIndex && (
+                      <CornerDownLeft
+                        size={14}
+                        className="text-text-muted shrink-0 mt-1"
+                        aria-hidden="true"
+                      />
+                    )}
+                  </li>
+                ))
+              )}
+            </ul>
+          )
+        )}
+      </div>
+    </div>
+  );
+}
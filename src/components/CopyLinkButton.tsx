@@ -0,0 +1,43 @@
+import { useEffect, useState } from "react";
+import { Check, Link2 } from "lucide-react";
+
+interface CopyLinkButtonProps {
+  /** Path and hash to link to, e.g. "/lessons/state#appstorage" */
+  path: string;
+  label: string;
+  className?: string;
+}
+
+export function CopyLinkButton({ path, label, className = "" }: CopyLinkButtonProps) {
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    if (!copied) return;
+    const timeout = setTimeout(() => setCopied(false), 2000);
+    return () => clearTimeout(timeout);
+  }, [copied]);
+
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(`${window.location.origin}${path}`);
+      setCopied(true);
+    } catch {
+      // Clipboard unavailable (insecure context or denied) - leave the button as is
+    }
+  };
+
+  return (
+    <button
+      onClick={copyLink}
+      aria-label={copied ? "Link copied" : label}
+      title={copied ? "Link copied" : label}
+      className={`p-1 rounded text-text-muted bg-transparent border-0 cursor-pointer transition-opacity hover:text-text-primary focus-visible:opacity-100 ${className}`}
+    >
+      {copied ? (
+        <Check size={16} className="text-accent-cool" aria-hidden="true" />
+      ) : (
+        <Link2 size={16} aria-hidden="true" />
+      )}
+    </button>
+  );
+}
@@ -1,34 +1,58 @@
 import { Link } from "react-router-dom";
-import type { Lesson } from "../types";
-import { ChevronRight } from "lucide-react";
+import type { LessonSummary } from "../types";
+import { ChevronRight, CircleCheck } from "lucide-react";
+import { useProgress } from "../context/ProgressContext";
+import { loadLesson } from "../data/lessons";
 
 interface LessonCardProps {
-  lesson: Lesson;
+  lesson: LessonSummary;
   isActive: boolean;
   onClick?: () => void;
 }
 
 export function LessonCard({ lesson, isActive, onClick }: LessonCardProps) {
+  const { isLessonCompleted, getViewedCount } = useProgress();
+  const isCompleted = isLessonCompleted(lesson.id);
+  const viewedCount = getViewedCount(lesson.id);
+  const sectionCount = lesson.sectionCount;
+
   return (
     <Link
       to={`/lessons/${lesson.id}`}
       onClick={onClick}
+      // Start fetching the lesson before the click lands
+      onMouseEnter={() => void loadLesson(lesson.id)}
+      onFocus={() => void loadLesson(lesson.id)}
+      aria-current={isActive ? "page" : undefined}
       className={`group w-full flex items-center justify-between py-2.5 px-3 text-left cursor-pointer border-l-2 no-underline ${
         isActive
           ? "bg-bg-tertiary border-l-accent-warm text-text-primary"
           : "bg-transparent border-l-transparent text-text-secondary hover:bg-bg-tertiary hover:text-text-primary hover:border-l-accent-dim"
       }`}
-      aria-label={`${lesson.title} - ${lesson.description}`}
+      aria-label={`${lesson.title} - ${lesson.description}${isCompleted ? " (completed)" : ""}`}
     >
       <div className="flex-1">
         <span className="block text-[0.8125rem] font-normal">{lesson.title}</span>
-        <span className="text-[0.6875rem] text-text-muted">{lesson.sections.length} sections</span>
+        <span className="text-[0.6875rem] text-text-muted">
+          {viewedCount > 0 && !isCompleted
+            ? `${Math.min(viewedCount, sectionCount)}/${sectionCount} sections`
+            : `${sectionCount} sections`}
+        </span>
       </div>
-      <ChevronRight
-        size={16}
-        className="text-text-muted shrink-0 opacity-0 group-hover:opacity-100"
-        aria-hidden="true"
-      />
+      {isCompleted ? (
+        <CircleCheck
+          size={16}
+          className="text-accent-cool shrink-0"
+          aria-hidden="true"
+          data-testid="lesson-completed"
+        />
+      ) : (
+        <ChevronRight
+          size={16}
+          className="text-text-muted shrink-0 opacity-0 group-hover:opacity-100"
+          aria-hidden="true"
+        />
+      )}
     </Link>
   );
 }
@@ -0,0 +1,87 @@
+import { useEffect } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import { ArrowLeft, ArrowRight } from "lucide-react";
+import type { Lesson, LessonSummary } from "../types";
+import { getAdjacentLessons, loadLesson } from "../data/lessons";
+import { lessonPath } from "../lib/anchors";
+import { MODULE_LABELS } from "../constants";
+
+const PREVIOUS_KEY = "[";
+const NEXT_KEY = "]";
+
+function isTypingTarget(target: EventTarget | null) {
+  return (
+    target instanceof HTMLElement &&
+    (target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName))
+  );
+}
+
+interface PagerLinkProps {
+  lesson: LessonSummary;
+  direction: "previous" | "next";
+  /** Shown when the link crosses into another module */
+  moduleLabel?: string;
+}
+
+function PagerLink({ lesson, direction, moduleLabel }: PagerLinkProps) {
+  const isNext = direction === "next";
+  return (
+    <Link
+      to={lessonPath(lesson.id)}
+      rel={isNext ? "next" : "prev"}
+      aria-keyshortcuts={isNext ? NEXT_KEY : PREVIOUS_KEY}
+      onMouseEnter={() => void loadLesson(lesson.id)}
+      onFocus={() => void loadLesson(lesson.id)}
+      className={`group flex-1 flex flex-col gap-1 p-4 border border-border rounded-lg no-underline transition-colors hover:bg-bg-tertiary hover:border-accent-dim ${
+        isNext ? "items-end text-right" : "items-start text-left"
+      }`}
+    >
+      <span className="flex items-center gap-1.5 text-xs text-text-muted">
+        {!isNext && <ArrowLeft size={14} aria-hidden="true" />}
+        {isNext ? "Next" : "Previous"}
+        {moduleLabel && <span className="text-accent-warm">· {moduleLabel}</span>}
+        <kbd className="hidden sm:inline font-mono text-[0.6875rem]" aria-hidden="true">
+          {isNext ? NEXT_KEY : PREVIOUS_KEY}
+        </kbd>
+        {isNext && <ArrowRight size={14} aria-hidden="true" />}
+      </span>
+      <span className="text-sm text-text-primary group-hover:text-accent-warm">{lesson.title}</span>
+    </Link>
+  );
+}
+
+/** Previous/next links in curriculum order, also bound to the `[` and `]` keys */
+export function LessonPager({ lesson }: { lesson: Pick<Lesson, "id" | "module"> }) {
+  const navigate = useNavigate();
+  const { previous, next } = getAdjacentLessons(lesson.id);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.metaKey || event.ctrlKey || event.altKey || isTypingTarget(event.target)) return;
+      const target = event.key === PREVIOUS_KEY ? previous : event.key === NEXT_KEY ? next : null;
+      if (!target) return;
+      event.preventDefault();
+      navigate(lessonPath(target.id));
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [navigate, previous, next]);
+
+  const crossesModule = (other: LessonSummary) =>
+    other.module !== lesson.module ? MODULE_LABELS[other.module] : undefined;
+
+  return (
+    <nav
+      aria-label="Previous and next lessons"
+      className="flex flex-col sm:flex-row gap-3 mt-8 sm:mt-12 max-w-3xl mx-auto"
+    >
+      {previous ? (
+        <PagerLink lesson={previous} direction="previous" moduleLabel={crossesModule(previous)} />
+      ) : (
+        <div className="hidden sm:block flex-1" />
+      )}
+      {next && <PagerLink lesson={next} direction="next" moduleLabel={crossesModule(next)} />}
+    </nav>
+  );
+}
@@ -0,0 +1,44 @@
+import type { MouseEvent } from "react";
+
+export interface TocEntry {
+  anchor: string;
+  title: string;
+}
+
+interface LessonTocProps {
+  entries: TocEntry[];
+  activeAnchor: string | null;
+  onNavigate: (anchor: string) => void;
+}
+
+/** The lesson's sections as in-page links, marking the one in view */
+export function LessonToc({ entries, activeAnchor, onNavigate }: LessonTocProps) {
+  const handleClick = (event: MouseEvent, anchor: string) => {
+    // Let modified clicks open the section in a new tab
+    if (event.metaKey || event.ctrlKey || event.shiftKey || event.altKey) return;
+    event.preventDefault();
+    onNavigate(anchor);
+  };
+
+  return (
+    <ol className="list-none space-y-1 text-sm">
+      {entries.map(({ anchor, title }) => {
+        const isActive = anchor === activeAnchor;
+        return (
+          <li key={anchor}>
+            <a
+              href={`#${anchor}`}
+              onClick={(event) => handleClick(event, anchor)}
+              aria-current={isActive ? "location" : undefined}
+              className={`block py-1 pl-3 border-l-2 no-underline transition-colors hover:text-text-primary ${
+                isActive ? "border-accent-warm text-text-primary" : "border-border text-text-muted"
+              }`}
+            >
+              {title}
+            </a>
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
@@ -0,0 +1,247 @@
+import { act, screen, cleanup, within } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { useLocation } from "react-router-dom";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { LessonView } from "./LessonView";
+import { loadLesson } from "../data/lessons";
+import type { Lesson } from "../types";
+import { mockScrollIntoView, renderWithProviders } from "../test-utils";
+
+afterEach(() => {
+  cleanup();
+  vi.restoreAllMocks();
+  localStorage.clear();
+});
+
+const lesson = await loadLesson("view-lifecycle");
+
+function LocationDisplay() {
+  return <div data-testid="location">{useLocation().pathname}</div>;
+}
+
+function renderLesson(initialEntry = `/lessons/${lesson.id}`, shown: Lesson = lesson) {
+  return renderWithProviders(
+    <>
+      <LessonView lesson={shown} onBack={vi.fn()} />
+      <LocationDisplay />
+    </>,
+    { route: initialEntry },
+  );
+}
+
+beforeEach(() => {
+  Object.defineProperty(window, "matchMedia", {
+    writable: true,
+    value: vi.fn().mockImplementation((query: string) => ({
+      matches: false,
+      media: query,
+      onchange: null,
+      addListener: vi.fn(),
+      removeListener: vi.fn(),
+      addEventListener: vi.fn(),
+      removeEventListener: vi.fn(),
+      dispatchEvent: vi.fn(),
+    })),
+  });
+});
+
+describe("LessonView section anchors", () => {
+  it("gives each section a stable id derived from its title", () => {
+    const { container } = renderLesson();
+
+    expect(container.querySelector("section#onappear-ondisappear")).toBeInTheDocument();
+  });
+
+  it("scrolls to the section named in the URL hash", () => {
+    const scrollIntoView = mockScrollIntoView();
+
+    const { container } = renderLesson(`/lessons/${lesson.id}#onappear-ondisappear`);
+
+    expect(scrollIntoView).toHaveBeenCalledTimes(1);
+    expect(scrollIntoView.mock.contexts[0]).toBe(container.querySelector("#onappear-ondisappear"));
+  });
+
+  it("copies a deep link from the section heading", async () => {
+    const user = userEvent.setup();
+    renderLesson();
+
+    await user.click(screen.getByRole("button", { name: 'Copy link to "onAppear / onDisappear"' }));
+
+    expect(await navigator.clipboard.readText()).toBe(
+      `${window.location.origin}/lessons/${lesson.id}#onappear-ondisappear`,
+    );
+    expect(screen.getByRole("button", { name: "Link copied" })).toBeInTheDocument();
+  });
+});
+
+describe("LessonView previous/next navigation", () => {
+  it("links to the neighbouring lessons in curriculum order", () => {
+    renderLesson();
+    const nav = within(screen.getByRole("navigation", { name: "Previous and next lessons" }));
+
+    expect(nav.getByRole("link", { name: /previous.*state management/i })).toHaveAttribute(
+      "href",
+      "/lessons/state",
+    );
+    expect(nav.getByRole("link", { name: /next.*layout/i })).toHaveAttribute(
+      "href",
+      "/lessons/layout",
+    );
+  });
+
+  it("continues from the last Swift lesson into SwiftUI", async () => {
+    const errorHandling = await loadLesson("error-handling");
+    renderLesson(`/lessons/${errorHandling.id}`, errorHandling);
+    const nav = within(screen.getByRole("navigation", { name: "Previous and next lessons" }));
+
+    expect(nav.getByRole("link", { name: /next/i })).toHaveAttribute("href", "/lessons/basics");
+    expect(nav.getByRole("link", { name: /next/i })).toHaveTextContent("SwiftUI");
+  });
+
+  it("has no previous link on the first lesson", async () => {
+    const first = await loadLesson("types-and-inference");
+    renderLesson(`/lessons/${first.id}`, first);
+    const nav = within(screen.getByRole("navigation", { name: "Previous and next lessons" }));
+
+    expect(nav.queryByRole("link", { name: /previous/i })).not.toBeInTheDocument();
+    expect(nav.getByRole("link", { name: /next/i })).toBeInTheDocument();
+  });
+
+  it("moves between lessons with [ and ]", async () => {
+    const user = userEvent.setup();
+    renderLesson();
+
+    await user.keyboard("]");
+    expect(screen.getByTestId("location")).toHaveTextContent("/lessons/layout");
+
+    // user-event reads "[" as the start of a key descriptor
+    await user.keyboard("[[");
+    expect(screen.getByTestId("location")).toHaveTextContent("/lessons/state");
+  });
+
+  it("ignores the shortcuts while typing", async () => {
+    const user = userEvent.setup();
+    renderLesson();
+    const input = document.createElement("input");
+    document.body.appendChild(input);
+
+    await user.click(input);
+    await user.keyboard("]");
+
+    expect(screen.getByTestId("location")).toHaveTextContent(`/lessons/${lesson.id}`);
+    input.remove();
+  });
+
+  it("lists prerequisites with their completion state", () => {
+    localStorage.setItem(
+      "progress",
+      JSON.stringify({ viewedSections: {}, completedLessons: ["state"] }),
+    );
+    renderLesson();
+
+    expect(screen.getByRole("link", { name: "State Management (completed)" })).toHaveAttribute(
+      "href",
+      "/lessons/state",
+    );
+  });
+});
+
+describe("LessonView table of contents", () => {
+  // The scrollspy's observer, told apart from the viewed-sections one by its margin
+  let spy: IntersectionObserverCallback = () => {};
+
+  beforeEach(() => {
+    vi.stubGlobal(
+      "IntersectionObserver",
+      class {
+        constructor(callback: IntersectionObserverCallback, options?: IntersectionObserverInit) {
+          if (options?.rootMargin) spy = callback;
+        }
+        observe() {}
+        disconnect() {}
+      },
+    );
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    window.history.replaceState(null, "", "/");
+  });
+
+  const intersect = (isIntersecting: boolean, ...anchors: string[]) =>
+    act(() => {
+      spy(
+        anchors.map(
+          (anchor) =>
+            ({
+              target: document.getElementById(anchor),
+              isIntersecting,
+            }) as unknown as IntersectionObserverEntry,
+        ),
+        {} as IntersectionObserver,
+      );
+    });
+
+  const tableOfContents = () =>
+    within(screen.getAllByRole("navigation", { name: "Table of contents" })[0]);
+
+  it("links to every section by its anchor", () => {
+    renderLesson();
+
+    const links = tableOfContents().getAllByRole("link");
+    expect(links.map((link) => link.textContent)).toEqual(
+      lesson.sections.map((section) => section.title),
+    );
+    expect(tableOfContents().getByRole("link", { name: "onAppear / onDisappear" })).toHaveAttribute(
+      "href",
+      "#onappear-ondisappear",
+    );
+  });
+
+  it("marks the section in view and follows it in the URL hash", () => {
+    const { container } = renderLesson();
+    const [first, second, third] = Array.from(container.querySelectorAll("section"), (s) => s.id);
+
+    intersect(true, first);
+    expect(tableOfContents().getByRole("link", { current: "location" })).toHaveAttribute(
+      "href",
+      `#${first}`,
+    );
+    // Opening the page doesn't rewrite its URL
+    expect(window.location.hash).toBe("");
+
+    // Between sections the last one stays marked
+    intersect(false, first);
+    expect(tableOfContents().getByRole("link", { current: "location" })).toHaveAttribute(
+      "href",
+      `#${first}`,
+    );
+
+    intersect(true, second, third);
+    expect(tableOfContents().getByRole("link", { current: "location" })).toHaveAttribute(
+      "href",
+      `#${second}`,
+    );
+    expect(window.location.hash).toBe(`#${second}`);
+  });
+
+  it("jumps to a section and closes the mobile list", async () => {
+    const user = userEvent.setup();
+    const scrollIntoView = mockScrollIntoView();
+    const { container } = renderLesson();
+    const details = container.querySelector("details")!;
+    details.open = true;
+    // The list sits above the sections, so it must be closed before scrolling
+    const openWhenScrolled: boolean[] = [];
+    scrollIntoView.mockImplementation(() => openWhenScrolled.push(details.open));
+
+    await user.click(within(details).getByRole("link", { name: "onAppear / onDisappear" }));
+
+    const target = container.querySelector("#onappear-ondisappear");
+    expect(scrollIntoView.mock.contexts).toEqual([target]);
+    expect(openWhenScrolled).toEqual([false]);
+    expect(target).toHaveFocus();
+    expect(window.location.hash).toBe("#onappear-ondisappear");
+    expect(details.open).toBe(false);
+  });
+});
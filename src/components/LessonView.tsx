@@ -1,98 +1,327 @@
+import { useEffect, useRef, useState } from "react";
+import { Link, useLocation } from "react-router-dom";
 import type { Lesson } from "../types";
 import { isComparisonSection } from "../types";
 import { CodeComparison } from "./CodeComparison";
 import { CodeBlock } from "./CodeBlock";
-import { Lightbulb, ArrowLeft } from "lucide-react";
+import { Quiz } from "./Quiz";
+import { CopyLinkButton } from "./CopyLinkButton";
+import { SectionNote } from "./SectionNote";
+import { Markdown, InlineMarkdown } from "./Markdown";
+import { LessonPager } from "./LessonPager";
+import { LessonToc } from "./LessonToc";
+import { useProgress } from "../context/ProgressContext";
+import { useBookmarks } from "../context/BookmarksContext";
+import { usePreferences, type FontSize } from "../context/PreferencesContext";
+import { getSectionAnchors, lessonPath } from "../lib/anchors";
+import { sectionKey } from "../lib/saved-sections";
+import { useScrollspy } from "../lib/use-scrollspy";
+import { getPrerequisites } from "../data/lessons";
+import {
+  Lightbulb,
+  ArrowLeft,
+  CircleCheck,
+  Bookmark,
+  BookmarkCheck,
+  NotebookPen,
+  ListTree,
+} from "lucide-react";
 
 interface LessonViewProps {
   lesson: Lesson;
   onBack: () => void;
 }
 
-const explanationStyles = `text-[0.9375rem] text-text-secondary mb-6 leading-relaxed max-w-3xl mx-auto [&>strong]:text-text-primary [&>strong]:font-medium [&>code]:bg-bg-tertiary [&>code]:px-1.5 [&>code]:py-0.5 [&>code]:rounded [&>code]:text-sm [&>code]:font-mono [&>code]:text-accent-cool`;
+const explanationStyles = `text-text-secondary mb-6 leading-relaxed max-w-3xl mx-auto space-y-3 [&_strong]:text-text-primary [&_strong]:font-medium [&_em]:italic [&_code]:bg-bg-tertiary [&_code]:px-1.5 [&_code]:py-0.5 [&_code]:rounded [&_code]:text-[0.9em] [&_code]:font-mono [&_code]:text-accent-cool [&_a]:text-accent-warm [&_a]:underline [&_a]:underline-offset-2 [&_a:hover]:brightness-110`;
+
+// Prose and tip sizes for the reader's content font size; inline code scales with them
+const CONTENT_FONT_SIZES: Record<FontSize, { explanation: string; tip: string }> = {
+  small: { explanation: "text-sm", tip: "text-[0.8125rem]" },
+  medium: { explanation: "text-[0.9375rem]", tip: "text-sm" },
+  large: { explanation: "text-[1.0625rem]", tip: "text-base" },
+};
 
 export function LessonView({ lesson, onBack }: LessonViewProps) {
+  const articleRef = useRef<HTMLElement>(null);
+  const { hash } = useLocation();
+  const anchors = getSectionAnchors(lesson);
+  const activeAnchor = useScrollspy(anchors);
+  const previousAnchor = useRef<string | null>(null);
+  const mobileTocRef = useRef<HTMLDetailsElement>(null);
+  const tocEntries = lesson.sections.map((section, index) => ({
+    anchor: anchors[index],
+    title: section.title,
+  }));
+  const { markSectionViewed, isLessonCompleted, setLessonCompleted } = useProgress();
+  const isCompleted = isLessonCompleted(lesson.id);
+  const prerequisites = getPrerequisites(lesson);
+  const { isBookmarked, toggleBookmark, getNote } = useBookmarks();
+  // `sectionKey` of the section whose note is open for editing
+  const [editingNote, setEditingNote] = useState<string | null>(null);
+  const fontSizes = CONTENT_FONT_SIZES[usePreferences().contentFontSize];
+
+  // Deep links like /lessons/state#appstorage land on that section
+  useEffect(() => {
+    if (!hash) return;
+    const target = document.getElementById(decodeURIComponent(hash.slice(1)));
+    target?.scrollIntoView?.({ block: "start" });
+  }, [hash, lesson.id]);
+
+  // Keep the URL hash on the section in view, without a history entry per
+  // section. The first section spied after a page opens is where the reader
+  // already is, so the URL only changes once they scroll.
+  useEffect(() => {
+    const previous = previousAnchor.current;
+    previousAnchor.current = activeAnchor;
+    if (!activeAnchor || !previous || window.location.hash === `#${activeAnchor}`) return;
+    window.history.replaceState(window.history.state, "", `#${activeAnchor}`);
+  }, [activeAnchor]);
+
+  const jumpToSection = (anchor: string) => {
+    const target = document.getElementById(anchor);
+    if (!target) return;
+    // Collapse the mobile list first: it sits above the sections, so closing it
+    // after scrolling would shift the target up by the list's height
+    if (mobileTocRef.current) mobileTocRef.current.open = false;
+    target.scrollIntoView?.({ block: "start" });
+    // Move focus too, so keyboard and screen reader users continue from there
+    target.focus({ preventScroll: true });
+    window.history.replaceState(window.history.state, "", `#${anchor}`);
+  };
+
+  // A section counts as viewed once half of it (or half the viewport, for
+  // sections taller than the screen) has been on screen
+  useEffect(() => {
+    if (typeof IntersectionObserver === "undefined" || !articleRef.current) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        for (const entry of entries) {
+          const visibleEnough =
+            entry.intersectionRatio >= 0.5 ||
+            entry.intersectionRect.height >= window.innerHeight * 0.5;
+          if (entry.isIntersecting && visibleEnough) {
+            const index = Number((entry.target as HTMLElement).dataset.sectionIndex);
+            markSectionViewed(lesson.id, index, lesson.sections.length);
+          }
+        }
+      },
+      { threshold: [0, 0.25, 0.5, 0.75, 1] },
+    );
+
+    articleRef.current
+      .querySelectorAll("[data-section-index]")
+      .forEach((section) => observer.observe(section));
+
+    return () => observer.disconnect();
+  }, [lesson.id, lesson.sections.length]);
+
   return (
-    <article className="p-4 sm:p-6 lg:p-8">
-      <header className="mb-8 lg:mb-12 max-w-3xl mx-auto">
-        <button
-          className="inline-flex items-center gap-2 px-4 py-2 bg-transparent border border-border rounded text-text-secondary text-sm cursor-pointer transition-all duration-150 mb-6 hover:bg-bg-tertiary hover:text-text-primary"
-          onClick={onBack}
-          aria-label="Back to lessons"
-        >
-          <ArrowLeft size={16} aria-hidden="true" />
-          Back
-        </button>
-        <div>
-          <span className="inline-block px-3 py-1 bg-bg-tertiary text-accent-warm text-xs font-medium uppercase tracking-wide rounded mb-3">
-            {lesson.category}
-          </span>
-        </div>
-        <h1 className="text-xl sm:text-2xl font-normal mb-3 text-text-primary">{lesson.title}</h1>
-        <p className="text-base text-text-secondary">{lesson.description}</p>
-      </header>
-
-      <div>
-        {lesson.sections.map((section, index) => (
-          <section
-            key={index}
-            className="mb-8 sm:mb-12 lg:mb-16 pb-6 sm:pb-8 lg:pb-12 border-b border-border last:border-b-0"
+    <article ref={articleRef} className="p-4 sm:p-6 lg:p-8 xl:flex xl:gap-8">
+      <div className="flex-1 min-w-0">
+        <header className="mb-8 lg:mb-12 max-w-3xl mx-auto">
+          <button
+            className="inline-flex items-center gap-2 px-4 py-2 bg-transparent border border-border rounded text-text-secondary text-sm cursor-pointer transition-all duration-150 mb-6 hover:bg-bg-tertiary hover:text-text-primary"
+            onClick={onBack}
+            aria-label="Back to lessons"
           >
-            <h2 className="text-lg font-medium mb-4 text-text-primary max-w-3xl mx-auto">
-              {section.title}
-            </h2>
-            <div
-              className={explanationStyles}
-              dangerouslySetInnerHTML={{
-                __html: section.explanation
-                  .replace(/\*\*(.*?)\*\*/g, "<strong>$1</strong>")
-                  .replace(/`([^`]+)`/g, "<code>$1</code>"),
-              }}
-            />
-
-            {isComparisonSection(section) ? (
-              <CodeComparison
-                react={section.react}
-                swiftui={section.swiftui}
-                leftTitle={section.leftTitle}
-                rightTitle={section.rightTitle}
-              />
-            ) : (
-              <div className="mb-6 max-w-3xl mx-auto">
-                <CodeBlock
-                  code={section.code.code}
-                  language={section.language === "swift" ? "swift" : "tsx"}
-                  title={section.language === "swift" ? "Swift" : "TypeScript"}
+            <ArrowLeft size={16} aria-hidden="true" />
+            Back
+          </button>
+          <div>
+            <span className="inline-block px-3 py-1 bg-bg-tertiary text-accent-warm text-xs font-medium uppercase tracking-wide rounded mb-3">
+              {lesson.category}
+            </span>
+          </div>
+          <h1 className="text-xl sm:text-2xl font-normal mb-3 text-text-primary">{lesson.title}</h1>
+          <p className="text-base text-text-secondary">{lesson.description}</p>
+          {prerequisites.length > 0 && (
+            <div className="mt-4 flex flex-wrap items-center gap-2 text-sm text-text-muted">
+              <span>Before this lesson:</span>
+              <ul className="contents list-none">
+                {prerequisites.map((prerequisite) => {
+                  const done = isLessonCompleted(prerequisite.id);
+                  return (
+                    <li key={prerequisite.id}>
+                      <Link
+                        to={lessonPath(prerequisite.id)}
+                        className="inline-flex items-center gap-1 px-2 py-0.5 border border-border rounded text-text-secondary no-underline transition-colors hover:text-text-primary hover:border-accent-dim"
+                        aria-label={done ? `${prerequisite.title} (completed)` : prerequisite.title}
+                      >
+                        {done && (
+                          <CircleCheck size={12} className="text-accent-cool" aria-hidden="true" />
+                        )}
+                        {prerequisite.title}
+                      </Link>
+                    </li>
+                  );
+                })}
+              </ul>
+            </div>
+          )}
+          {lesson.sections.length > 1 && (
+            <details
+              ref={mobileTocRef}
+              className="mt-6 xl:hidden border border-border rounded-lg bg-bg-secondary print:hidden"
+            >
+              <summary className="flex items-center gap-2 px-4 py-3 text-sm text-text-secondary cursor-pointer select-none hover:text-text-primary">
+                <ListTree size={16} aria-hidden="true" />
+                On this page
+              </summary>
+              <nav aria-label="Table of contents" className="px-4 pb-4">
+                <LessonToc
+                  entries={tocEntries}
+                  activeAnchor={activeAnchor}
+                  onNavigate={jumpToSection}
                 />
-              </div>
-            )}
-
-            {section.tips && section.tips.length > 0 && (
-              <div
-                className="bg-bg-secondary border border-border border-l-2 border-l-accent-warm rounded-lg p-5 mt-6 max-w-3xl mx-auto"
-                role="complementary"
-                aria-label="Tips"
+              </nav>
+            </details>
+          )}
+        </header>
+
+        <div>
+          {lesson.sections.map((section, index) => {
+            const anchor = anchors[index];
+            const bookmarked = isBookmarked(lesson.id, anchor);
+            const hasNote = getNote(lesson.id, anchor) !== "";
+            const key = sectionKey(lesson.id, anchor);
+            const isEditingNote = editingNote === key;
+            return (
+              <section
+                key={index}
+                id={anchor}
+                data-section-index={index}
+                tabIndex={-1}
+                className="focus:outline-none scroll-mt-16 lg:scroll-mt-8 mb-8 sm:mb-12 lg:mb-16 pb-6 sm:pb-8 lg:pb-12 border-b border-border last:border-b-0"
               >
-                <div className="flex items-center gap-2 font-medium text-accent-warm mb-3 text-sm">
-                  <Lightbulb size={16} aria-hidden="true" />
-                  <span>Tips for React Devs</span>
+                <div className="group flex items-center gap-2 mb-4 max-w-3xl mx-auto">
+                  <h2 className="text-lg font-medium text-text-primary">{section.title}</h2>
+                  <CopyLinkButton
+                    path={lessonPath(lesson.id, anchor)}
+                    label={`Copy link to "${section.title}"`}
+                    className="opacity-0 group-hover:opacity-100"
+                  />
+                  <div className="ml-auto flex items-center gap-1">
+                    <button
+                      onClick={() => setEditingNote(isEditingNote ? null : key)}
+                      aria-label={`${hasNote ? "Edit note on" : "Add note to"} "${section.title}"`}
+                      title={hasNote ? "Edit note" : "Add note"}
+                      aria-expanded={isEditingNote}
+                      className={`p-1 rounded bg-transparent border-0 cursor-pointer transition-colors hover:text-text-primary ${
+                        hasNote || isEditingNote ? "text-accent-cool" : "text-text-muted"
+                      }`}
+                    >
+                      <NotebookPen size={16} aria-hidden="true" />
+                    </button>
+                    <button
+                      onClick={() => toggleBookmark(lesson.id, anchor)}
+                      aria-label={`Bookmark "${section.title}"`}
+                      title={bookmarked ? "Remove bookmark" : "Bookmark"}
+                      aria-pressed={bookmarked}
+                      className={`p-1 rounded bg-transparent border-0 cursor-pointer transition-colors hover:text-text-primary ${
+                        bookmarked ? "text-accent-warm" : "text-text-muted"
+                      }`}
+                    >
+                      {bookmarked ? (
+                        <BookmarkCheck size={16} aria-hidden="true" />
+                      ) : (
+                        <Bookmark size={16} aria-hidden="true" />
+                      )}
+                    </button>
+                  </div>
                 </div>
-                <ul className="list-none space-y-2">
-                  {section.tips.map((tip, tipIndex) => (
-                    <li
-                      key={tipIndex}
-                      className="relative pl-5 text-sm text-text-secondary before:content-['→'] before:absolute before:left-0 before:text-accent-dim [&>code]:bg-bg-tertiary [&>code]:px-1.5 [&>code]:py-0.5 [&>code]:rounded [&>code]:text-xs [&>code]:font-mono [&>code]:text-accent-cool"
-                      dangerouslySetInnerHTML={{
-                        __html: tip.replace(/`([^`]+)`/g, "<code>$1</code>"),
-                      }}
+                <SectionNote
+                  lessonId={lesson.id}
+                  anchor={anchor}
+                  title={section.title}
+                  isEditing={isEditingNote}
+                  onEditingChange={(editing) => setEditingNote(editing ? key : null)}
+                />
+                <Markdown
+                  source={section.explanation}
+                  className={`${fontSizes.explanation} ${explanationStyles}`}
+                />
+
+                {isComparisonSection(section) ? (
+                  <CodeComparison
+                    react={section.react}
+                    swiftui={section.swiftui}
+                    links={section.links}
+                    leftTitle={section.leftTitle}
+                    rightTitle={section.rightTitle}
+                  />
+                ) : (
+                  <div className="mb-6 max-w-3xl mx-auto">
+                    <CodeBlock
+                      code={section.code.code}
+                      highlights={section.code.highlights}
+                      language={section.language === "swift" ? "swift" : "tsx"}
+                      title={section.language === "swift" ? "Swift" : "TypeScript"}
                     />
-                  ))}
-                </ul>
-              </div>
-            )}
-          </section>
-        ))}
+                  </div>
+                )}
+
+                {section.tips && section.tips.length > 0 && (
+                  <div
+                    className="bg-bg-secondary border border-border border-l-2 border-l-accent-warm rounded-lg p-5 mt-6 max-w-3xl mx-auto"
+                    role="complementary"
+                    aria-label="Tips"
+                  >
+                    <div className="flex items-center gap-2 font-medium text-accent-warm mb-3 text-sm">
+                      <Lightbulb size={16} aria-hidden="true" />
+                      <span>Tips for React Devs</span>
+                    </div>
+                    <ul className="list-none space-y-2">
+                      {section.tips.map((tip, tipIndex) => (
+                        <li
+                          key={tipIndex}
+                          className={`relative pl-5 ${fontSizes.tip} text-text-secondary before:content-['→'] before:absolute before:left-0 before:text-accent-dim [&_strong]:text-text-primary [&_strong]:font-medium [&_code]:bg-bg-tertiary [&_code]:px-1.5 [&_code]:py-0.5 [&_code]:rounded [&_code]:text-[0.85em] [&_code]:font-mono [&_code]:text-accent-cool [&_a]:text-accent-warm [&_a]:underline [&_a]:underline-offset-2`}
+                        >
+                          <InlineMarkdown source={tip} />
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+              </section>
+            );
+          })}
+        </div>
+
+        <div className="flex justify-center mb-8 sm:mb-12 max-w-3xl mx-auto">
+          <button
+            className={`inline-flex items-center gap-2 px-4 py-2 bg-transparent border rounded text-sm cursor-pointer transition-all duration-150 hover:bg-bg-tertiary ${
+              isCompleted
+                ? "border-accent-cool text-accent-cool"
+                : "border-border text-text-secondary hover:text-text-primary"
+            }`}
+            onClick={() => setLessonCompleted(lesson.id, !isCompleted)}
+            aria-pressed={isCompleted}
+          >
+            <CircleCheck size={16} aria-hidden="true" />
+            {isCompleted ? "Completed" : "Mark as complete"}
+          </button>
+        </div>
+
+        {lesson.quiz && lesson.quiz.length > 0 && <Quiz key={lesson.id} questions={lesson.quiz} />}
+
+        <LessonPager lesson={lesson} />
       </div>
+
+      {lesson.sections.length > 1 && (
+        <aside className="hidden xl:block w-52 shrink-0 print:hidden">
+          <nav aria-label="Table of contents" className="sticky top-8">
+            <p className="mb-3 text-xs font-medium uppercase tracking-wide text-text-muted">
+              On this page
+            </p>
+            <LessonToc
+              entries={tocEntries}
+              activeAnchor={activeAnchor}
+              onNavigate={jumpToSection}
+            />
+          </nav>
+        </aside>
+      )}
     </article>
   );
 }
@@ -0,0 +1,106 @@
+import { Component } from "react";
+import type { ReactNode } from "react";
+import { act, cleanup, fireEvent, render, screen } from "@testing-library/react";
+import { afterEach, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import App from "../App";
+import { lessons } from "../data/lessons";
+import { LoadError } from "../lib/load-error";
+import { renderWithProviders } from "../test-utils";
+import { LoadErrorBoundary } from "./LoadErrorBoundary";
+
+// Importing the lesson page fails, as a chunk gone after a deploy would,
+// until a test lets it through
+const lessonViewImport = vi.hoisted(() => ({ fail: true, actual: {} }));
+vi.mock("./LessonView", () => {
+  if (lessonViewImport.fail) throw new Error("Failed to fetch dynamically imported module");
+  return lessonViewImport.actual;
+});
+
+beforeAll(async () => {
+  lessonViewImport.actual = await vi.importActual("./LessonView");
+});
+
+class OuterBoundary extends Component<{ children: ReactNode }, { error: unknown }> {
+  state = { error: null as unknown };
+
+  static getDerivedStateFromError(error: unknown) {
+    return { error };
+  }
+
+  render() {
+    return this.state.error ? <p>Outer: {String(this.state.error)}</p> : this.props.children;
+  }
+}
+
+function Throws({ error }: { error: Error }): ReactNode {
+  throw error;
+}
+
+describe("LoadErrorBoundary", () => {
+  beforeEach(() => {
+    // React reports the caught errors; keep them out of the test output
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    Object.defineProperty(window, "matchMedia", {
+      writable: true,
+      value: vi.fn().mockImplementation((query: string) => ({
+        matches: false,
+        media: query,
+        onchange: null,
+        addListener: vi.fn(),
+        removeListener: vi.fn(),
+        addEventListener: vi.fn(),
+        removeEventListener: vi.fn(),
+        dispatchEvent: vi.fn(),
+      })),
+    });
+  });
+
+  afterEach(() => {
+    cleanup();
+    vi.mocked(console.error).mockRestore();
+  });
+
+  it("retries a lesson page whose code failed to load", async () => {
+    const lesson = lessons[0];
+
+    await act(async () => {
+      renderWithProviders(<App />, { route: `/lessons/${lesson.id}` });
+    });
+
+    expect(await screen.findByRole("alert")).toHaveTextContent("Couldn't load this lesson");
+
+    lessonViewImport.fail = false;
+    // The retry suspends on a fresh import; an awaited act lets React pick it up
+    await act(async () => {
+      fireEvent.click(screen.getByRole("button", { name: "Retry" }));
+    });
+
+    expect(await screen.findByRole("heading", { name: lesson.title })).toBeInTheDocument();
+    expect(screen.queryByRole("alert")).not.toBeInTheDocument();
+  });
+
+  it("passes errors other than load failures on to the next boundary", () => {
+    render(
+      <OuterBoundary>
+        <LoadErrorBoundary subject="this lesson">
+          <Throws error={new TypeError("lesson.sections is undefined")} />
+        </LoadErrorBoundary>
+      </OuterBoundary>,
+    );
+
+    expect(screen.queryByRole("alert")).not.toBeInTheDocument();
+    expect(screen.getByText("Outer: TypeError: lesson.sections is undefined")).toBeInTheDocument();
+  });
+
+  it("catches a load failure", () => {
+    render(
+      <OuterBoundary>
+        <LoadErrorBoundary subject="State Management">
+          <Throws error={new LoadError('Couldn\'t load lesson "state"')} />
+        </LoadErrorBoundary>
+      </OuterBoundary>,
+    );
+
+    expect(screen.getByRole("alert")).toHaveTextContent("Couldn't load State Management.");
+  });
+});
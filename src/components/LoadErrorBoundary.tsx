@@ -0,0 +1,56 @@
+import { Component } from "react";
+import type { ReactNode } from "react";
+import { RotateCcw } from "lucide-react";
+import { LoadError } from "../lib/load-error";
+
+interface LoadErrorBoundaryProps {
+  /** What was loading, for the message: "this lesson", "State Management" */
+  subject: string;
+  /** Drops anything that remembers the failure, before the children render again */
+  onRetry?: () => void;
+  children: ReactNode;
+}
+
+interface LoadErrorBoundaryState {
+  error: unknown;
+}
+
+/**
+ * Catches a `LoadError` (a dropped connection, or a chunk gone after a deploy)
+ * and offers to try again. `loadLesson` doesn't keep a failure, so rendering
+ * the children again fetches afresh; anything that does (React.lazy) is reset
+ * through `onRetry`. Other errors are bugs, not connection problems, and go
+ * on to the next boundary up.
+ */
+export class LoadErrorBoundary extends Component<LoadErrorBoundaryProps, LoadErrorBoundaryState> {
+  state: LoadErrorBoundaryState = { error: null };
+
+  static getDerivedStateFromError(error: unknown): LoadErrorBoundaryState {
+    return { error };
+  }
+
+  render() {
+    const { error } = this.state;
+    if (error === null) return this.props.children;
+    if (!(error instanceof LoadError)) throw error;
+
+    return (
+      <div
+        role="alert"
+        className="flex flex-col items-center justify-center gap-3 py-12 text-center text-sm text-text-secondary"
+      >
+        <p>Couldn't load {this.props.subject}. Check your connection and try again.</p>
+        <button
+          onClick={() => {
+            this.props.onRetry?.();
+            this.setState({ error: null });
+          }}
+          className="inline-flex items-center gap-2 px-4 py-2 bg-transparent border border-border rounded text-sm text-text-secondary cursor-pointer transition-colors hover:bg-bg-tertiary hover:text-text-primary"
+        >
+          <RotateCcw size={16} aria-hidden="true" />
+          Retry
+        </button>
+      </div>
+    );
+  }
+}
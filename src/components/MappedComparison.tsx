@@ -0,0 +1,152 @@
+import { useLayoutEffect, useRef, useState } from "react";
+import { ArrowDown } from "lucide-react";
+import { CodeBlock } from "./CodeBlock";
+import { formatLineRange, rangeBounds, rangeContains, sliceLines } from "../lib/line-ranges";
+import type { CodeExample, LineLink, LineRange } from "../types";
+
+interface MappedComparisonProps {
+  react: CodeExample;
+  swiftui: CodeExample;
+  links: LineLink[];
+  leftTitle: string;
+  rightTitle: string;
+  activeLink: LineLink | null;
+  onActiveLinkChange: (link: LineLink | null) => void;
+}
+
+const GUTTER_WIDTH = 56;
+
+/** Vertical centre of a line range in a rendered code block, relative to `top` */
+function rangeCentre(pre: Element | undefined, range: LineRange, top: number) {
+  const [start, end] = rangeBounds(range);
+  const first = pre?.children[start - 1]?.getBoundingClientRect();
+  const last = pre?.children[end - 1]?.getBoundingClientRect();
+  if (!first || !last) return 0;
+  return (first.top + last.bottom) / 2 - top;
+}
+
+/**
+ * The "mapped" comparison: on wide screens both blocks side by side with a
+ * connector from each React range to its SwiftUI counterpart; on narrow ones
+ * the linked ranges interleaved as React → SwiftUI pairs.
+ */
+export function MappedComparison({
+  react,
+  swiftui,
+  links,
+  leftTitle,
+  rightTitle,
+  activeLink,
+  onActiveLinkChange,
+}: MappedComparisonProps) {
+  const rowRef = useRef<HTMLDivElement>(null);
+  const [connectors, setConnectors] = useState<{ from: number; to: number }[]>([]);
+
+  // Connectors follow the rendered lines, so re-measure when the layout changes
+  useLayoutEffect(() => {
+    const row = rowRef.current;
+    if (!row) return;
+
+    const measure = () => {
+      const [reactPre, swiftPre] = Array.from(row.querySelectorAll("pre"));
+      const top = row.getBoundingClientRect().top;
+      setConnectors(
+        links.map((link) => ({
+          from: rangeCentre(reactPre, link.react, top),
+          to: rangeCentre(swiftPre, link.swiftui, top),
+        })),
+      );
+    };
+
+    measure();
+    if (typeof ResizeObserver === "undefined") return;
+    const observer = new ResizeObserver(measure);
+    observer.observe(row);
+    return () => observer.disconnect();
+  }, [links]);
+
+  const hoverSide = (side: keyof LineLink) => (line: number | null) => {
+    onActiveLinkChange(
+      line === null ? null : (links.find((link) => rangeContains(link[side], line)) ?? null),
+    );
+  };
+
+  return (
+    <>
+      <div ref={rowRef} className="hidden lg:flex items-stretch">
+        <div className="flex-1 min-w-0">
+          <CodeBlock
+            code={react.code}
+            language="tsx"
+            title={leftTitle}
+            highlights={react.highlights}
+            linkedLines={activeLink ? [activeLink.react] : undefined}
+            onLineHover={hoverSide("react")}
+          />
+        </div>
+
+        <svg
+          width={GUTTER_WIDTH}
+          className="shrink-0 self-stretch overflow-visible"
+          aria-hidden="true"
+          data-testid="connectors"
+        >
+          {connectors.map(({ from, to }, index) => {
+            const link = links[index];
+            const isActive = activeLink === link;
+            const middle = GUTTER_WIDTH / 2;
+            const path = `M0 ${from} C${middle} ${from} ${middle} ${to} ${GUTTER_WIDTH} ${to}`;
+            return (
+              <g
+                key={index}
+                className={isActive ? "stroke-accent-cool" : "stroke-border"}
+                onMouseEnter={() => onActiveLinkChange(link)}
+                onMouseLeave={() => onActiveLinkChange(null)}
+                data-active={isActive || undefined}
+              >
+                {/* Wide transparent stroke so the thin line is easy to hover */}
+                <path d={path} fill="none" stroke="transparent" strokeWidth={10} />
+                <path d={path} fill="none" strokeWidth={isActive ? 2 : 1.5} />
+                <circle cx={0} cy={from} r={3} className="fill-current" />
+                <circle cx={GUTTER_WIDTH} cy={to} r={3} className="fill-current" />
+              </g>
+            );
+          })}
+        </svg>
+
+        <div className="flex-1 min-w-0">
+          <CodeBlock
+            code={swiftui.code}
+            language="swift"
+            title={rightTitle}
+            highlights={swiftui.highlights}
+            linkedLines={activeLink ? [activeLink.swiftui] : undefined}
+            onLineHover={hoverSide("swiftui")}
+          />
+        </div>
+      </div>
+
+      <ol className="lg:hidden flex flex-col gap-6 list-none p-0 m-0" aria-label="Line mapping">
+        {links.map((link, index) => (
+          <li key={index} className="flex flex-col gap-2">
+            <CodeBlock
+              code={sliceLines(react.code, link.react)}
+              language="tsx"
+              title={`${leftTitle} · ${formatLineRange(link.react)}`}
+              highlights={react.highlights}
+              startLine={rangeBounds(link.react)[0]}
+            />
+            <ArrowDown size={16} className="self-center text-text-muted" aria-hidden="true" />
+            <CodeBlock
+              code={sliceLines(swiftui.code, link.swiftui)}
+              language="swift"
+              title={`${rightTitle} · ${formatLineRange(link.swiftui)}`}
+              highlights={swiftui.highlights}
+              startLine={rangeBounds(link.swiftui)[0]}
+            />
+          </li>
+        ))}
+      </ol>
+    </>
+  );
+}
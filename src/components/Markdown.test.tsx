@@ -0,0 +1,109 @@
+import { render, screen, cleanup } from "@testing-library/react";
+import { MemoryRouter } from "react-router-dom";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { Markdown, InlineMarkdown } from "./Markdown";
+import { LessonView } from "./LessonView";
+import type { Lesson } from "../types";
+import { renderWithProviders } from "../test-utils";
+
+afterEach(() => {
+  cleanup();
+});
+
+describe("Markdown", () => {
+  it("renders paragraphs, lists and inline formatting as elements", () => {
+    const { container } = render(
+      <MemoryRouter>
+        <Markdown source={"Use **State** and *Binding*.\n\n- `@State`\n- `@Binding`"} />
+      </MemoryRouter>,
+    );
+
+    expect(container.querySelector("p strong")).toHaveTextContent("State");
+    expect(container.querySelector("p em")).toHaveTextContent("Binding");
+    expect(container.querySelectorAll("ul > li > code")).toHaveLength(2);
+  });
+
+  it("renders cross-lesson links as router links", () => {
+    render(
+      <MemoryRouter>
+        <Markdown source="See [State Management](lesson:state#appstorage)." />
+      </MemoryRouter>,
+    );
+
+    expect(screen.getByRole("link", { name: "State Management" })).toHaveAttribute(
+      "href",
+      "/lessons/state#appstorage",
+    );
+  });
+
+  it("opens external links in a new tab without an opener", () => {
+    render(<InlineMarkdown source="[Apple docs](https://developer.apple.com)" />);
+
+    const link = screen.getByRole("link", { name: "Apple docs" });
+    expect(link).toHaveAttribute("target", "_blank");
+    expect(link).toHaveAttribute("rel", "noopener noreferrer");
+  });
+
+  it("does not render unsafe link targets", () => {
+    render(<InlineMarkdown source="[click me](javascript:void)" />);
+
+    expect(screen.queryByRole("link")).not.toBeInTheDocument();
+    expect(screen.getByText("click me")).toBeInTheDocument();
+  });
+
+  it("escapes HTML instead of injecting it", () => {
+    const { container } = render(
+      <InlineMarkdown source={'<img src=x onerror="alert(1)"> **<script>alert(1)</script>**'} />,
+    );
+
+    expect(container.querySelector("img")).toBeNull();
+    expect(container.querySelector("script")).toBeNull();
+    expect(container).toHaveTextContent('<img src=x onerror="alert(1)"> <script>alert(1)</script>');
+  });
+});
+
+describe("LessonView content escaping", () => {
+  beforeEach(() => {
+    Object.defineProperty(window, "matchMedia", {
+      writable: true,
+      value: vi.fn().mockImplementation((query: string) => ({
+        matches: false,
+        media: query,
+        onchange: null,
+        addListener: vi.fn(),
+        removeListener: vi.fn(),
+        addEventListener: vi.fn(),
+        removeEventListener: vi.fn(),
+        dispatchEvent: vi.fn(),
+      })),
+    });
+  });
+
+  const lesson: Lesson = {
+    id: "escaping",
+    title: "Escaping",
+    description: "HTML in lesson content",
+    module: "swiftui",
+    category: "Test",
+    order: 1,
+    sections: [
+      {
+        format: "single",
+        language: "swift",
+        title: "Section",
+        explanation: 'NavigationLink is like a <Link> <img src=x onerror="alert(1)">',
+        code: { code: 'Text("Hi")' },
+        tips: ["Tips can't inject <b>markup</b> either"],
+      },
+    ],
+  };
+
+  it("renders HTML in explanations and tips as text", () => {
+    const { container } = renderWithProviders(<LessonView lesson={lesson} onBack={vi.fn()} />);
+
+    expect(container.querySelector("section img")).toBeNull();
+    expect(container.querySelector("section b")).toBeNull();
+    expect(screen.getByText(/NavigationLink is like a <Link>/)).toBeInTheDocument();
+    expect(screen.getByText("Tips can't inject <b>markup</b> either")).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,67 @@
+import { Link } from "react-router-dom";
+import { parseInline, parseMarkdown, resolveLink } from "../lib/markdown";
+import type { InlineNode } from "../lib/markdown";
+
+function renderInline(nodes: InlineNode[]) {
+  return nodes.map((node, i) => {
+    switch (node.type) {
+      case "text":
+        return node.text;
+      case "code":
+        return <code key={i}>{node.text}</code>;
+      case "strong":
+        return <strong key={i}>{renderInline(node.children)}</strong>;
+      case "em":
+        return <em key={i}>{renderInline(node.children)}</em>;
+      case "link": {
+        const link = resolveLink(node.href);
+        const children = renderInline(node.children);
+        if (!link) return <span key={i}>{children}</span>;
+        return link.kind === "internal" ? (
+          <Link key={i} to={link.to}>
+            {children}
+          </Link>
+        ) : (
+          <a key={i} href={link.href} target="_blank" rel="noopener noreferrer">
+            {children}
+          </a>
+        );
+      }
+    }
+  });
+}
+
+interface MarkdownProps {
+  source: string;
+  className?: string;
+}
+
+/** Paragraphs and lists. Style descendants (`[&_code]:…`) through `className`. */
+export function Markdown({ source, className }: MarkdownProps) {
+  return (
+    <div className={className}>
+      {parseMarkdown(source).map((block, i) => {
+        if (block.type === "paragraph") {
+          return <p key={i}>{renderInline(block.children)}</p>;
+        }
+        const items = block.items.map((item, itemIndex) => (
+          <li key={itemIndex}>{renderInline(item)}</li>
+        ));
+        return block.ordered ? (
+          <ol key={i} className="list-decimal pl-5 space-y-1">
+            {items}
+          </ol>
+        ) : (
+          <ul key={i} className="list-disc pl-5 space-y-1">
+            {items}
+          </ul>
+        );
+      })}
+    </div>
+  );
+}
+
+/** Inline-only markdown for single-line content such as tips and quiz options */
+export function InlineMarkdown({ source }: { source: string }) {
+  return <>{renderInline(parseInline(source))}</>;
+}
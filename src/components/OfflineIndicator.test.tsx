@@ -0,0 +1,49 @@
+import { act, cleanup, render, screen } from "@testing-library/react";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { OfflineIndicator } from "./OfflineIndicator";
+
+afterEach(() => {
+  cleanup();
+  vi.restoreAllMocks();
+  Reflect.deleteProperty(navigator, "serviceWorker");
+});
+
+function installServiceWorker() {
+  Object.defineProperty(navigator, "serviceWorker", {
+    configurable: true,
+    value: { ready: Promise.resolve({}) },
+  });
+}
+
+describe("OfflineIndicator", () => {
+  it("says nothing until the lessons are cached", () => {
+    render(<OfflineIndicator />);
+
+    expect(screen.getByRole("status")).toBeEmptyDOMElement();
+  });
+
+  it("shows when every lesson is available offline", async () => {
+    installServiceWorker();
+
+    await act(async () => {
+      render(<OfflineIndicator />);
+    });
+
+    expect(screen.getByRole("status")).toHaveTextContent("Available offline");
+  });
+
+  it("follows the connection", async () => {
+    installServiceWorker();
+    const onLine = vi.spyOn(navigator, "onLine", "get").mockReturnValue(true);
+    await act(async () => {
+      render(<OfflineIndicator />);
+    });
+
+    onLine.mockReturnValue(false);
+    act(() => {
+      window.dispatchEvent(new Event("offline"));
+    });
+
+    expect(screen.getByRole("status")).toHaveTextContent("Offline · all lessons saved");
+  });
+});
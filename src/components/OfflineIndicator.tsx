@@ -0,0 +1,33 @@
+import { CloudCheck, CloudOff } from "lucide-react";
+import { useOfflineStatus } from "../lib/offline-status";
+
+export function OfflineIndicator() {
+  const { online, availableOffline } = useOfflineStatus();
+
+  let content = null;
+  if (!online) {
+    content = (
+      <>
+        <CloudOff size={14} aria-hidden="true" />
+        {availableOffline ? "Offline · all lessons saved" : "Offline"}
+      </>
+    );
+  } else if (availableOffline) {
+    content = (
+      <>
+        <CloudCheck size={14} aria-hidden="true" />
+        Available offline
+      </>
+    );
+  }
+
+  // The status region stays mounted so screen readers announce changes
+  return (
+    <p
+      role="status"
+      className="flex items-center gap-1.5 text-xs text-text-muted empty:hidden mb-3"
+    >
+      {content}
+    </p>
+  );
+}
@@ -0,0 +1,206 @@
+import { act, screen, cleanup } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import type { ReactNode } from "react";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { Sidebar } from "./Sidebar";
+import { LessonView } from "./LessonView";
+import { Welcome } from "./Welcome";
+import { lessons, loadLesson } from "../data/lessons";
+import { renderWithProviders } from "../test-utils";
+
+afterEach(() => {
+  cleanup();
+  localStorage.clear();
+  vi.unstubAllGlobals();
+});
+
+const lesson = await loadLesson("types-and-inference");
+
+function renderWithProgress(ui: ReactNode) {
+  return renderWithProviders(ui);
+}
+
+describe("Lesson progress", () => {
+  beforeEach(() => {
+    Object.defineProperty(window, "matchMedia", {
+      writable: true,
+      value: vi.fn().mockImplementation((query: string) => ({
+        matches: false,
+        media: query,
+        onchange: null,
+        addListener: vi.fn(),
+        removeListener: vi.fn(),
+        addEventListener: vi.fn(),
+        removeEventListener: vi.fn(),
+        dispatchEvent: vi.fn(),
+      })),
+    });
+  });
+
+  it("marks a lesson complete and shows a checkmark in the sidebar", async () => {
+    const user = userEvent.setup();
+    renderWithProgress(
+      <>
+        <Sidebar isOpen={true} onClose={vi.fn()} />
+        <LessonView lesson={lesson} onBack={vi.fn()} />
+      </>,
+    );
+
+    expect(screen.queryByTestId("lesson-completed")).not.toBeInTheDocument();
+
+    await user.click(screen.getByRole("button", { name: /mark as complete/i }));
+
+    expect(screen.getByRole("button", { name: /completed/i })).toHaveAttribute(
+      "aria-pressed",
+      "true",
+    );
+    expect(
+      screen.getByRole("link", { name: /types & type inference.*\(completed\)/i }),
+    ).toBeInTheDocument();
+    expect(screen.getAllByTestId("lesson-completed")).toHaveLength(1);
+  });
+
+  it("shows per-category progress in the sidebar", async () => {
+    const user = userEvent.setup();
+    renderWithProgress(
+      <>
+        <Sidebar isOpen={true} onClose={vi.fn()} />
+        <LessonView lesson={lesson} onBack={vi.fn()} />
+      </>,
+    );
+
+    const categoryTotal = lessons.filter((l) => l.category === lesson.category).length;
+    const categoryHeading = screen.getByRole("heading", { name: new RegExp(lesson.category) });
+    expect(categoryHeading).toHaveTextContent(`0/${categoryTotal}`);
+
+    await user.click(screen.getByRole("button", { name: /mark as complete/i }));
+
+    expect(categoryHeading).toHaveTextContent(`1/${categoryTotal}`);
+  });
+
+  it("persists completed lessons to localStorage", async () => {
+    const user = userEvent.setup();
+    renderWithProgress(<LessonView lesson={lesson} onBack={vi.fn()} />);
+
+    await user.click(screen.getByRole("button", { name: /mark as complete/i }));
+
+    const stored = JSON.parse(localStorage.getItem("progress")!);
+    expect(stored.completedLessons).toEqual([lesson.id]);
+
+    await user.click(screen.getByRole("button", { name: /completed/i }));
+
+    expect(JSON.parse(localStorage.getItem("progress")!).completedLessons).toEqual([]);
+  });
+
+  it("restores stored progress on load", () => {
+    localStorage.setItem(
+      "progress",
+      JSON.stringify({ viewedSections: {}, completedLessons: [lesson.id] }),
+    );
+
+    renderWithProgress(<Sidebar isOpen={true} onClose={vi.fn()} />);
+
+    expect(screen.getAllByTestId("lesson-completed")).toHaveLength(1);
+  });
+
+  it("ignores corrupt stored progress", () => {
+    localStorage.setItem("progress", "{not json");
+
+    renderWithProgress(<Sidebar isOpen={true} onClose={vi.fn()} />);
+
+    expect(screen.queryByTestId("lesson-completed")).not.toBeInTheDocument();
+  });
+
+  it("ignores stored progress with the wrong shape", () => {
+    localStorage.setItem(
+      "progress",
+      JSON.stringify({
+        viewedSections: { [lesson.id]: 1, [lessons[1].id]: [0, "1", 2] },
+        completedLessons: 5,
+      }),
+    );
+
+    renderWithProgress(
+      <>
+        <Sidebar isOpen={true} onClose={vi.fn()} />
+        <LessonView lesson={lesson} onBack={vi.fn()} />
+      </>,
+    );
+
+    expect(screen.queryByTestId("lesson-completed")).not.toBeInTheDocument();
+    expect(screen.getByRole("button", { name: /mark as complete/i })).toBeInTheDocument();
+  });
+
+  it("shows overall progress on the welcome page and can reset it", async () => {
+    const user = userEvent.setup();
+    localStorage.setItem(
+      "progress",
+      JSON.stringify({ viewedSections: {}, completedLessons: [lessons[0].id, lessons[1].id] }),
+    );
+
+    renderWithProgress(<Welcome onGetStarted={vi.fn()} />);
+
+    expect(screen.getByRole("progressbar", { name: /lessons completed/i })).toHaveAttribute(
+      "aria-valuenow",
+      "2",
+    );
+    expect(
+      screen.getByText(`2 of ${lessons.length} lessons completed`, { exact: false }),
+    ).toBeInTheDocument();
+
+    await user.click(screen.getByRole("button", { name: /reset progress/i }));
+
+    expect(screen.queryByRole("progressbar")).not.toBeInTheDocument();
+    expect(screen.getByRole("button", { name: /get started/i })).toBeInTheDocument();
+  });
+
+  it("records viewed sections and completes the lesson once all are seen", () => {
+    let observerCallback: IntersectionObserverCallback = () => {};
+    vi.stubGlobal(
+      "IntersectionObserver",
+      class {
+        constructor(callback: IntersectionObserverCallback) {
+          observerCallback = callback;
+        }
+        observe() {}
+        disconnect() {}
+      },
+    );
+
+    const { container } = renderWithProgress(
+      <>
+        <Sidebar isOpen={true} onClose={vi.fn()} />
+        <LessonView lesson={lesson} onBack={vi.fn()} />
+      </>,
+    );
+    const sections = Array.from(container.querySelectorAll("[data-section-index]"));
+
+    const view = (targets: Element[]) =>
+      act(() => {
+        observerCallback(
+          targets.map(
+            (target) =>
+              ({
+                target,
+                isIntersecting: true,
+                intersectionRatio: 1,
+                intersectionRect: { height: 100 },
+              }) as unknown as IntersectionObserverEntry,
+          ),
+          {} as IntersectionObserver,
+        );
+      });
+
+    view(sections.slice(0, 1));
+
+    expect(screen.getByText(`1/${lesson.sections.length} sections`)).toBeInTheDocument();
+    expect(screen.queryByTestId("lesson-completed")).not.toBeInTheDocument();
+
+    view(sections);
+
+    expect(screen.getAllByTestId("lesson-completed")).toHaveLength(1);
+    expect(JSON.parse(localStorage.getItem("progress")!).viewedSections[lesson.id]).toHaveLength(
+      lesson.sections.length,
+    );
+  });
+});
@@ -0,0 +1,72 @@
+import { render, screen, cleanup } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { afterEach, describe, expect, it } from "vitest";
+import { Quiz } from "./Quiz";
+import type { QuizQuestion } from "../types";
+
+afterEach(() => {
+  cleanup();
+});
+
+const questions: QuizQuestion[] = [
+  {
+    question: "Which wrapper holds local view state?",
+    options: ["@Binding", "@State"],
+    correctIndex: 1,
+    explanation: "@State is owned by the view.",
+  },
+  {
+    question: "Which operator provides a fallback for nil?",
+    options: ["??", "||"],
+    correctIndex: 0,
+    explanation: "?? is the nil-coalescing operator.",
+  },
+];
+
+describe("Quiz", () => {
+  it("disables submit until every question is answered", async () => {
+    const user = userEvent.setup();
+    render(<Quiz questions={questions} />);
+
+    const submit = screen.getByRole("button", { name: /submit answers/i });
+    expect(submit).toBeDisabled();
+
+    await user.click(screen.getByLabelText("@State"));
+    expect(submit).toBeDisabled();
+
+    await user.click(screen.getByLabelText("??"));
+    expect(submit).toBeEnabled();
+  });
+
+  it("reveals explanations and the score on submit", async () => {
+    const user = userEvent.setup();
+    render(<Quiz questions={questions} />);
+
+    expect(screen.queryByText(/@State is owned by the view/)).not.toBeInTheDocument();
+
+    await user.click(screen.getByLabelText("@State"));
+    await user.click(screen.getByLabelText("||"));
+    await user.click(screen.getByRole("button", { name: /submit answers/i }));
+
+    expect(screen.getByText(/@State is owned by the view/)).toBeInTheDocument();
+    expect(screen.getByText(/is the nil-coalescing operator/)).toBeInTheDocument();
+    expect(screen.getByRole("status")).toHaveTextContent("You scored 1 / 2");
+    expect(screen.getByLabelText("@Binding")).toBeDisabled();
+  });
+
+  it("resets answers when retrying", async () => {
+    const user = userEvent.setup();
+    render(<Quiz questions={questions} />);
+
+    await user.click(screen.getByLabelText("@State"));
+    await user.click(screen.getByLabelText("??"));
+    await user.click(screen.getByRole("button", { name: /submit answers/i }));
+    expect(screen.getByRole("status")).toHaveTextContent("You scored 2 / 2");
+
+    await user.click(screen.getByRole("button", { name: /retry/i }));
+
+    expect(screen.queryByRole("status")).not.toBeInTheDocument();
+    expect(screen.getByLabelText("@State")).not.toBeChecked();
+    expect(screen.getByRole("button", { name: /submit answers/i })).toBeDisabled();
+  });
+});
@@ -0,0 +1,143 @@
+import { useState } from "react";
+import type { QuizQuestion } from "../types";
+import { CircleHelp, Check, X, RotateCcw } from "lucide-react";
+import { InlineMarkdown } from "./Markdown";
+
+interface QuizProps {
+  questions: QuizQuestion[];
+}
+
+const inlineStyles = `[&_strong]:text-text-primary [&_strong]:font-medium [&_code]:bg-bg-tertiary [&_code]:px-1.5 [&_code]:py-0.5 [&_code]:rounded [&_code]:text-xs [&_code]:font-mono [&_code]:text-accent-cool`;
+
+export function Quiz({ questions }: QuizProps) {
+  const [answers, setAnswers] = useState<(number | null)[]>(() => questions.map(() => null));
+  const [submitted, setSubmitted] = useState(false);
+
+  const allAnswered = answers.every((answer) => answer !== null);
+  const score = answers.filter((answer, i) => answer === questions[i].correctIndex).length;
+
+  const selectAnswer = (questionIndex: number, optionIndex: number) => {
+    if (submitted) return;
+    setAnswers((prev) => prev.map((a, i) => (i === questionIndex ? optionIndex : a)));
+  };
+
+  const retry = () => {
+    setAnswers(questions.map(() => null));
+    setSubmitted(false);
+  };
+
+  return (
+    <section
+      className="bg-bg-secondary border border-border rounded-lg p-5 sm:p-6 max-w-3xl mx-auto"
+      aria-labelledby="quiz-heading"
+    >
+      <h2
+        id="quiz-heading"
+        className="flex items-center gap-2 text-lg font-medium mb-6 text-text-primary"
+      >
+        <CircleHelp size={18} className="text-accent-warm" aria-hidden="true" />
+        Check Your Understanding
+      </h2>
+
+      <ol className="list-none space-y-6">
+        {questions.map((question, questionIndex) => {
+          const selected = answers[questionIndex];
+          const isCorrect = selected === question.correctIndex;
+
+          return (
+            <li key={questionIndex}>
+              <fieldset>
+                <legend className={`text-[0.9375rem] text-text-primary mb-3 ${inlineStyles}`}>
+                  {questionIndex + 1}. <InlineMarkdown source={question.question} />
+                </legend>
+                <div className="space-y-2">
+                  {question.options.map((option, optionIndex) => {
+                    const isSelected = selected === optionIndex;
+                    const isAnswer = optionIndex === question.correctIndex;
+
+                    let stateStyles = isSelected
+                      ? "border-accent-warm bg-bg-tertiary text-text-primary"
+                      : "border-border text-text-secondary hover:bg-bg-tertiary hover:text-text-primary";
+                    if (submitted && isAnswer) {
+                      stateStyles = "border-accent-cool bg-bg-tertiary text-text-primary";
+                    } else if (submitted && isSelected) {
+                      stateStyles =
+                        "border-accent-warm bg-bg-tertiary text-text-primary line-through";
+                    }
+
+                    return (
+                      <label
+                        key={optionIndex}
+                        className={`flex items-center gap-3 px-4 py-2.5 border rounded text-sm transition-colors ${
+                          submitted ? "cursor-default" : "cursor-pointer"
+                        } ${stateStyles}`}
+                      >
+                        <input
+                          type="radio"
+                          name={`quiz-question-${questionIndex}`}
+                          checked={isSelected}
+                          disabled={submitted}
+                          onChange={() => selectAnswer(questionIndex, optionIndex)}
+                          className="accent-accent-warm"
+                        />
+                        <span className={`flex-1 ${inlineStyles}`}>
+                          <InlineMarkdown source={option} />
+                        </span>
+                        {submitted && isAnswer && (
+                          <Check
+                            size={16}
+                            className="text-accent-cool"
+                            aria-label="Correct answer"
+                          />
+                        )}
+                        {submitted && isSelected && !isAnswer && (
+                          <X size={16} className="text-accent-warm" aria-label="Your answer" />
+                        )}
+                      </label>
+                    );
+                  })}
+                </div>
+              </fieldset>
+
+              {submitted && (
+                <p
+                  className={`mt-3 pl-4 border-l-2 text-sm text-text-secondary ${
+                    isCorrect ? "border-l-accent-cool" : "border-l-accent-warm"
+                  } ${inlineStyles}`}
+                >
+                  <strong>{isCorrect ? "Correct." : "Not quite."}</strong>{" "}
+                  <InlineMarkdown source={question.explanation} />
+                </p>
+              )}
+            </li>
+          );
+        })}
+      </ol>
+
+      <div className="flex flex-wrap items-center gap-4 mt-6 pt-5 border-t border-border">
+        {submitted ? (
+          <>
+            <p className="text-sm text-text-primary" role="status">
+              You scored {score} / {questions.length}
+            </p>
+            <button
+              className="inline-flex items-center gap-2 px-4 py-2 bg-transparent border border-border rounded text-text-secondary text-sm cursor-pointer transition-all duration-150 hover:bg-bg-tertiary hover:text-text-primary"
+              onClick={retry}
+            >
+              <RotateCcw size={14} aria-hidden="true" />
+              Retry
+            </button>
+          </>
+        ) : (
+          <button
+            className="inline-flex items-center gap-2 px-5 py-2.5 text-[0.8125rem] font-medium bg-accent-warm text-bg-primary border-0 rounded cursor-pointer transition-all duration-150 hover:brightness-110 disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:brightness-100"
+            onClick={() => setSubmitted(true)}
+            disabled={!allAnswered}
+          >
+            Submit Answers
+          </button>
+        )}
+      </div>
+    </section>
+  );
+}
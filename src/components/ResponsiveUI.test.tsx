@@ -1,5 +1,4 @@
-import { render, screen, fireEvent, cleanup } from "@testing-library/react";
-import { MemoryRouter } from "react-router-dom";
+import { screen, fireEvent, cleanup } from "@testing-library/react";
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 import App from "../App";
 import { Sidebar } from "./Sidebar";
@@ -7,8 +6,10 @@ import { CodeComparison } from "./CodeComparison";
 import { CodeBlock } from "./CodeBlock";
 import { LessonView } from "./LessonView";
 import { Welcome } from "./Welcome";
-import { ThemeProvider } from "../context/ThemeContext";
-import { lessons } from "../data/lessons";
+import { lessons, loadLesson } from "../data/lessons";
+import { renderWithProviders } from "../test-utils";
+
+const testLesson = await loadLesson(lessons[0].id);
 
 afterEach(() => {
   cleanup();
@@ -36,26 +37,14 @@ describe("Mobile Header", () => {
   });
 
   it("renders mobile header with menu button", () => {
-    render(
-      <MemoryRouter initialEntries={["/"]}>
-        <ThemeProvider>
-          <App />
-        </ThemeProvider>
-      </MemoryRouter>,
-    );
+    renderWithProviders(<App />);
 
     const menuButton = screen.getByRole("button", { name: /open menu/i });
     expect(menuButton).toBeInTheDocument();
   });
 
   it("renders app title in mobile header", () => {
-    const { container } = render(
-      <MemoryRouter initialEntries={["/"]}>
-        <ThemeProvider>
-          <App />
-        </ThemeProvider>
-      </MemoryRouter>,
-    );
+    const { container } = renderWithProviders(<App />);
 
     // The mobile header contains the app title in a span
     const mobileHeader = container.querySelector("header.lg\\:hidden");
@@ -64,13 +53,7 @@ describe("Mobile Header", () => {
   });
 
   it("toggles menu button aria-label when clicked", () => {
-    render(
-      <MemoryRouter initialEntries={["/"]}>
-        <ThemeProvider>
-          <App />
-        </ThemeProvider>
-      </MemoryRouter>,
-    );
+    renderWithProviders(<App />);
 
     const menuButton = screen.getByRole("button", { name: /open menu/i });
     fireEvent.click(menuButton);
@@ -79,13 +62,7 @@ describe("Mobile Header", () => {
   });
 
   it("shows overlay when sidebar is open", () => {
-    const { container } = render(
-      <MemoryRouter initialEntries={["/"]}>
-        <ThemeProvider>
-          <App />
-        </ThemeProvider>
-      </MemoryRouter>,
-    );
+    const { container } = renderWithProviders(<App />);
 
     const menuButton = screen.getByRole("button", { name: /open menu/i });
     fireEvent.click(menuButton);
@@ -97,13 +74,7 @@ describe("Mobile Header", () => {
   });
 
   it("closes sidebar when overlay is clicked", () => {
-    const { container } = render(
-      <MemoryRouter initialEntries={["/"]}>
-        <ThemeProvider>
-          <App />
-        </ThemeProvider>
-      </MemoryRouter>,
-    );
+    const { container } = renderWithProviders(<App />);
 
     // Open sidebar
     const menuButton = screen.getByRole("button", { name: /open menu/i });
@@ -124,26 +95,14 @@ describe("Sidebar responsive behavior", () => {
   });
 
   it("renders with isOpen=false having translate-x-full class", () => {
-    render(
-      <MemoryRouter>
-        <ThemeProvider>
-          <Sidebar isOpen={false} onClose={vi.fn()} />
-        </ThemeProvider>
-      </MemoryRouter>,
-    );
+    renderWithProviders(<Sidebar isOpen={false} onClose={vi.fn()} />);
 
     const sidebar = screen.getByRole("navigation", { name: /lesson navigation/i });
     expect(sidebar).toHaveClass("-translate-x-full");
   });
 
   it("renders with isOpen=true having translate-x-0 class", () => {
-    render(
-      <MemoryRouter>
-        <ThemeProvider>
-          <Sidebar isOpen={true} onClose={vi.fn()} />
-        </ThemeProvider>
-      </MemoryRouter>,
-    );
+    renderWithProviders(<Sidebar isOpen={true} onClose={vi.fn()} />);
 
     const sidebar = screen.getByRole("navigation", { name: /lesson navigation/i });
     expect(sidebar).toHaveClass("translate-x-0");
@@ -151,13 +110,7 @@ describe("Sidebar responsive behavior", () => {
 
   it("calls onClose when lesson card is clicked", () => {
     const onClose = vi.fn();
-    render(
-      <MemoryRouter>
-        <ThemeProvider>
-          <Sidebar isOpen={true} onClose={onClose} />
-        </ThemeProvider>
-      </MemoryRouter>,
-    );
+    renderWithProviders(<Sidebar isOpen={true} onClose={onClose} />);
 
     // Find and click a lesson link by its title
     const lessonLink = screen.getByRole("link", { name: /types & type inference/i });
@@ -167,26 +120,14 @@ describe("Sidebar responsive behavior", () => {
   });
 
   it("has proper transition classes for smooth animation", () => {
-    render(
-      <MemoryRouter>
-        <ThemeProvider>
-          <Sidebar isOpen={false} onClose={vi.fn()} />
-        </ThemeProvider>
-      </MemoryRouter>,
-    );
+    renderWithProviders(<Sidebar isOpen={false} onClose={vi.fn()} />);
 
     const sidebar = screen.getByRole("navigation", { name: /lesson navigation/i });
     expect(sidebar).toHaveClass("transition-transform", "duration-300", "ease-in-out");
   });
 
   it("has lg:translate-x-0 class for desktop always-visible behavior", () => {
-    render(
-      <MemoryRouter>
-        <ThemeProvider>
-          <Sidebar isOpen={false} onClose={vi.fn()} />
-        </ThemeProvider>
-      </MemoryRouter>,
-    );
+    renderWithProviders(<Sidebar isOpen={false} onClose={vi.fn()} />);
 
     const sidebar = screen.getByRole("navigation", { name: /lesson navigation/i });
     expect(sidebar).toHaveClass("lg:translate-x-0");
@@ -199,10 +140,8 @@ describe("CodeComparison responsive layout", () => {
   });
 
   it("renders with flex-col and lg:flex-row classes for responsive layout", () => {
-    const { container } = render(
-      <ThemeProvider>
-        <CodeComparison react={{ code: "const x = 1;" }} swiftui={{ code: "let x = 1" }} />
-      </ThemeProvider>,
+    const { container } = renderWithProviders(
+      <CodeComparison react={{ code: "const x = 1;" }} swiftui={{ code: "let x = 1" }} />,
     );
 
     const flexContainer = container.querySelector(".flex-col.lg\\:flex-row");
@@ -210,10 +149,8 @@ describe("CodeComparison responsive layout", () => {
   });
 
   it("renders down arrow for mobile (block lg:hidden)", () => {
-    render(
-      <ThemeProvider>
-        <CodeComparison react={{ code: "const x = 1;" }} swiftui={{ code: "let x = 1" }} />
-      </ThemeProvider>,
+    renderWithProviders(
+      <CodeComparison react={{ code: "const x = 1;" }} swiftui={{ code: "let x = 1" }} />,
     );
 
     // Find the container with the arrows
@@ -226,10 +163,8 @@ describe("CodeComparison responsive layout", () => {
   });
 
   it("renders right arrow for desktop (hidden lg:block)", () => {
-    render(
-      <ThemeProvider>
-        <CodeComparison react={{ code: "const x = 1;" }} swiftui={{ code: "let x = 1" }} />
-      </ThemeProvider>,
+    renderWithProviders(
+      <CodeComparison react={{ code: "const x = 1;" }} swiftui={{ code: "let x = 1" }} />,
     );
 
     // Check for right arrow (desktop) classes
@@ -238,10 +173,8 @@ describe("CodeComparison responsive layout", () => {
   });
 
   it("renders both code blocks with min-w-0 for proper flex behavior", () => {
-    const { container } = render(
-      <ThemeProvider>
-        <CodeComparison react={{ code: "const x = 1;" }} swiftui={{ code: "let x = 1" }} />
-      </ThemeProvider>,
+    const { container } = renderWithProviders(
+      <CodeComparison react={{ code: "const x = 1;" }} swiftui={{ code: "let x = 1" }} />,
     );
 
     const codeContainers = container.querySelectorAll(".flex-1.min-w-0");
@@ -255,33 +188,21 @@ describe("CodeBlock responsive styling", () => {
   });
 
   it("has responsive padding classes on pre element", () => {
-    const { container } = render(
-      <ThemeProvider>
-        <CodeBlock code="const x = 1;" language="tsx" />
-      </ThemeProvider>,
-    );
+    const { container } = renderWithProviders(<CodeBlock code="const x = 1;" language="tsx" />);
 
     const preElement = container.querySelector("pre");
     expect(preElement).toHaveClass("p-3", "sm:p-4");
   });
 
   it("has responsive font size classes on pre element", () => {
-    const { container } = render(
-      <ThemeProvider>
-        <CodeBlock code="const x = 1;" language="tsx" />
-      </ThemeProvider>,
-    );
+    const { container } = renderWithProviders(<CodeBlock code="const x = 1;" language="tsx" />);
 
     const preElement = container.querySelector("pre");
     expect(preElement).toHaveClass("text-xs", "sm:text-sm");
   });
 
   it("has responsive line number width classes", () => {
-    const { container } = render(
-      <ThemeProvider>
-        <CodeBlock code="const x = 1;" language="tsx" />
-      </ThemeProvider>,
-    );
+    const { container } = renderWithProviders(<CodeBlock code="const x = 1;" language="tsx" />);
 
     // Line numbers have responsive width
     const lineNumber = container.querySelector("span.w-6.sm\\:w-8");
@@ -289,11 +210,7 @@ describe("CodeBlock responsive styling", () => {
   });
 
   it("has responsive line number font size", () => {
-    const { container } = render(
-      <ThemeProvider>
-        <CodeBlock code="const x = 1;" language="tsx" />
-      </ThemeProvider>,
-    );
+    const { container } = renderWithProviders(<CodeBlock code="const x = 1;" language="tsx" />);
 
     const lineNumber = container.querySelector('span[class*="text-\\[10px\\]"]');
     expect(lineNumber).toBeInTheDocument();
@@ -301,11 +218,7 @@ describe("CodeBlock responsive styling", () => {
   });
 
   it("has responsive padding on line numbers", () => {
-    const { container } = render(
-      <ThemeProvider>
-        <CodeBlock code="const x = 1;" language="tsx" />
-      </ThemeProvider>,
-    );
+    const { container } = renderWithProviders(<CodeBlock code="const x = 1;" language="tsx" />);
 
     const lineNumber = container.querySelector("span.pr-2.sm\\:pr-4");
     expect(lineNumber).toBeInTheDocument();
@@ -317,55 +230,29 @@ describe("LessonView responsive layout", () => {
     mockMatchMedia(false);
   });
 
-  const testLesson = lessons[0];
-
   it("has responsive article padding", () => {
-    const { container } = render(
-      <MemoryRouter>
-        <ThemeProvider>
-          <LessonView lesson={testLesson} onBack={vi.fn()} />
-        </ThemeProvider>
-      </MemoryRouter>,
-    );
+    const { container } = renderWithProviders(<LessonView lesson={testLesson} onBack={vi.fn()} />);
 
     const article = container.querySelector("article");
     expect(article).toHaveClass("p-4", "sm:p-6", "lg:p-8");
   });
 
   it("has responsive header margins", () => {
-    const { container } = render(
-      <MemoryRouter>
-        <ThemeProvider>
-          <LessonView lesson={testLesson} onBack={vi.fn()} />
-        </ThemeProvider>
-      </MemoryRouter>,
-    );
+    const { container } = renderWithProviders(<LessonView lesson={testLesson} onBack={vi.fn()} />);
 
     const header = container.querySelector("header");
     expect(header).toHaveClass("mb-8", "lg:mb-12");
   });
 
   it("has responsive title font size", () => {
-    render(
-      <MemoryRouter>
-        <ThemeProvider>
-          <LessonView lesson={testLesson} onBack={vi.fn()} />
-        </ThemeProvider>
-      </MemoryRouter>,
-    );
+    renderWithProviders(<LessonView lesson={testLesson} onBack={vi.fn()} />);
 
     const title = screen.getByRole("heading", { level: 1 });
     expect(title).toHaveClass("text-xl", "sm:text-2xl");
   });
 
   it("has responsive section margins and padding", () => {
-    const { container } = render(
-      <MemoryRouter>
-        <ThemeProvider>
-          <LessonView lesson={testLesson} onBack={vi.fn()} />
-        </ThemeProvider>
-      </MemoryRouter>,
-    );
+    const { container } = renderWithProviders(<LessonView lesson={testLesson} onBack={vi.fn()} />);
 
     const section = container.querySelector("section");
     expect(section).toHaveClass("mb-8", "sm:mb-12", "lg:mb-16");
@@ -379,11 +266,7 @@ describe("Welcome page responsive layout", () => {
   });
 
   it("has responsive container padding", () => {
-    const { container } = render(
-      <ThemeProvider>
-        <Welcome onGetStarted={vi.fn()} />
-      </ThemeProvider>,
-    );
+    const { container } = renderWithProviders(<Welcome onGetStarted={vi.fn()} />);
 
     const mainDiv = container.firstChild;
     expect(mainDiv).toHaveClass("px-4", "sm:px-6", "lg:px-8");
@@ -391,11 +274,7 @@ describe("Welcome page responsive layout", () => {
   });
 
   it("has responsive header margins", () => {
-    const { container } = render(
-      <ThemeProvider>
-        <Welcome onGetStarted={vi.fn()} />
-      </ThemeProvider>,
-    );
+    const { container } = renderWithProviders(<Welcome onGetStarted={vi.fn()} />);
 
     const header = container.querySelector("header");
     expect(header).toHaveClass("mb-8", "lg:mb-12");
@@ -403,33 +282,21 @@ describe("Welcome page responsive layout", () => {
   });
 
   it("has responsive title font size", () => {
-    render(
-      <ThemeProvider>
-        <Welcome onGetStarted={vi.fn()} />
-      </ThemeProvider>,
-    );
+    renderWithProviders(<Welcome onGetStarted={vi.fn()} />);
 
     const title = screen.getByRole("heading", { level: 1 });
     expect(title).toHaveClass("text-xl", "sm:text-2xl");
   });
 
   it("has responsive feature grid layout", () => {
-    render(
-      <ThemeProvider>
-        <Welcome onGetStarted={vi.fn()} />
-      </ThemeProvider>,
-    );
+    renderWithProviders(<Welcome onGetStarted={vi.fn()} />);
 
     const featureSection = screen.getByRole("region", { name: /key features/i });
     expect(featureSection).toHaveClass("grid-cols-1", "md:grid-cols-3");
   });
 
   it("has responsive section margins", () => {
-    render(
-      <ThemeProvider>
-        <Welcome onGetStarted={vi.fn()} />
-      </ThemeProvider>,
-    );
+    renderWithProviders(<Welcome onGetStarted={vi.fn()} />);
 
     const featureSection = screen.getByRole("region", { name: /key features/i });
     expect(featureSection).toHaveClass("mb-8", "lg:mb-12");
@@ -442,39 +309,21 @@ describe("Main content area responsive behavior", () => {
   });
 
   it("has pt-14 padding-top for mobile header space", () => {
-    const { container } = render(
-      <MemoryRouter initialEntries={["/"]}>
-        <ThemeProvider>
-          <App />
-        </ThemeProvider>
-      </MemoryRouter>,
-    );
+    const { container } = renderWithProviders(<App />);
 
     const main = container.querySelector("main");
     expect(main).toHaveClass("pt-14", "lg:pt-0");
   });
 
   it("has lg:ml-70 margin for desktop sidebar space", () => {
-    const { container } = render(
-      <MemoryRouter initialEntries={["/"]}>
-        <ThemeProvider>
-          <App />
-        </ThemeProvider>
-      </MemoryRouter>,
-    );
+    const { container } = renderWithProviders(<App />);
 
     const main = container.querySelector("main");
     expect(main).toHaveClass("ml-0", "lg:ml-70");
   });
 
   it("mobile header is hidden on large screens (lg:hidden)", () => {
-    const { container } = render(
-      <MemoryRouter initialEntries={["/"]}>
-        <ThemeProvider>
-          <App />
-        </ThemeProvider>
-      </MemoryRouter>,
-    );
+    const { container } = renderWithProviders(<App />);
 
     const mobileHeader = container.querySelector("header");
     expect(mobileHeader).toHaveClass("lg:hidden");
@@ -487,26 +336,14 @@ describe("Sidebar z-index layering", () => {
   });
 
   it("mobile header has z-30", () => {
-    const { container } = render(
-      <MemoryRouter initialEntries={["/"]}>
-        <ThemeProvider>
-          <App />
-        </ThemeProvider>
-      </MemoryRouter>,
-    );
+    const { container } = renderWithProviders(<App />);
 
     const mobileHeader = container.querySelector("header");
     expect(mobileHeader).toHaveClass("z-30");
   });
 
   it("overlay has z-40", () => {
-    const { container } = render(
-      <MemoryRouter initialEntries={["/"]}>
-        <ThemeProvider>
-          <App />
-        </ThemeProvider>
-      </MemoryRouter>,
-    );
+    const { container } = renderWithProviders(<App />);
 
     // Open sidebar to show overlay
     const menuButton = screen.getByRole("button", { name: /open menu/i });
@@ -517,13 +354,7 @@ describe("Sidebar z-index layering", () => {
   });
 
   it("sidebar has z-50", () => {
-    render(
-      <MemoryRouter>
-        <ThemeProvider>
-          <Sidebar isOpen={true} onClose={vi.fn()} />
-        </ThemeProvider>
-      </MemoryRouter>,
-    );
+    renderWithProviders(<Sidebar isOpen={true} onClose={vi.fn()} />);
 
     const sidebar = screen.getByRole("navigation", { name: /lesson navigation/i });
     expect(sidebar).toHaveClass("z-50");
@@ -0,0 +1,197 @@
+import { act, screen, cleanup, within } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import App from "../App";
+import { loadLesson } from "../data/lessons";
+import { quickReference } from "../data/quick-reference";
+import {
+  NEW_CARDS_PER_DAY,
+  addDays,
+  getLessonCards,
+  referenceCardId,
+  toDay,
+} from "../lib/flashcards";
+import type { CardSchedule } from "../lib/flashcards";
+import { renderWithProviders } from "../test-utils";
+
+afterEach(() => {
+  cleanup();
+  localStorage.clear();
+});
+
+const today = toDay();
+
+async function renderApp(path = "/review") {
+  // Tip cards suspend until their lesson loads; an awaited act lets React retry
+  return act(async () => renderWithProviders(<App />, { route: path }));
+}
+
+/** Every Quick Reference card already learned, except the ones listed */
+function learnQuickReference(except: string[] = []) {
+  const learned: CardSchedule = {
+    repetitions: 2,
+    interval: 6,
+    ease: 2.5,
+    due: addDays(today, 3),
+  };
+  const schedules = Object.fromEntries(
+    quickReference
+      .map(referenceCardId)
+      .filter((id) => !except.includes(id))
+      .map((id) => [id, learned]),
+  );
+  return schedules;
+}
+
+function saveReview(schedules: Record<string, CardSchedule>, newCardsToday = 0) {
+  localStorage.setItem(
+    "review",
+    JSON.stringify({ schedules, newCards: { day: today, count: newCardsToday } }),
+  );
+}
+
+function dueBadge() {
+  return screen.getByTestId("review-due-count");
+}
+
+beforeEach(() => {
+  Object.defineProperty(window, "matchMedia", {
+    writable: true,
+    value: vi.fn().mockImplementation((query: string) => ({
+      matches: false,
+      media: query,
+      onchange: null,
+      addListener: vi.fn(),
+      removeListener: vi.fn(),
+      addEventListener: vi.fn(),
+      removeEventListener: vi.fn(),
+      dispatchEvent: vi.fn(),
+    })),
+  });
+});
+
+describe("Review", () => {
+  it("counts today's cards in the sidebar", async () => {
+    await renderApp("/");
+
+    const dueToday = Math.min(quickReference.length, NEW_CARDS_PER_DAY);
+    expect(dueBadge()).toHaveAccessibleName(`${dueToday} cards due today`);
+  });
+
+  it("reveals the answer and schedules the card by how well it was recalled", async () => {
+    const user = userEvent.setup();
+    await renderApp();
+    const card = screen.getByRole("region", { name: "Flashcard" });
+
+    expect(within(card).getByRole("heading")).toHaveTextContent(quickReference[0].react);
+    expect(within(card).queryByText(quickReference[0].swiftui)).not.toBeInTheDocument();
+
+    await user.click(screen.getByRole("button", { name: "Show answer" }));
+    expect(within(card).getByText(quickReference[0].swiftui)).toBeInTheDocument();
+    expect(screen.getByRole("button", { name: "Easy, next review in 1 day" })).toBeInTheDocument();
+
+    await user.click(screen.getByRole("button", { name: "Good, next review in 1 day" }));
+
+    expect(
+      within(screen.getByRole("region", { name: "Flashcard" })).getByRole("heading"),
+    ).toHaveTextContent(quickReference[1].react);
+    expect(screen.getByText(/19 cards left today · 1 reviewed/)).toBeInTheDocument();
+    expect(dueBadge()).toHaveTextContent("19");
+    expect(JSON.parse(localStorage.getItem("review")!)).toEqual({
+      schedules: {
+        [referenceCardId(quickReference[0])]: {
+          repetitions: 1,
+          interval: 1,
+          ease: 2.5,
+          due: addDays(today, 1),
+        },
+      },
+      newCards: { day: today, count: 1 },
+    });
+  });
+
+  it("treats malformed stored schedules as new cards instead of crashing", async () => {
+    localStorage.setItem(
+      "review",
+      JSON.stringify({
+        schedules: {
+          [referenceCardId(quickReference[0])]: { due: 5 },
+          [referenceCardId(quickReference[1])]: "tomorrow",
+        },
+        newCards: 3,
+      }),
+    );
+    await renderApp();
+
+    const dueToday = Math.min(quickReference.length, NEW_CARDS_PER_DAY);
+    expect(dueBadge()).toHaveAccessibleName(`${dueToday} cards due today`);
+    expect(
+      within(screen.getByRole("region", { name: "Flashcard" })).getByRole("heading"),
+    ).toHaveTextContent(quickReference[0].react);
+  });
+
+  it("stops introducing new cards once today's allowance is used", async () => {
+    saveReview({}, 20);
+    await renderApp();
+
+    expect(screen.getByRole("heading", { name: "All caught up" })).toBeInTheDocument();
+    expect(screen.queryByTestId("review-due-count")).not.toBeInTheDocument();
+  });
+
+  it("brings cards answered Again back until they're recalled", async () => {
+    const user = userEvent.setup();
+    const lapsing = referenceCardId(quickReference[2]);
+    saveReview(
+      {
+        ...learnQuickReference(),
+        [lapsing]: { repetitions: 3, interval: 15, ease: 2.5, due: today },
+      },
+      20,
+    );
+    await renderApp();
+
+    await user.keyboard(" ");
+    await user.keyboard("1");
+
+    expect(screen.getByText(/1 card left today · 1 reviewed/)).toBeInTheDocument();
+    expect(
+      within(screen.getByRole("region", { name: "Flashcard" })).getByRole("heading"),
+    ).toHaveTextContent(quickReference[2].react);
+
+    await user.keyboard(" ");
+    await user.keyboard("3");
+
+    expect(screen.getByRole("heading", { name: "All caught up" })).toBeInTheDocument();
+    // The relearning step doesn't reschedule the card a second time
+    expect(JSON.parse(localStorage.getItem("review")!).schedules[lapsing]).toEqual({
+      repetitions: 0,
+      interval: 1,
+      ease: 1.96,
+      due: addDays(today, 1),
+    });
+  });
+
+  it("adds the tips of sections the reader has seen, linking back to them", async () => {
+    const user = userEvent.setup();
+    const lesson = await loadLesson("state");
+    const [firstCard] = getLessonCards(lesson);
+    const sectionIndex = lesson.sections.findIndex((section) => section.tips?.length);
+    localStorage.setItem(
+      "progress",
+      JSON.stringify({ viewedSections: { state: [sectionIndex] }, completedLessons: [] }),
+    );
+    saveReview(learnQuickReference());
+    await renderApp();
+
+    const card = screen.getByRole("region", { name: "Flashcard" });
+    expect(within(card).getByText(firstCard.source)).toBeInTheDocument();
+    expect(dueBadge()).toHaveTextContent(String(lesson.sections[sectionIndex].tips!.length));
+
+    await user.click(screen.getByRole("button", { name: "Show answer" }));
+
+    expect(within(card).getByRole("link", { name: "Open section" })).toHaveAttribute(
+      "href",
+      `/lessons/state#${firstCard.anchor}`,
+    );
+  });
+});
@@ -0,0 +1,221 @@
+import { Suspense, use, useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { CircleCheck, LoaderCircle } from "lucide-react";
+import { InlineMarkdown } from "./Markdown";
+import { LoadErrorBoundary } from "./LoadErrorBoundary";
+import { useReview } from "../context/ReviewContext";
+import { loadLesson } from "../data/lessons";
+import { quickReference } from "../data/quick-reference";
+import { lessonPath } from "../lib/anchors";
+import {
+  GRADES,
+  getCardLessonId,
+  getLessonCards,
+  getReferenceCards,
+  scheduleCard,
+  toDay,
+} from "../lib/flashcards";
+import type { CardSchedule, Flashcard, Grade } from "../lib/flashcards";
+
+const GRADE_LABELS: Record<Grade, string> = {
+  again: "Again",
+  hard: "Hard",
+  good: "Good",
+  easy: "Easy",
+};
+
+function formatInterval(days: number) {
+  return days === 1 ? "1 day" : `${days} days`;
+}
+
+/**
+ * Today's flashcards, one at a time. Cards answered "Again" come back at the
+ * end of the session (without rescheduling them twice) until they're recalled.
+ */
+export function Review() {
+  const { dueCardIds, getSchedule, gradeCard } = useReview();
+  // Lapsed cards to go over again before the session ends
+  const [relearning, setRelearning] = useState<string[]>([]);
+  const [reviewedCount, setReviewedCount] = useState(0);
+
+  const queue = [...dueCardIds.filter((id) => !relearning.includes(id)), ...relearning];
+  const cardId = queue[0];
+  const isRelearning = relearning.includes(cardId);
+
+  const grade = (value: Grade) => {
+    if (!isRelearning) gradeCard(cardId, value);
+    setRelearning((prev) => {
+      const others = prev.filter((id) => id !== cardId);
+      return value === "again" ? [...others, cardId] : others;
+    });
+    setReviewedCount((count) => count + 1);
+  };
+
+  return (
+    <div className="max-w-2xl mx-auto px-4 sm:px-6 lg:px-8 py-8 sm:py-12 lg:py-16">
+      <header className="mb-8 pb-6 border-b border-border">
+        <h1 className="text-xl sm:text-2xl font-normal tracking-tight mb-3 text-text-primary">
+          Review
+        </h1>
+        <p className="text-[0.9375rem] text-text-secondary">
+          Flashcards from the Quick Reference and the tips in the sections you've read, spaced out
+          so each comes back just before you'd forget it.
+        </p>
+        <p className="mt-3 text-xs text-text-muted tabular-nums" aria-live="polite">
+          {queue.length} {queue.length === 1 ? "card" : "cards"} left today · {reviewedCount}{" "}
+          reviewed
+        </p>
+      </header>
+
+      {cardId ? (
+        <LoadErrorBoundary key={cardId} subject="this card">
+          <Suspense fallback={<CardLoading />}>
+            <CardView
+              key={`${cardId}-${reviewedCount}`}
+              cardId={cardId}
+              schedule={isRelearning ? undefined : getSchedule(cardId)}
+              showIntervals={!isRelearning}
+              onGrade={grade}
+            />
+          </Suspense>
+        </LoadErrorBoundary>
+      ) : (
+        <div className="flex flex-col items-center text-center gap-3 py-12">
+          <CircleCheck size={32} className="text-accent-cool" aria-hidden="true" />
+          <h2 className="text-lg font-medium text-text-primary">All caught up</h2>
+          <p className="text-sm text-text-secondary max-w-sm">
+            Come back tomorrow for your next reviews. Tips from each section you read are added to
+            the deck.
+          </p>
+          <Link to="/" className="text-sm text-accent-warm underline underline-offset-2">
+            Back to Home
+          </Link>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function CardLoading() {
+  return (
+    <div
+      role="status"
+      className="flex items-center justify-center gap-2 min-h-48 text-sm text-text-muted"
+    >
+      <LoaderCircle size={16} className="animate-spin" aria-hidden="true" />
+      Loading card…
+    </div>
+  );
+}
+
+/** The card's content; tips suspend until their lesson has loaded */
+function useFlashcard(cardId: string): Flashcard | undefined {
+  const lessonId = getCardLessonId(cardId);
+  const cards = lessonId
+    ? getLessonCards(use(loadLesson(lessonId)))
+    : getReferenceCards(quickReference);
+  return cards.find((card) => card.id === cardId);
+}
+
+interface CardViewProps {
+  cardId: string;
+  schedule: CardSchedule | undefined;
+  showIntervals: boolean;
+  onGrade: (grade: Grade) => void;
+}
+
+function CardView({ cardId, schedule, showIntervals, onGrade }: CardViewProps) {
+  const card = useFlashcard(cardId);
+  const [revealed, setRevealed] = useState(false);
+  const today = toDay();
+
+  // Space shows the answer; 1–4 grade it
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.metaKey || event.ctrlKey || event.altKey) return;
+      if (event.target instanceof HTMLElement && event.target.closest("input, textarea")) return;
+      if (!revealed && event.key === " ") {
+        event.preventDefault();
+        setRevealed(true);
+      } else if (revealed) {
+        const grade = GRADES[Number(event.key) - 1];
+        if (grade) onGrade(grade);
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [revealed, onGrade]);
+
+  if (!card) return null;
+
+  return (
+    <section
+      aria-label="Flashcard"
+      className="bg-bg-secondary border border-border rounded-lg p-6 sm:p-8"
+    >
+      <p className="text-xs text-text-muted mb-4">{card.source}</p>
+      <h2 className="text-lg font-medium text-text-primary mb-1">
+        {card.isCode ? (
+          <code className="font-mono text-accent-cool">{card.front}</code>
+        ) : (
+          card.front
+        )}
+      </h2>
+      <p className="text-sm text-text-secondary">{card.question}</p>
+
+      {revealed ? (
+        <>
+          <div className="mt-6 pt-6 border-t border-border text-[0.9375rem] text-text-primary [&_strong]:font-medium [&_code]:bg-bg-tertiary [&_code]:px-1.5 [&_code]:py-0.5 [&_code]:rounded [&_code]:text-sm [&_code]:font-mono [&_code]:text-accent-cool">
+            {card.isCode ? <code>{card.back}</code> : <InlineMarkdown source={card.back} />}
+            {card.lessonId && (
+              <Link
+                to={lessonPath(card.lessonId, card.anchor)}
+                className="block mt-3 text-xs text-accent-warm underline underline-offset-2"
+              >
+                Open section
+              </Link>
+            )}
+          </div>
+          <div
+            role="group"
+            aria-label="How well did you remember?"
+            className="grid grid-cols-4 gap-2 mt-6"
+          >
+            {GRADES.map((grade, index) => {
+              const interval = scheduleCard(schedule, grade, today).interval;
+              return (
+                <button
+                  key={grade}
+                  onClick={() => onGrade(grade)}
+                  aria-keyshortcuts={String(index + 1)}
+                  aria-label={
+                    showIntervals
+                      ? `${GRADE_LABELS[grade]}, next review in ${formatInterval(interval)}`
+                      : GRADE_LABELS[grade]
+                  }
+                  className="flex flex-col items-center gap-0.5 px-2 py-2 bg-bg-primary border border-border rounded text-sm text-text-secondary cursor-pointer transition-colors hover:text-text-primary hover:border-accent-dim"
+                >
+                  {GRADE_LABELS[grade]}
+                  {showIntervals && (
+                    <span className="text-[0.6875rem] text-text-muted" aria-hidden="true">
+                      {formatInterval(interval)}
+                    </span>
+                  )}
+                </button>
+              );
+            })}
+          </div>
+        </>
+      ) : (
+        <button
+          onClick={() => setRevealed(true)}
+          aria-keyshortcuts="Space"
+          className="mt-6 w-full px-4 py-2.5 bg-accent-warm text-bg-primary border-0 rounded text-sm font-medium cursor-pointer transition-all duration-150 hover:brightness-110"
+        >
+          Show answer
+        </button>
+      )}
+    </section>
+  );
+}
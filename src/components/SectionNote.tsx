@@ -0,0 +1,153 @@
+import { useState } from "react";
+import type { FormEvent, KeyboardEvent } from "react";
+import { StickyNote } from "lucide-react";
+import { Markdown } from "./Markdown";
+import { useBookmarks } from "../context/BookmarksContext";
+
+export const noteStyles = `text-sm text-text-secondary leading-relaxed space-y-2 [&_strong]:text-text-primary [&_strong]:font-medium [&_em]:italic [&_code]:bg-bg-tertiary [&_code]:px-1 [&_code]:py-0.5 [&_code]:rounded [&_code]:text-xs [&_code]:font-mono [&_code]:text-accent-cool [&_a]:text-accent-warm [&_a]:underline [&_a]:underline-offset-2`;
+
+interface SectionNoteProps {
+  lessonId: string;
+  anchor: string;
+  title: string;
+  isEditing: boolean;
+  onEditingChange: (editing: boolean) => void;
+}
+
+/** The reader's note on a section: the saved note, or the editor while it's open */
+export function SectionNote({
+  lessonId,
+  anchor,
+  title,
+  isEditing,
+  onEditingChange,
+}: SectionNoteProps) {
+  const { getNote, setNote } = useBookmarks();
+  const note = getNote(lessonId, anchor);
+
+  if (isEditing) {
+    return (
+      <NoteEditor
+        initialNote={note}
+        title={title}
+        onSave={(text) => {
+          setNote(lessonId, anchor, text);
+          onEditingChange(false);
+        }}
+        onCancel={() => onEditingChange(false)}
+      />
+    );
+  }
+
+  if (!note) return null;
+
+  return (
+    <div
+      role="note"
+      aria-label="Your note"
+      className="mb-6 max-w-3xl mx-auto bg-bg-secondary border border-border border-l-2 border-l-accent-cool rounded-lg p-4"
+    >
+      <div className="flex items-center gap-2 mb-2 text-xs font-medium text-accent-cool">
+        <StickyNote size={14} aria-hidden="true" />
+        Your note
+      </div>
+      <Markdown source={note} className={noteStyles} />
+    </div>
+  );
+}
+
+interface NoteEditorProps {
+  initialNote: string;
+  title: string;
+  onSave: (note: string) => void;
+  onCancel: () => void;
+}
+
+function NoteEditor({ initialNote, title, onSave, onCancel }: NoteEditorProps) {
+  const [draft, setDraft] = useState(initialNote);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    onSave(draft);
+  };
+
+  // Cmd/Ctrl-Enter saves and Escape discards, as in most comment boxes
+  const handleKeyDown = (event: KeyboardEvent) => {
+    if (event.key === "Enter" && (event.metaKey || event.ctrlKey)) {
+      event.preventDefault();
+      onSave(draft);
+    } else if (event.key === "Escape") {
+      event.preventDefault();
+      onCancel();
+    }
+  };
+
+  return (
+    <form
+      aria-label={`Note on "${title}"`}
+      onSubmit={handleSubmit}
+      onKeyDown={handleKeyDown}
+      className="mb-6 max-w-3xl mx-auto bg-bg-secondary border border-border rounded-lg p-4"
+    >
+      <div className="flex items-center justify-between mb-2">
+        <span className="flex items-center gap-2 text-xs font-medium text-accent-cool">
+          <StickyNote size={14} aria-hidden="true" />
+          Your note
+        </span>
+        <button
+          type="button"
+          onClick={() => setIsPreviewing(!isPreviewing)}
+          aria-pressed={isPreviewing}
+          className={`px-2 py-1 bg-transparent border rounded text-xs cursor-pointer transition-colors ${
+            isPreviewing
+              ? "border-accent-dim text-accent-warm"
+              : "border-border text-text-muted hover:text-text-primary"
+          }`}
+        >
+          Preview
+        </button>
+      </div>
+      {isPreviewing ? (
+        <div className="min-h-24 px-3 py-2 bg-bg-primary border border-border rounded">
+          {draft.trim() ? (
+            <Markdown source={draft} className={noteStyles} />
+          ) : (
+            <p className="text-sm text-text-muted italic">Nothing to preview</p>
+          )}
+        </div>
+      ) : (
+        <textarea
+          value={draft}
+          onChange={(event) => setDraft(event.target.value)}
+          aria-label="Note"
+          placeholder="Write a note in Markdown…"
+          rows={4}
+          autoFocus
+          className="block w-full min-h-24 px-3 py-2 bg-bg-primary border border-border rounded text-sm text-text-primary font-mono resize-y focus:outline-none focus:border-accent-dim"
+        />
+      )}
+      <div className="flex flex-wrap items-center justify-between gap-2 mt-2">
+        <span className="text-xs text-text-muted">
+          Supports **bold**, *italic*, `code`, links and lists. Save an empty note to delete it.
+        </span>
+        <div className="flex gap-2">
+          <button
+            type="button"
+            onClick={onCancel}
+            className="px-3 py-1.5 bg-transparent border border-border rounded text-xs text-text-secondary cursor-pointer transition-colors hover:bg-bg-tertiary hover:text-text-primary"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            aria-keyshortcuts="Control+Enter Meta+Enter"
+            className="px-3 py-1.5 bg-accent-warm border-0 rounded text-xs text-bg-primary cursor-pointer transition-opacity hover:opacity-90"
+          >
+            Save note
+          </button>
+        </div>
+      </div>
+    </form>
+  );
+}
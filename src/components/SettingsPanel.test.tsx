@@ -0,0 +1,131 @@
+import { act, screen, cleanup, within } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { afterEach, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import App from "../App";
+import { renderWithProviders } from "../test-utils";
+
+beforeAll(async () => {
+  await import("./LessonView");
+});
+
+afterEach(() => {
+  cleanup();
+  localStorage.clear();
+  document.documentElement.className = "";
+});
+
+async function renderApp(path = "/lessons/state") {
+  // Lesson routes suspend on first render; an awaited act lets React retry
+  return act(async () => renderWithProviders(<App />, { route: path }));
+}
+
+async function openSettings(user: ReturnType<typeof userEvent.setup>) {
+  await user.click(screen.getByRole("button", { name: "Reading settings" }));
+  return screen.getByRole("dialog", { name: "Reading settings" });
+}
+
+function firstCodeBlock() {
+  return document.querySelector("pre.prism-code")!;
+}
+
+beforeEach(() => {
+  Object.defineProperty(window, "matchMedia", {
+    writable: true,
+    value: vi.fn().mockImplementation((query: string) => ({
+      matches: false,
+      media: query,
+      onchange: null,
+      addListener: vi.fn(),
+      removeListener: vi.fn(),
+      addEventListener: vi.fn(),
+      removeEventListener: vi.fn(),
+      dispatchEvent: vi.fn(),
+    })),
+  });
+});
+
+describe("Reading settings", () => {
+  it("opens from the sidebar and closes on Escape", async () => {
+    const user = userEvent.setup();
+    await renderApp();
+
+    const dialog = await openSettings(user);
+    expect(within(dialog).getByRole("button", { name: "Close settings" })).toHaveFocus();
+
+    await user.keyboard("{Escape}");
+
+    expect(screen.queryByRole("dialog")).not.toBeInTheDocument();
+  });
+
+  it("wraps code and hides line numbers", async () => {
+    const user = userEvent.setup();
+    await renderApp();
+    const lineNumbers = () =>
+      firstCodeBlock().querySelectorAll(":scope > div > .select-none:not(.sr-only)");
+    expect(firstCodeBlock()).toHaveClass("overflow-auto");
+    expect(lineNumbers().length).toBeGreaterThan(0);
+
+    const dialog = await openSettings(user);
+    await user.click(within(dialog).getByRole("checkbox", { name: "Wrap long lines of code" }));
+    await user.click(within(dialog).getByRole("checkbox", { name: "Show line numbers" }));
+
+    expect(firstCodeBlock()).toHaveClass("whitespace-pre-wrap");
+    expect(firstCodeBlock()).not.toHaveClass("overflow-auto");
+    expect(lineNumbers()).toHaveLength(0);
+  });
+
+  it("sizes the lesson text and the code separately", async () => {
+    const user = userEvent.setup();
+    await renderApp();
+    const explanation = document.querySelector("section .leading-relaxed")!;
+
+    const dialog = await openSettings(user);
+    await user.click(
+      within(within(dialog).getByRole("group", { name: "Content text size" })).getByRole("button", {
+        name: "Large",
+      }),
+    );
+    await user.click(
+      within(within(dialog).getByRole("group", { name: "Code text size" })).getByRole("button", {
+        name: "Small",
+      }),
+    );
+
+    expect(explanation).toHaveClass("text-[1.0625rem]");
+    expect(firstCodeBlock()).toHaveClass("text-xs");
+    expect(firstCodeBlock()).not.toHaveClass("sm:text-sm");
+  });
+
+  it("reduces motion and remembers every choice", async () => {
+    const user = userEvent.setup();
+    await renderApp();
+
+    const dialog = await openSettings(user);
+    await user.click(within(dialog).getByRole("checkbox", { name: "Reduce motion" }));
+
+    expect(document.documentElement).toHaveClass("reduce-motion");
+    expect(JSON.parse(localStorage.getItem("preferences")!)).toMatchObject({
+      reduceMotion: true,
+      wrapLines: false,
+      showLineNumbers: true,
+    });
+  });
+
+  it("restores stored settings", async () => {
+    localStorage.setItem(
+      "preferences",
+      JSON.stringify({ wrapLines: true, codeFontSize: "huge", reduceMotion: "yes" }),
+    );
+    const user = userEvent.setup();
+    await renderApp();
+
+    expect(firstCodeBlock()).toHaveClass("whitespace-pre-wrap");
+    expect(document.documentElement).not.toHaveClass("reduce-motion");
+    const dialog = await openSettings(user);
+    const codeSize = within(dialog).getByRole("group", { name: "Code text size" });
+    expect(within(codeSize).getByRole("button", { name: "Medium" })).toHaveAttribute(
+      "aria-pressed",
+      "true",
+    );
+  });
+});
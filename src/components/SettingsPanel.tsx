@@ -0,0 +1,118 @@
+import { useEffect, useRef } from "react";
+import type { KeyboardEvent, ReactNode } from "react";
+import { X } from "lucide-react";
+import { CodeThemePicker } from "./CodeThemePicker";
+import { FONT_SIZES, usePreferences, type FontSize } from "../context/PreferencesContext";
+
+const FONT_SIZE_LABELS: Record<FontSize, string> = {
+  small: "Small",
+  medium: "Medium",
+  large: "Large",
+};
+
+type FontSizeKey = "contentFontSize" | "codeFontSize";
+type ToggleKey = "wrapLines" | "showLineNumbers" | "reduceMotion";
+
+interface SettingsPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+/** Reading preferences: text sizes, how code is shown, and motion */
+export function SettingsPanel({ isOpen, onClose }: SettingsPanelProps) {
+  const closeRef = useRef<HTMLButtonElement>(null);
+
+  useEffect(() => {
+    if (isOpen) closeRef.current?.focus();
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const handleKeyDown = (event: KeyboardEvent) => {
+    if (event.key === "Escape") {
+      event.preventDefault();
+      onClose();
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-60 flex items-start justify-center p-4 pt-[10vh]">
+      <div className="absolute inset-0 bg-black/50" onClick={onClose} aria-hidden="true" />
+      <div
+        className="relative w-full max-w-sm bg-bg-secondary border border-border rounded-lg shadow-2xl"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="settings-heading"
+        onKeyDown={handleKeyDown}
+      >
+        <div className="flex items-center justify-between px-4 py-3 border-b border-border">
+          <h2 id="settings-heading" className="text-sm font-medium text-text-primary">
+            Reading settings
+          </h2>
+          <button
+            ref={closeRef}
+            onClick={onClose}
+            aria-label="Close settings"
+            className="p-1 rounded text-text-muted bg-transparent border-0 cursor-pointer transition-colors hover:text-text-primary"
+          >
+            <X size={16} aria-hidden="true" />
+          </button>
+        </div>
+
+        <div className="px-4 py-4 space-y-4">
+          <FontSizeSetting label="Content text size" preference="contentFontSize" />
+          <FontSizeSetting label="Code text size" preference="codeFontSize" />
+          <CodeThemePicker />
+          <div className="space-y-2 pt-3 border-t border-border">
+            <ToggleSetting preference="wrapLines">Wrap long lines of code</ToggleSetting>
+            <ToggleSetting preference="showLineNumbers">Show line numbers</ToggleSetting>
+            <ToggleSetting preference="reduceMotion">Reduce motion</ToggleSetting>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function FontSizeSetting({ label, preference }: { label: string; preference: FontSizeKey }) {
+  const preferences = usePreferences();
+  const current = preferences[preference];
+
+  return (
+    <div className="flex items-center justify-between gap-3 text-xs text-text-secondary">
+      <span id={`${preference}-label`}>{label}</span>
+      <div className="flex gap-1" role="group" aria-labelledby={`${preference}-label`}>
+        {FONT_SIZES.map((size) => (
+          <button
+            key={size}
+            onClick={() => preferences.setPreference(preference, size)}
+            aria-pressed={current === size}
+            className={`px-2 py-1 text-xs rounded border cursor-pointer transition-colors ${
+              current === size
+                ? "bg-bg-tertiary border-border text-text-primary"
+                : "bg-transparent border-transparent text-text-muted hover:text-text-primary"
+            }`}
+          >
+            {FONT_SIZE_LABELS[size]}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function ToggleSetting({ preference, children }: { preference: ToggleKey; children: ReactNode }) {
+  const preferences = usePreferences();
+
+  return (
+    <label className="flex items-center gap-2 text-xs text-text-secondary cursor-pointer">
+      <input
+        type="checkbox"
+        checked={preferences[preference]}
+        onChange={(event) => preferences.setPreference(preference, event.target.checked)}
+        className="accent-accent-warm"
+      />
+      {children}
+    </label>
+  );
+}
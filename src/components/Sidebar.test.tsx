@@ -0,0 +1,102 @@
+import { screen, cleanup } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { useNavigate } from "react-router-dom";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { Sidebar } from "./Sidebar";
+import { mockScrollIntoView, renderWithProviders } from "../test-utils";
+
+afterEach(() => {
+  cleanup();
+  localStorage.clear();
+  vi.restoreAllMocks();
+});
+
+function GoTo({ path }: { path: string }) {
+  const navigate = useNavigate();
+  return <button onClick={() => navigate(path)}>Go to {path}</button>;
+}
+
+function renderSidebar(initialEntry = "/") {
+  return renderWithProviders(
+    <>
+      <Sidebar isOpen={false} onClose={vi.fn()} />
+      <GoTo path="/lessons/closures" />
+    </>,
+    { route: initialEntry },
+  );
+}
+
+describe("Sidebar module tabs", () => {
+  beforeEach(() => {
+    Object.defineProperty(window, "matchMedia", {
+      writable: true,
+      value: vi.fn().mockImplementation((query: string) => ({
+        matches: false,
+        media: query,
+        onchange: null,
+        addListener: vi.fn(),
+        removeListener: vi.fn(),
+        addEventListener: vi.fn(),
+        removeEventListener: vi.fn(),
+        dispatchEvent: vi.fn(),
+      })),
+    });
+    mockScrollIntoView();
+  });
+
+  it("selects the module of a lesson opened directly", () => {
+    renderSidebar("/lessons/navigation");
+
+    expect(screen.getByRole("tab", { name: "SwiftUI" })).toHaveAttribute("aria-selected", "true");
+    expect(screen.getByRole("link", { current: "page" })).toHaveAttribute(
+      "href",
+      "/lessons/navigation",
+    );
+  });
+
+  it("scrolls the active lesson into view", () => {
+    renderSidebar("/lessons/accessibility");
+
+    const activeCard = screen.getByRole("link", { current: "page" });
+    expect(vi.mocked(Element.prototype.scrollIntoView).mock.contexts).toContain(activeCard);
+  });
+
+  it("follows navigation into the other module", async () => {
+    const user = userEvent.setup();
+    renderSidebar("/lessons/navigation");
+
+    await user.click(screen.getByRole("button", { name: "Go to /lessons/closures" }));
+
+    expect(screen.getByRole("tab", { name: "Swift Basics" })).toHaveAttribute(
+      "aria-selected",
+      "true",
+    );
+    expect(screen.getByRole("link", { current: "page" })).toHaveAttribute(
+      "href",
+      "/lessons/closures",
+    );
+  });
+
+  it("lets the user browse the other module while a lesson is open", async () => {
+    const user = userEvent.setup();
+    renderSidebar("/lessons/navigation");
+
+    await user.click(screen.getByRole("tab", { name: "Swift Basics" }));
+
+    expect(screen.getByRole("tab", { name: "Swift Basics" })).toHaveAttribute(
+      "aria-selected",
+      "true",
+    );
+  });
+
+  it("restores the last selected tab after a reload", async () => {
+    const user = userEvent.setup();
+    const { unmount } = renderSidebar();
+
+    await user.click(screen.getByRole("tab", { name: "SwiftUI" }));
+    unmount();
+    renderSidebar();
+
+    expect(screen.getByRole("tab", { name: "SwiftUI" })).toHaveAttribute("aria-selected", "true");
+  });
+});
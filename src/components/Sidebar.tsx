@@ -1,34 +1,76 @@
-import { useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import { Link, useLocation } from "react-router-dom";
+import { Bookmark, GalleryVerticalEnd, Search, Settings, TableProperties } from "lucide-react";
 import { LessonCard } from "./LessonCard";
 import { ThemeToggle } from "./ThemeToggle";
-import { getCategoriesForModule, getLessonsByModule } from "../data/lessons";
+import { OfflineIndicator } from "./OfflineIndicator";
+import { useProgress } from "../context/ProgressContext";
+import { useReview } from "../context/ReviewContext";
+import { useHydrated } from "../lib/use-hydrated";
+import { getCategoriesForModule, getLessonById, getLessonsByModule } from "../data/lessons";
+import { MODULE_LABELS } from "../constants";
 
 const MODULE_TABS = [
-  { id: "swift-basics", label: "Swift Basics" },
-  { id: "swiftui", label: "SwiftUI" },
+  { id: "swift-basics", label: MODULE_LABELS["swift-basics"] },
+  { id: "swiftui", label: MODULE_LABELS.swiftui },
 ] as const;
 
 type ModuleId = (typeof MODULE_TABS)[number]["id"];
 
+const STORAGE_KEY = "sidebarModule";
+const DEFAULT_MODULE: ModuleId = "swift-basics";
+
+function getStoredModule(): ModuleId {
+  if (typeof window === "undefined") return DEFAULT_MODULE;
+  const stored = localStorage.getItem(STORAGE_KEY);
+  return MODULE_TABS.find((tab) => tab.id === stored)?.id ?? DEFAULT_MODULE;
+}
+
 interface SidebarProps {
   isOpen: boolean;
   onClose: () => void;
+  onOpenSearch?: () => void;
+  onOpenSettings?: () => void;
 }
 
-export function Sidebar({ isOpen, onClose }: SidebarProps) {
+export function Sidebar({ isOpen, onClose, onOpenSearch, onOpenSettings }: SidebarProps) {
   const location = useLocation();
   const activeLessonId = location.pathname.match(/^\/lessons\/([^/?]+)/)?.[1] ?? null;
-  const [activeModule, setActiveModule] = useState<ModuleId>("swift-basics");
+  const activeLessonModule = activeLessonId ? getLessonById(activeLessonId)?.module : undefined;
+  const [selectedModule, setSelectedModule] = useState<ModuleId>(
+    () => activeLessonModule ?? getStoredModule(),
+  );
+  // The prerendered HTML can't know the stored tab
+  const activeModule = useHydrated() ? selectedModule : (activeLessonModule ?? DEFAULT_MODULE);
+  const asideRef = useRef<HTMLElement>(null);
+
+  // Opening a lesson (directly, via search or previous/next) selects its tab.
+  // The user can still switch tabs to browse while the lesson stays open.
+  useEffect(() => {
+    if (activeLessonModule) setSelectedModule(activeLessonModule);
+  }, [activeLessonId, activeLessonModule]);
+
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEY, selectedModule);
+  }, [selectedModule]);
+
+  // Keep the active lesson visible in long module lists
+  useEffect(() => {
+    const activeCard = asideRef.current?.querySelector('[aria-current="page"]');
+    activeCard?.scrollIntoView?.({ block: "nearest" });
+  }, [activeLessonId, activeModule]);
 
   const moduleLessons = getLessonsByModule(activeModule);
   const moduleCategories = getCategoriesForModule(activeModule);
+  const { isLessonCompleted } = useProgress();
+  const dueCount = useReview().dueCardIds.length;
 
   return (
     <aside
+      ref={asideRef}
       className={`w-70 bg-bg-secondary border-r border-border flex flex-col fixed h-screen overflow-y-auto
         transform transition-transform duration-300 ease-in-out z-50
-        ${isOpen ? "translate-x-0" : "-translate-x-full"} lg:translate-x-0`}
+        ${isOpen ? "translate-x-0" : "-translate-x-full"} lg:translate-x-0 print:hidden`}
       role="navigation"
       aria-label="Lesson navigation"
     >
@@ -41,6 +83,18 @@ export function Sidebar({ isOpen, onClose }: SidebarProps) {
             Learn SwiftUI using concepts you already know
           </p>
         </Link>
+        {onOpenSearch && (
+          <button
+            onClick={onOpenSearch}
+            className="mt-4 w-full flex items-center gap-2 px-3 py-2 bg-bg-primary border border-border rounded text-xs text-text-muted cursor-pointer transition-colors hover:text-text-secondary hover:border-accent-dim"
+            aria-label="Search lessons"
+            aria-keyshortcuts="Control+K Meta+K"
+          >
+            <Search size={14} aria-hidden="true" />
+            <span className="flex-1 text-left">Search…</span>
+            <kbd className="font-mono text-[0.6875rem]">⌘K</kbd>
+          </button>
+        )}
       </div>
 
       <div className="flex border-b border-border" role="tablist" aria-label="Module selection">
@@ -50,7 +104,7 @@ export function Sidebar({ isOpen, onClose }: SidebarProps) {
             role="tab"
             aria-selected={activeModule === tab.id}
             aria-controls={`${tab.id}-panel`}
-            onClick={() => setActiveModule(tab.id)}
+            onClick={() => setSelectedModule(tab.id)}
             className={`flex-1 py-3 px-4 text-xs font-medium transition-colors ${
               activeModule === tab.id
                 ? "bg-bg-tertiary text-accent-warm border-b-2 border-accent-warm"
@@ -71,14 +125,26 @@ export function Sidebar({ isOpen, onClose }: SidebarProps) {
         {moduleCategories.length === 0 ? (
           <p className="text-xs text-text-muted px-3 py-2 italic">No lessons yet</p>
         ) : (
-          moduleCategories.map((category) => (
-            <div key={category} className="mb-6">
-              <h2 className="text-xs font-semibold uppercase tracking-wide text-text-muted px-3 py-2">
-                {category}
-              </h2>
-              {moduleLessons
-                .filter((lesson) => lesson.category === category)
-                .map((lesson) => (
+          moduleCategories.map((category) => {
+            const categoryLessons = moduleLessons.filter((lesson) => lesson.category === category);
+            const completedCount = categoryLessons.filter((lesson) =>
+              isLessonCompleted(lesson.id),
+            ).length;
+
+            return (
+              <div key={category} className="mb-6">
+                <h2 className="flex items-center justify-between text-xs font-semibold uppercase tracking-wide text-text-muted px-3 py-2">
+                  {category}
+                  <span
+                    className={`font-normal tabular-nums ${
+                      completedCount === categoryLessons.length ? "text-accent-cool" : ""
+                    }`}
+                    aria-label={`${completedCount} of ${categoryLessons.length} lessons completed`}
+                  >
+                    {completedCount}/{categoryLessons.length}
+                  </span>
+                </h2>
+                {categoryLessons.map((lesson) => (
                   <LessonCard
                     key={lesson.id}
                     lesson={lesson}
@@ -86,12 +152,62 @@ export function Sidebar({ isOpen, onClose }: SidebarProps) {
                     onClick={onClose}
                   />
                 ))}
-            </div>
-          ))
+              </div>
+            );
+          })
         )}
       </nav>
 
       <div className="p-4 border-t border-border">
+        <Link
+          to="/review"
+          onClick={onClose}
+          className={`flex items-center gap-2 mb-3 text-xs no-underline transition-colors hover:text-text-primary ${
+            location.pathname === "/review" ? "text-accent-warm" : "text-text-secondary"
+          }`}
+        >
+          <GalleryVerticalEnd size={14} aria-hidden="true" />
+          Review
+          {dueCount > 0 && (
+            <span
+              className="ml-auto px-1.5 rounded-full bg-bg-tertiary text-accent-warm tabular-nums"
+              aria-label={`${dueCount} ${dueCount === 1 ? "card" : "cards"} due today`}
+              data-testid="review-due-count"
+            >
+              {dueCount}
+            </span>
+          )}
+        </Link>
+        <Link
+          to="/bookmarks"
+          onClick={onClose}
+          className={`flex items-center gap-2 mb-3 text-xs no-underline transition-colors hover:text-text-primary ${
+            location.pathname === "/bookmarks" ? "text-accent-warm" : "text-text-secondary"
+          }`}
+        >
+          <Bookmark size={14} aria-hidden="true" />
+          Bookmarks & notes
+        </Link>
+        <Link
+          to="/cheatsheet"
+          onClick={onClose}
+          className={`flex items-center gap-2 mb-3 text-xs no-underline transition-colors hover:text-text-primary ${
+            location.pathname === "/cheatsheet" ? "text-accent-warm" : "text-text-secondary"
+          }`}
+        >
+          <TableProperties size={14} aria-hidden="true" />
+          Cheat sheet
+        </Link>
+        {onOpenSettings && (
+          <button
+            onClick={onOpenSettings}
+            className="flex items-center gap-2 mb-3 p-0 bg-transparent border-0 text-xs text-text-secondary cursor-pointer transition-colors hover:text-text-primary"
+          >
+            <Settings size={14} aria-hidden="true" />
+            Reading settings
+          </button>
+        )}
+        <OfflineIndicator />
         <div className="flex items-center justify-between">
           <span className="text-xs text-text-muted">Made by Opus 4.5</span>
           <ThemeToggle />
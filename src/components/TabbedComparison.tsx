@@ -0,0 +1,168 @@
+import { useId, useLayoutEffect, useRef, useState } from "react";
+import type { KeyboardEvent } from "react";
+import { CodeBlock } from "./CodeBlock";
+import { counterpartLine, trimBlankLines } from "../lib/line-ranges";
+import type { CodeExample, LineLink } from "../types";
+
+type Pane = keyof LineLink;
+
+interface TabbedComparisonProps {
+  react: CodeExample;
+  swiftui: CodeExample;
+  links: LineLink[];
+  leftTitle: string;
+  rightTitle: string;
+}
+
+/** Where to put the new pane so the reader keeps their place */
+interface ScrollAnchor {
+  /** Line to keep at `top`, or null when the pane's top is still in view */
+  line: number | null;
+  top: number;
+  scrollLeft: number;
+}
+
+const SHORTCUTS: Record<Pane, string> = { react: "1", swiftui: "2" };
+
+function lineCount(code: string) {
+  return trimBlankLines(code).split("\n").length;
+}
+
+/**
+ * One block at a time behind React | SwiftUI tabs. Switching keeps the first
+ * visible line's counterpart (via `links`, else the same relative position)
+ * where that line was, and carries over the horizontal scroll.
+ */
+export function TabbedComparison({
+  react,
+  swiftui,
+  links,
+  leftTitle,
+  rightTitle,
+}: TabbedComparisonProps) {
+  const id = useId();
+  const [pane, setPane] = useState<Pane>("react");
+  const panelRef = useRef<HTMLDivElement>(null);
+  const tabRefs = useRef<Partial<Record<Pane, HTMLButtonElement | null>>>({});
+  const anchorRef = useRef<ScrollAnchor | null>(null);
+
+  const tabs = [
+    { pane: "react" as const, title: leftTitle },
+    { pane: "swiftui" as const, title: rightTitle },
+  ];
+
+  const switchTo = (next: Pane, { focus = false } = {}) => {
+    if (focus) tabRefs.current[next]?.focus();
+    if (next === pane) return;
+
+    const panel = panelRef.current;
+    const pre = panel?.querySelector("pre");
+    if (panel && pre) {
+      const lines = Array.from(pre.children);
+      const firstVisible = lines.findIndex((line) => line.getBoundingClientRect().bottom > 0);
+      const isScrolledInto = panel.getBoundingClientRect().top < 0 && firstVisible !== -1;
+      anchorRef.current = {
+        line: isScrolledInto
+          ? counterpartLine(firstVisible + 1, pane, links, {
+              react: lineCount(react.code),
+              swiftui: lineCount(swiftui.code),
+            })
+          : null,
+        top: isScrolledInto ? lines[firstVisible].getBoundingClientRect().top : 0,
+        scrollLeft: pre.scrollLeft,
+      };
+    }
+    setPane(next);
+  };
+
+  useLayoutEffect(() => {
+    const anchor = anchorRef.current;
+    anchorRef.current = null;
+    const pre = panelRef.current?.querySelector("pre");
+    if (!anchor || !pre) return;
+
+    pre.scrollLeft = anchor.scrollLeft;
+    const target = anchor.line === null ? null : pre.children[anchor.line - 1];
+    if (target) {
+      window.scrollBy(0, target.getBoundingClientRect().top - anchor.top);
+    }
+  }, [pane]);
+
+  const handleTabKeyDown = (event: KeyboardEvent) => {
+    const other: Pane = pane === "react" ? "swiftui" : "react";
+    const targets: Record<string, Pane> = {
+      ArrowLeft: other,
+      ArrowRight: other,
+      Home: "react",
+      End: "swiftui",
+    };
+    const target = targets[event.key];
+    if (target) {
+      event.preventDefault();
+      switchTo(target, { focus: true });
+    }
+  };
+
+  // 1 and 2 switch panes from anywhere inside the comparison
+  const handleKeyDown = (event: KeyboardEvent) => {
+    if (event.metaKey || event.ctrlKey || event.altKey) return;
+    const target = tabs.find((tab) => SHORTCUTS[tab.pane] === event.key);
+    if (target) switchTo(target.pane);
+  };
+
+  const example = pane === "react" ? react : swiftui;
+
+  return (
+    <div onKeyDown={handleKeyDown}>
+      <div
+        role="tablist"
+        aria-label="Code"
+        className="flex border border-b-0 border-border rounded-t-lg bg-bg-secondary overflow-hidden"
+        onKeyDown={handleTabKeyDown}
+      >
+        {tabs.map((tab) => {
+          const isSelected = tab.pane === pane;
+          return (
+            <button
+              key={tab.pane}
+              ref={(element) => {
+                tabRefs.current[tab.pane] = element;
+              }}
+              role="tab"
+              id={`${id}-${tab.pane}-tab`}
+              aria-selected={isSelected}
+              aria-controls={`${id}-panel`}
+              aria-keyshortcuts={SHORTCUTS[tab.pane]}
+              tabIndex={isSelected ? 0 : -1}
+              onClick={() => switchTo(tab.pane)}
+              className={`flex-1 flex items-center justify-center gap-2 py-2 px-4 text-xs font-medium border-0 cursor-pointer transition-colors ${
+                isSelected
+                  ? "bg-bg-tertiary text-accent-warm shadow-[inset_0_-2px_0_var(--color-accent-warm)]"
+                  : "bg-transparent text-text-muted hover:text-text-primary"
+              }`}
+            >
+              {tab.title}
+              <kbd className="hidden sm:inline font-mono text-[10px] text-text-muted">
+                {SHORTCUTS[tab.pane]}
+              </kbd>
+            </button>
+          );
+        })}
+      </div>
+      <div
+        ref={panelRef}
+        role="tabpanel"
+        id={`${id}-panel`}
+        aria-labelledby={`${id}-${pane}-tab`}
+        tabIndex={0}
+        className="[&>div]:rounded-t-none"
+      >
+        <CodeBlock
+          code={example.code}
+          language={pane === "react" ? "tsx" : "swift"}
+          highlights={example.highlights}
+        />
+      </div>
+    </div>
+  );
+}
@@ -1,14 +1,29 @@
-import { act, render, screen, cleanup } from "@testing-library/react";
+import { act, render, screen, cleanup, within } from "@testing-library/react";
 import userEvent from "@testing-library/user-event";
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 import { ThemeToggle } from "./ThemeToggle";
-import { ThemeProvider } from "../context/ThemeContext";
+import { COLOR_THEMES, ThemeProvider } from "../context/ThemeContext";
+import indexHtml from "../../index.html?raw";
 
 afterEach(() => {
   cleanup();
   localStorage.clear();
+  document.documentElement.className = "";
 });
 
+function renderToggle() {
+  return render(
+    <ThemeProvider>
+      <ThemeToggle />
+    </ThemeProvider>,
+  );
+}
+
+async function chooseTheme(user: ReturnType<typeof userEvent.setup>, name: string) {
+  await user.click(screen.getByRole("button", { name: "Theme" }));
+  await user.click(screen.getByRole("menuitemradio", { name }));
+}
+
 describe("ThemeToggle", () => {
   beforeEach(() => {
     // Mock matchMedia for system preference tests
@@ -27,38 +42,67 @@ describe("ThemeToggle", () => {
     });
   });
 
-  it("renders a button to toggle theme", () => {
-    render(
-      <ThemeProvider>
-        <ThemeToggle />
-      </ThemeProvider>,
-    );
+  it("opens a menu of themes with the current one checked", async () => {
+    const user = userEvent.setup();
+    renderToggle();
 
-    expect(screen.getByRole("button", { name: /toggle theme/i })).toBeInTheDocument();
-  });
+    await user.click(screen.getByRole("button", { name: "Theme" }));
 
-  it("toggles theme when clicked", async () => {
-    const user = userEvent.setup();
-    render(
-      <ThemeProvider>
-        <ThemeToggle />
-      </ThemeProvider>,
+    const menu = screen.getByRole("menu", { name: "Theme" });
+    expect(
+      within(menu)
+        .getAllByRole("menuitemradio")
+        .map((item) => item.textContent),
+    ).toEqual(["System", "Light", "Dark", "High contrast", "Sepia"]);
+    expect(within(menu).getByRole("menuitemradio", { name: "System" })).toHaveAttribute(
+      "aria-checked",
+      "true",
     );
+    expect(within(menu).getByRole("menuitemradio", { name: "System" })).toHaveFocus();
+  });
 
-    const button = screen.getByRole("button", { name: /toggle theme/i });
+  it("applies the chosen theme and closes the menu", async () => {
+    const user = userEvent.setup();
+    renderToggle();
 
     // Default should be dark (based on current app design)
     expect(document.documentElement.classList.contains("dark")).toBe(true);
 
-    await user.click(button);
+    await chooseTheme(user, "Light");
 
     expect(document.documentElement.classList.contains("dark")).toBe(false);
     expect(document.documentElement.classList.contains("light")).toBe(true);
+    expect(screen.queryByRole("menu")).not.toBeInTheDocument();
+    expect(screen.getByRole("button", { name: "Theme" })).toHaveFocus();
+
+    await chooseTheme(user, "High contrast");
+
+    expect(document.documentElement.className).toBe("high-contrast");
+
+    await chooseTheme(user, "Sepia");
+
+    expect(document.documentElement.className).toBe("sepia");
+  });
+
+  it("moves through the menu with the arrow keys and closes on Escape", async () => {
+    const user = userEvent.setup();
+    renderToggle();
 
-    await user.click(button);
+    await user.click(screen.getByRole("button", { name: "Theme" }));
+    await user.keyboard("{ArrowUp}");
+    expect(screen.getByRole("menuitemradio", { name: "Sepia" })).toHaveFocus();
+    await user.keyboard("{ArrowDown}{ArrowDown}");
+    expect(screen.getByRole("menuitemradio", { name: "Light" })).toHaveFocus();
 
+    await user.keyboard("{Escape}");
+
+    expect(screen.queryByRole("menu")).not.toBeInTheDocument();
     expect(document.documentElement.classList.contains("dark")).toBe(true);
-    expect(document.documentElement.classList.contains("light")).toBe(false);
+
+    await user.click(screen.getByRole("button", { name: "Theme" }));
+    await user.keyboard("{ArrowDown}{Enter}");
+
+    expect(document.documentElement.classList.contains("light")).toBe(true);
   });
 
   it("uses system preference when no user preference is stored", () => {
@@ -130,25 +174,18 @@ describe("ThemeToggle", () => {
     expect(document.documentElement.classList.contains("light")).toBe(true);
   });
 
-  it("persists user preference to localStorage", async () => {
+  it("persists the choice, and forgets it to follow the system again", async () => {
     const user = userEvent.setup();
-    render(
-      <ThemeProvider>
-        <ThemeToggle />
-      </ThemeProvider>,
-    );
+    renderToggle();
 
-    const button = screen.getByRole("button", { name: /toggle theme/i });
-
-    // Toggle to light
-    await user.click(button);
+    await chooseTheme(user, "Light");
 
     expect(localStorage.getItem("theme")).toBe("light");
 
-    // Toggle back to dark
-    await user.click(button);
+    await chooseTheme(user, "System");
 
-    expect(localStorage.getItem("theme")).toBe("dark");
+    expect(localStorage.getItem("theme")).toBeNull();
+    expect(document.documentElement.classList.contains("dark")).toBe(true);
   });
 
   it("uses stored preference over system preference", () => {
@@ -180,4 +217,50 @@ describe("ThemeToggle", () => {
     expect(document.documentElement.classList.contains("light")).toBe(true);
     expect(document.documentElement.classList.contains("dark")).toBe(false);
   });
+
+  it("prints in the light theme and switches back afterwards", () => {
+    localStorage.setItem("theme", "high-contrast");
+    renderToggle();
+
+    window.dispatchEvent(new Event("beforeprint"));
+    expect(document.documentElement.className).toBe("light");
+
+    window.dispatchEvent(new Event("afterprint"));
+    expect(document.documentElement.className).toBe("high-contrast");
+  });
+});
+
+describe("index.html theme script", () => {
+  // Runs before the app loads, so it can't share ThemeProvider's code
+  const script = indexHtml.match(/<script>([\s\S]*?)<\/script>/)![1];
+
+  beforeEach(() => {
+    Object.defineProperty(window, "matchMedia", {
+      writable: true,
+      value: vi.fn().mockImplementation((query: string) => ({
+        matches: query === "(prefers-color-scheme: light)",
+        media: query,
+        onchange: null,
+        addListener: vi.fn(),
+        removeListener: vi.fn(),
+        addEventListener: vi.fn(),
+        removeEventListener: vi.fn(),
+        dispatchEvent: vi.fn(),
+      })),
+    });
+  });
+
+  it.each([null, "system", "unknown", ...COLOR_THEMES])(
+    "applies the same theme as ThemeProvider when %s is stored",
+    (stored) => {
+      if (stored) localStorage.setItem("theme", stored);
+
+      new Function(script)();
+      const beforeFirstPaint = document.documentElement.className;
+      document.documentElement.className = "";
+      renderToggle();
+
+      expect(document.documentElement.className).toBe(beforeFirstPaint);
+    },
+  );
 });
@@ -1,38 +1,108 @@
-import { useTheme } from "../context/ThemeContext";
+import { useEffect, useRef, useState } from "react";
+import type { KeyboardEvent } from "react";
+import { Check, Contrast, Monitor, Moon, ScrollText, Sun } from "lucide-react";
+import type { LucideIcon } from "lucide-react";
+import { THEMES, useTheme, type Theme } from "../context/ThemeContext";
 
+const THEME_OPTIONS: Record<Theme, { label: string; icon: LucideIcon }> = {
+  system: { label: "System", icon: Monitor },
+  light: { label: "Light", icon: Sun },
+  dark: { label: "Dark", icon: Moon },
+  "high-contrast": { label: "High contrast", icon: Contrast },
+  sepia: { label: "Sepia", icon: ScrollText },
+};
+
+/** Menu button for the page theme; the menu opens upwards from the sidebar footer */
 export function ThemeToggle() {
-  const { theme, toggleTheme } = useTheme();
+  const { theme, setTheme } = useTheme();
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const buttonRef = useRef<HTMLButtonElement>(null);
+  const itemRefs = useRef<(HTMLButtonElement | null)[]>([]);
+  const CurrentIcon = THEME_OPTIONS[theme].icon;
+
+  // Focus the checked item on open, like a native menu
+  useEffect(() => {
+    if (isOpen) itemRefs.current[THEMES.indexOf(theme)]?.focus();
+  }, [isOpen, theme]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handlePointerDown = (event: PointerEvent) => {
+      if (!containerRef.current?.contains(event.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener("pointerdown", handlePointerDown);
+    return () => document.removeEventListener("pointerdown", handlePointerDown);
+  }, [isOpen]);
+
+  const close = () => {
+    setIsOpen(false);
+    buttonRef.current?.focus();
+  };
+
+  const choose = (next: Theme) => {
+    setTheme(next);
+    close();
+  };
+
+  const handleMenuKeyDown = (event: KeyboardEvent) => {
+    const items = itemRefs.current;
+    const index = items.indexOf(document.activeElement as HTMLButtonElement);
+    const focusAt = (i: number) => items[(i + items.length) % items.length]?.focus();
+
+    if (event.key === "ArrowDown") focusAt(index + 1);
+    else if (event.key === "ArrowUp") focusAt(index - 1);
+    else if (event.key === "Home") focusAt(0);
+    else if (event.key === "End") focusAt(items.length - 1);
+    else if (event.key === "Escape") close();
+    else if (event.key === "Tab") setIsOpen(false);
+    else return;
+    if (event.key !== "Tab") event.preventDefault();
+  };
 
   return (
-    <button
-      onClick={toggleTheme}
-      aria-label="Toggle theme"
-      title={theme === "dark" ? "Switch to light mode" : "Switch to dark mode"}
-      className="p-2 rounded-lg hover:bg-bg-tertiary transition-colors"
-    >
-      {theme === "dark" ? (
-        <svg
-          xmlns="http://www.w3.org/2000/svg"
-          viewBox="0 0 24 24"
-          fill="currentColor"
-          className="w-5 h-5 text-text-secondary"
-        >
-          <path d="M12 2.25a.75.75 0 01.75.75v2.25a.75.75 0 01-1.5 0V3a.75.75 0 01.75-.75zM7.5 12a4.5 4.5 0 119 0 4.5 4.5 0 01-9 0zM18.894 6.166a.75.75 0 00-1.06-1.06l-1.591 1.59a.75.75 0 101.06 1.061l1.591-1.59zM21.75 12a.75.75 0 01-.75.75h-2.25a.75.75 0 010-1.5H21a.75.75 0 01.75.75zM17.834 18.894a.75.75 0 001.06-1.06l-1.59-1.591a.75.75 0 10-1.061 1.06l1.59 1.591zM12 18a.75.75 0 01.75.75V21a.75.75 0 01-1.5 0v-2.25A.75.75 0 0112 18zM7.758 17.303a.75.75 0 00-1.061-1.06l-1.591 1.59a.75.75 0 001.06 1.061l1.591-1.59zM6 12a.75.75 0 01-.75.75H3a.75.75 0 010-1.5h2.25A.75.75 0 016 12zM6.697 7.757a.75.75 0 001.06-1.06l-1.59-1.591a.75.75 0 00-1.061 1.06l1.59 1.591z" />
-        </svg>
-      ) : (
-        <svg
-          xmlns="http://www.w3.org/2000/svg"
-          viewBox="0 0 24 24"
-          fill="currentColor"
-          className="w-5 h-5 text-text-secondary"
+    <div ref={containerRef} className="relative">
+      <button
+        ref={buttonRef}
+        onClick={() => setIsOpen((open) => !open)}
+        aria-label="Theme"
+        aria-haspopup="menu"
+        aria-expanded={isOpen}
+        title={`Theme: ${THEME_OPTIONS[theme].label}`}
+        className="p-2 rounded-lg text-text-secondary hover:bg-bg-tertiary transition-colors"
+      >
+        <CurrentIcon size={20} aria-hidden="true" />
+      </button>
+
+      {isOpen && (
+        <div
+          role="menu"
+          aria-label="Theme"
+          onKeyDown={handleMenuKeyDown}
+          className="absolute bottom-full right-0 mb-2 w-44 py-1 bg-bg-elevated border border-border rounded-lg shadow-lg z-10"
         >
-          <path
-            fillRule="evenodd"
-            d="M9.528 1.718a.75.75 0 01.162.819A8.97 8.97 0 009 6a9 9 0 009 9 8.97 8.97 0 003.463-.69.75.75 0 01.981.98 10.503 10.503 0 01-9.694 6.46c-5.799 0-10.5-4.701-10.5-10.5 0-4.368 2.667-8.112 6.46-9.694a.75.75 0 01.818.162z"
-            clipRule="evenodd"
-          />
-        </svg>
+          {THEMES.map((id, index) => {
+            const { label, icon: Icon } = THEME_OPTIONS[id];
+            return (
+              <button
+                key={id}
+                ref={(element) => {
+                  itemRefs.current[index] = element;
+                }}
+                role="menuitemradio"
+                aria-checked={theme === id}
+                tabIndex={-1}
+                onClick={() => choose(id)}
+                className="flex items-center gap-2 w-full px-3 py-1.5 bg-transparent border-0 text-left text-sm text-text-secondary cursor-pointer hover:bg-bg-tertiary hover:text-text-primary focus:bg-bg-tertiary focus:text-text-primary focus:outline-none"
+              >
+                <Icon size={14} aria-hidden="true" />
+                {label}
+                {theme === id && <Check size={14} className="ml-auto" aria-hidden="true" />}
+              </button>
+            );
+          })}
+        </div>
       )}
-    </button>
+    </div>
   );
 }
@@ -0,0 +1,14 @@
+import { CheckCircle2 } from "lucide-react";
+
+/** A short confirmation pinned to the bottom of the viewport; the owner decides when to hide it */
+export function Toast({ message }: { message: string }) {
+  return (
+    <div
+      role="status"
+      className="fixed bottom-6 left-1/2 -translate-x-1/2 z-50 flex items-center gap-2 px-4 py-2.5 rounded-lg bg-bg-elevated border border-border text-sm text-text-primary shadow-lg"
+    >
+      <CheckCircle2 size={16} className="text-accent-cool" aria-hidden="true" />
+      {message}
+    </div>
+  );
+}
@@ -1,11 +1,19 @@
+import { Link } from "react-router-dom";
 import { ArrowRight, Zap, RefreshCw, Layout } from "lucide-react";
 import { APP_TITLE } from "../constants";
+import { lessons } from "../data/lessons";
+import { featuredQuickReference } from "../data/quick-reference";
+import { useProgress } from "../context/ProgressContext";
 
 interface WelcomeProps {
   onGetStarted: () => void;
 }
 
 export function Welcome({ onGetStarted }: WelcomeProps) {
+  const { completedLessons, resetProgress } = useProgress();
+  const completedCount = lessons.filter((lesson) => completedLessons.includes(lesson.id)).length;
+  const percent = Math.round((completedCount / lessons.length) * 100);
+
   return (
     <div className="max-w-2xl mx-auto px-4 sm:px-6 lg:px-8 py-8 sm:py-12 lg:py-16">
       <header className="text-left mb-8 lg:mb-12 pb-6 lg:pb-8 border-b border-border">
@@ -20,11 +28,40 @@ export function Welcome({ onGetStarted }: WelcomeProps) {
           className="inline-flex items-center gap-2 px-5 py-2.5 text-[0.8125rem] font-medium bg-accent-warm text-bg-primary border-0 rounded cursor-pointer transition-all duration-150 hover:brightness-110"
           onClick={onGetStarted}
         >
-          Get Started
+          {completedCount > 0 ? "Continue Learning" : "Get Started"}
           <ArrowRight size={16} aria-hidden="true" />
         </button>
       </header>
 
+      {completedCount > 0 && (
+        <section className="mb-8 lg:mb-12" aria-labelledby="progress-heading">
+          <div className="flex items-baseline justify-between mb-2">
+            <h2 id="progress-heading" className="text-sm font-medium text-text-primary">
+              Your Progress
+            </h2>
+            <button
+              className="text-xs text-text-muted bg-transparent border-0 cursor-pointer hover:text-text-primary"
+              onClick={resetProgress}
+            >
+              Reset progress
+            </button>
+          </div>
+          <div
+            className="h-1.5 bg-bg-tertiary rounded-full overflow-hidden"
+            role="progressbar"
+            aria-label="Lessons completed"
+            aria-valuemin={0}
+            aria-valuemax={lessons.length}
+            aria-valuenow={completedCount}
+          >
+            <div className="h-full bg-accent-warm" style={{ width: `${percent}%` }} />
+          </div>
+          <p className="text-xs text-text-secondary mt-2">
+            {completedCount} of {lessons.length} lessons completed ({percent}%)
+          </p>
+        </section>
+      )}
+
       <section
         className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-8 lg:mb-12"
         aria-label="Key features"
@@ -73,9 +110,18 @@ export function Welcome({ onGetStarted }: WelcomeProps) {
         className="bg-bg-secondary border border-border rounded-lg p-6"
         aria-labelledby="quick-ref-heading"
       >
-        <h2 id="quick-ref-heading" className="text-sm font-medium mb-4 text-text-primary">
-          Quick Reference
-        </h2>
+        <div className="flex items-baseline justify-between mb-4">
+          <h2 id="quick-ref-heading" className="text-sm font-medium text-text-primary">
+            Quick Reference
+          </h2>
+          <Link
+            to="/cheatsheet"
+            className="inline-flex items-center gap-1 text-xs text-accent-warm no-underline hover:underline"
+          >
+            Full cheat sheet
+            <ArrowRight size={12} aria-hidden="true" />
+          </Link>
+        </div>
         <div className="overflow-x-auto">
           <table className="w-full border-collapse text-sm">
             <thead>
@@ -88,127 +134,21 @@ export function Welcome({ onGetStarted }: WelcomeProps) {
                 </th>
               </tr>
             </thead>
-            <tbody className="text-text-primary">
-              <tr>
-                <td className="py-2 px-3 border-b border-border">
-                  <code className="bg-bg-tertiary px-1.5 py-0.5 rounded text-xs font-mono">
-                    function Component()
-                  </code>
-                </td>
-                <td className="py-2 px-3 border-b border-border">
-                  <code className="bg-bg-tertiary px-1.5 py-0.5 rounded text-xs font-mono">
-                    struct View: View
-                  </code>
-                </td>
-              </tr>
-              <tr>
-                <td className="py-2 px-3 border-b border-border">
-                  <code className="bg-bg-tertiary px-1.5 py-0.5 rounded text-xs font-mono">
-                    useState()
-                  </code>
-                </td>
-                <td className="py-2 px-3 border-b border-border">
-                  <code className="bg-bg-tertiary px-1.5 py-0.5 rounded text-xs font-mono">
-                    @State
-                  </code>
-                </td>
-              </tr>
-              <tr>
-                <td className="py-2 px-3 border-b border-border">
-                  <code className="bg-bg-tertiary px-1.5 py-0.5 rounded text-xs font-mono">
-                    props
-                  </code>
-                </td>
-                <td className="py-2 px-3 border-b border-border">
-                  <code className="bg-bg-tertiary px-1.5 py-0.5 rounded text-xs font-mono">
-                    let properties
-                  </code>
-                </td>
-              </tr>
-              <tr>
-                <td className="py-2 px-3 border-b border-border">
-                  <code className="bg-bg-tertiary px-1.5 py-0.5 rounded text-xs font-mono">
-                    useContext()
-                  </code>
-                </td>
-                <td className="py-2 px-3 border-b border-border">
-                  <code className="bg-bg-tertiary px-1.5 py-0.5 rounded text-xs font-mono">
-                    @Environment
-                  </code>
-                </td>
-              </tr>
-              <tr>
-                <td className="py-2 px-3 border-b border-border">
-                  <code className="bg-bg-tertiary px-1.5 py-0.5 rounded text-xs font-mono">
-                    useEffect()
-                  </code>
-                </td>
-                <td className="py-2 px-3 border-b border-border">
-                  <code className="bg-bg-tertiary px-1.5 py-0.5 rounded text-xs font-mono">
-                    .task / .onAppear
-                  </code>
-                </td>
-              </tr>
-              <tr>
-                <td className="py-2 px-3 border-b border-border">
-                  <code className="bg-bg-tertiary px-1.5 py-0.5 rounded text-xs font-mono">
-                    &lt;div&gt;
-                  </code>
-                </td>
-                <td className="py-2 px-3 border-b border-border">
-                  <code className="bg-bg-tertiary px-1.5 py-0.5 rounded text-xs font-mono">
-                    VStack / HStack
-                  </code>
-                </td>
-              </tr>
-              <tr>
-                <td className="py-2 px-3 border-b border-border">
-                  <code className="bg-bg-tertiary px-1.5 py-0.5 rounded text-xs font-mono">
-                    className="..."
-                  </code>
-                </td>
-                <td className="py-2 px-3 border-b border-border">
-                  <code className="bg-bg-tertiary px-1.5 py-0.5 rounded text-xs font-mono">
-                    .modifier()
-                  </code>
-                </td>
-              </tr>
-              <tr>
-                <td className="py-2 px-3 border-b border-border">
-                  <code className="bg-bg-tertiary px-1.5 py-0.5 rounded text-xs font-mono">
-                    .map()
-                  </code>
-                </td>
-                <td className="py-2 px-3 border-b border-border">
-                  <code className="bg-bg-tertiary px-1.5 py-0.5 rounded text-xs font-mono">
-                    ForEach
-                  </code>
-                </td>
-              </tr>
-              <tr>
-                <td className="py-2 px-3 border-b border-border">
-                  <code className="bg-bg-tertiary px-1.5 py-0.5 rounded text-xs font-mono">
-                    {"key={id}"}
-                  </code>
-                </td>
-                <td className="py-2 px-3 border-b border-border">
-                  <code className="bg-bg-tertiary px-1.5 py-0.5 rounded text-xs font-mono">
-                    Identifiable
-                  </code>
-                </td>
-              </tr>
-              <tr>
-                <td className="py-2 px-3">
-                  <code className="bg-bg-tertiary px-1.5 py-0.5 rounded text-xs font-mono">
-                    {"onChange={(e) => ..."}
-                  </code>
-                </td>
-                <td className="py-2 px-3">
-                  <code className="bg-bg-tertiary px-1.5 py-0.5 rounded text-xs font-mono">
-                    $binding
-                  </code>
-                </td>
-              </tr>
+            <tbody className="text-text-primary [&_tr:last-child_td]:border-b-0">
+              {featuredQuickReference.map((entry) => (
+                <tr key={entry.react}>
+                  <td className="py-2 px-3 border-b border-border">
+                    <code className="bg-bg-tertiary px-1.5 py-0.5 rounded text-xs font-mono">
+                      {entry.react}
+                    </code>
+                  </td>
+                  <td className="py-2 px-3 border-b border-border">
+                    <code className="bg-bg-tertiary px-1.5 py-0.5 rounded text-xs font-mono">
+                      {entry.swiftui}
+                    </code>
+                  </td>
+                </tr>
+              ))}
             </tbody>
           </table>
         </div>
@@ -1,2 +1,9 @@
 export const APP_TITLE = "SwiftUI for React Developers";
 export const APP_TITLE_SHORT = "SwiftUI for React Devs";
+export const APP_DESCRIPTION =
+  "Learn SwiftUI fast by mapping it to React concepts you already know. Interactive side-by-side code comparisons.";
+
+export const MODULE_LABELS = {
+  "swift-basics": "Swift Basics",
+  swiftui: "SwiftUI",
+} as const;
@@ -0,0 +1,24 @@
+import type { ReactNode } from "react";
+import { ThemeProvider } from "./ThemeContext";
+import { PreferencesProvider } from "./PreferencesContext";
+import { ProgressProvider } from "./ProgressContext";
+import { BookmarksProvider } from "./BookmarksContext";
+import { ReviewProvider } from "./ReviewContext";
+
+/**
+ * Every app-wide context, shared by the client and prerender entries and the
+ * tests. Later providers may read earlier ones (review reads progress).
+ */
+export function AppProviders({ children }: { children: ReactNode }) {
+  return (
+    <ThemeProvider>
+      <PreferencesProvider>
+        <ProgressProvider>
+          <BookmarksProvider>
+            <ReviewProvider>{children}</ReviewProvider>
+          </BookmarksProvider>
+        </ProgressProvider>
+      </PreferencesProvider>
+    </ThemeProvider>
+  );
+}
@@ -0,0 +1,92 @@
+import { createContext, useContext, useState, useEffect } from "react";
+import type { ReactNode } from "react";
+import { useHydrated } from "../lib/use-hydrated";
+import {
+  isEmptySection,
+  mergeSavedSections,
+  readSavedSections,
+  sectionKey,
+} from "../lib/saved-sections";
+import type { SavedSection, SavedSections } from "../lib/saved-sections";
+
+interface BookmarksContextValue {
+  /** Every bookmarked or annotated section, keyed by `sectionKey` */
+  sections: SavedSections;
+  isBookmarked: (lessonId: string, anchor: string) => boolean;
+  toggleBookmark: (lessonId: string, anchor: string) => void;
+  getNote: (lessonId: string, anchor: string) => string;
+  /** Saves a section's note; an empty note removes it */
+  setNote: (lessonId: string, anchor: string, note: string) => void;
+  /** Merges imported sections in, keeping whichever copy changed last */
+  importSections: (sections: SavedSections) => void;
+}
+
+const BookmarksContext = createContext<BookmarksContextValue | undefined>(undefined);
+const STORAGE_KEY = "bookmarks";
+
+const NO_SECTIONS: SavedSections = {};
+
+function getStoredSections(): SavedSections {
+  if (typeof window === "undefined") return NO_SECTIONS;
+  try {
+    return readSavedSections(JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "null"));
+  } catch {
+    // Corrupt entry - start over rather than crash
+    return NO_SECTIONS;
+  }
+}
+
+export function BookmarksProvider({ children }: { children: ReactNode }) {
+  const [storedSections, setSections] = useState<SavedSections>(getStoredSections);
+  // The prerendered HTML shows nothing saved; bookmarks and notes appear once hydrated
+  const sections = useHydrated() ? storedSections : NO_SECTIONS;
+
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(storedSections));
+  }, [storedSections]);
+
+  const updateSection = (
+    lessonId: string,
+    anchor: string,
+    update: (section: SavedSection) => Partial<SavedSection>,
+  ) => {
+    const key = sectionKey(lessonId, anchor);
+    setSections((prev) => {
+      const current = prev[key] ?? { bookmarked: false, note: "", updatedAt: "" };
+      const next = { ...current, ...update(current), updatedAt: new Date().toISOString() };
+      const { [key]: _removed, ...others } = prev;
+      return isEmptySection(next) ? others : { ...prev, [key]: next };
+    });
+  };
+
+  const isBookmarked = (lessonId: string, anchor: string) =>
+    sections[sectionKey(lessonId, anchor)]?.bookmarked ?? false;
+
+  const toggleBookmark = (lessonId: string, anchor: string) =>
+    updateSection(lessonId, anchor, (section) => ({ bookmarked: !section.bookmarked }));
+
+  const getNote = (lessonId: string, anchor: string) =>
+    sections[sectionKey(lessonId, anchor)]?.note ?? "";
+
+  const setNote = (lessonId: string, anchor: string, note: string) =>
+    updateSection(lessonId, anchor, () => ({ note: note.trim() === "" ? "" : note }));
+
+  const importSections = (incoming: SavedSections) =>
+    setSections((prev) => mergeSavedSections(prev, incoming));
+
+  return (
+    <BookmarksContext.Provider
+      value={{ sections, isBookmarked, toggleBookmark, getNote, setNote, importSections }}
+    >
+      {children}
+    </BookmarksContext.Provider>
+  );
+}
+
+export function useBookmarks() {
+  const context = useContext(BookmarksContext);
+  if (!context) {
+    throw new Error("useBookmarks must be used within BookmarksProvider");
+  }
+  return context;
+}
@@ -0,0 +1,114 @@
+import { createContext, useContext, useState, useEffect } from "react";
+import type { ReactNode } from "react";
+import { useHydrated } from "../lib/use-hydrated";
+import { CODE_THEME_PREFERENCES, type CodeThemePreference } from "../lib/code-themes";
+
+export const COMPARISON_LAYOUTS = ["side-by-side", "stacked", "tabbed", "mapped"] as const;
+
+export type ComparisonLayout = (typeof COMPARISON_LAYOUTS)[number];
+
+export const FONT_SIZES = ["small", "medium", "large"] as const;
+
+export type FontSize = (typeof FONT_SIZES)[number];
+
+interface Preferences {
+  /** How `CodeComparison` arranges the React and SwiftUI blocks */
+  comparisonLayout: ComparisonLayout;
+  /** Syntax highlighting theme, independent of the page theme unless `"auto"` */
+  codeTheme: CodeThemePreference;
+  /** Size of the lesson prose */
+  contentFontSize: FontSize;
+  codeFontSize: FontSize;
+  /** Wrap long lines in code blocks instead of scrolling sideways */
+  wrapLines: boolean;
+  showLineNumbers: boolean;
+  /** Turn off transitions and animations, whatever the OS setting */
+  reduceMotion: boolean;
+}
+
+interface PreferencesContextValue extends Preferences {
+  setPreference: <K extends keyof Preferences>(key: K, value: Preferences[K]) => void;
+}
+
+const PreferencesContext = createContext<PreferencesContextValue | undefined>(undefined);
+const STORAGE_KEY = "preferences";
+
+const DEFAULT_PREFERENCES: Preferences = {
+  comparisonLayout: "side-by-side",
+  codeTheme: "auto",
+  contentFontSize: "medium",
+  codeFontSize: "medium",
+  wrapLines: false,
+  showLineNumbers: true,
+  reduceMotion: false,
+};
+
+function oneOf<T>(options: readonly T[], value: unknown, fallback: T): T {
+  return options.includes(value as T) ? (value as T) : fallback;
+}
+
+function boolean(value: unknown, fallback: boolean) {
+  return typeof value === "boolean" ? value : fallback;
+}
+
+function getStoredPreferences(): Preferences {
+  if (typeof window === "undefined") return DEFAULT_PREFERENCES;
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "null");
+    if (stored && typeof stored === "object") {
+      return {
+        comparisonLayout: oneOf(
+          COMPARISON_LAYOUTS,
+          stored.comparisonLayout,
+          DEFAULT_PREFERENCES.comparisonLayout,
+        ),
+        codeTheme: oneOf(CODE_THEME_PREFERENCES, stored.codeTheme, DEFAULT_PREFERENCES.codeTheme),
+        contentFontSize: oneOf(
+          FONT_SIZES,
+          stored.contentFontSize,
+          DEFAULT_PREFERENCES.contentFontSize,
+        ),
+        codeFontSize: oneOf(FONT_SIZES, stored.codeFontSize, DEFAULT_PREFERENCES.codeFontSize),
+        wrapLines: boolean(stored.wrapLines, DEFAULT_PREFERENCES.wrapLines),
+        showLineNumbers: boolean(stored.showLineNumbers, DEFAULT_PREFERENCES.showLineNumbers),
+        reduceMotion: boolean(stored.reduceMotion, DEFAULT_PREFERENCES.reduceMotion),
+      };
+    }
+  } catch {
+    // Corrupt entry - fall back to the defaults
+  }
+  return DEFAULT_PREFERENCES;
+}
+
+export function PreferencesProvider({ children }: { children: ReactNode }) {
+  const [storedPreferences, setPreferences] = useState<Preferences>(getStoredPreferences);
+  // The prerendered HTML uses the defaults; stored preferences apply once hydrated
+  const preferences = useHydrated() ? storedPreferences : DEFAULT_PREFERENCES;
+
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(storedPreferences));
+  }, [storedPreferences]);
+
+  // index.css turns transitions and animations off under this class
+  useEffect(() => {
+    document.documentElement.classList.toggle("reduce-motion", preferences.reduceMotion);
+  }, [preferences.reduceMotion]);
+
+  const setPreference = <K extends keyof Preferences>(key: K, value: Preferences[K]) => {
+    setPreferences((prev) => ({ ...prev, [key]: value }));
+  };
+
+  return (
+    <PreferencesContext.Provider value={{ ...preferences, setPreference }}>
+      {children}
+    </PreferencesContext.Provider>
+  );
+}
+
+export function usePreferences() {
+  const context = useContext(PreferencesContext);
+  if (!context) {
+    throw new Error("usePreferences must be used within PreferencesProvider");
+  }
+  return context;
+}
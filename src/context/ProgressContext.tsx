@@ -0,0 +1,118 @@
+import { createContext, useContext, useState, useEffect } from "react";
+import type { ReactNode } from "react";
+import { useHydrated } from "../lib/use-hydrated";
+
+interface Progress {
+  /** Indices of the sections seen so far, keyed by lesson id */
+  viewedSections: Record<string, number[]>;
+  completedLessons: string[];
+}
+
+interface ProgressContextValue extends Progress {
+  markSectionViewed: (lessonId: string, sectionIndex: number, sectionCount: number) => void;
+  setLessonCompleted: (lessonId: string, completed: boolean) => void;
+  isLessonCompleted: (lessonId: string) => boolean;
+  getViewedCount: (lessonId: string) => number;
+  resetProgress: () => void;
+}
+
+const ProgressContext = createContext<ProgressContextValue | undefined>(undefined);
+const STORAGE_KEY = "progress";
+
+const EMPTY_PROGRESS: Progress = { viewedSections: {}, completedLessons: [] };
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// Keep the lessons with a list of section indices, and only the indices in each
+function viewedSections(value: unknown): Progress["viewedSections"] {
+  if (!isRecord(value)) return {};
+  return Object.fromEntries(
+    Object.entries(value).flatMap(([lessonId, indices]) =>
+      Array.isArray(indices) ? [[lessonId, indices.filter(Number.isInteger)]] : [],
+    ),
+  );
+}
+
+function lessonIds(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((id) => typeof id === "string") : [];
+}
+
+function getStoredProgress(): Progress {
+  if (typeof window === "undefined") return EMPTY_PROGRESS;
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "null");
+    if (isRecord(stored)) {
+      return {
+        viewedSections: viewedSections(stored.viewedSections),
+        completedLessons: lessonIds(stored.completedLessons),
+      };
+    }
+  } catch {
+    // Corrupt entry - start over rather than crash
+  }
+  return EMPTY_PROGRESS;
+}
+
+export function ProgressProvider({ children }: { children: ReactNode }) {
+  const [storedProgress, setProgress] = useState<Progress>(getStoredProgress);
+  // The prerendered HTML shows no progress; stored progress appears once hydrated
+  const progress = useHydrated() ? storedProgress : EMPTY_PROGRESS;
+
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(storedProgress));
+  }, [storedProgress]);
+
+  const markSectionViewed = (lessonId: string, sectionIndex: number, sectionCount: number) => {
+    setProgress((prev) => {
+      const viewed = prev.viewedSections[lessonId] ?? [];
+      if (viewed.includes(sectionIndex)) return prev;
+
+      const nextViewed = [...viewed, sectionIndex].sort((a, b) => a - b);
+      const isComplete =
+        nextViewed.length >= sectionCount && !prev.completedLessons.includes(lessonId);
+
+      return {
+        viewedSections: { ...prev.viewedSections, [lessonId]: nextViewed },
+        completedLessons: isComplete ? [...prev.completedLessons, lessonId] : prev.completedLessons,
+      };
+    });
+  };
+
+  const setLessonCompleted = (lessonId: string, completed: boolean) => {
+    setProgress((prev) => {
+      const others = prev.completedLessons.filter((id) => id !== lessonId);
+      return { ...prev, completedLessons: completed ? [...others, lessonId] : others };
+    });
+  };
+
+  const isLessonCompleted = (lessonId: string) => progress.completedLessons.includes(lessonId);
+
+  const getViewedCount = (lessonId: string) => progress.viewedSections[lessonId]?.length ?? 0;
+
+  const resetProgress = () => setProgress(EMPTY_PROGRESS);
+
+  return (
+    <ProgressContext.Provider
+      value={{
+        ...progress,
+        markSectionViewed,
+        setLessonCompleted,
+        isLessonCompleted,
+        getViewedCount,
+        resetProgress,
+      }}
+    >
+      {children}
+    </ProgressContext.Provider>
+  );
+}
+
+export function useProgress() {
+  const context = useContext(ProgressContext);
+  if (!context) {
+    throw new Error("useProgress must be used within ProgressProvider");
+  }
+  return context;
+}
@@ -0,0 +1,105 @@
+import { createContext, useContext, useState, useEffect } from "react";
+import type { ReactNode } from "react";
+import { useHydrated } from "../lib/use-hydrated";
+import { useProgress } from "./ProgressContext";
+import { lessons } from "../data/lessons";
+import { quickReference } from "../data/quick-reference";
+import {
+  NEW_CARDS_PER_DAY,
+  getCardIds,
+  getDueCards,
+  readCardSchedules,
+  scheduleCard,
+  toDay,
+} from "../lib/flashcards";
+import type { CardSchedule, Grade } from "../lib/flashcards";
+
+interface Review {
+  /** SM-2 state of every card reviewed at least once, keyed by card id */
+  schedules: Record<string, CardSchedule>;
+  /** How many unseen cards were started on `day`, to cap new cards per day */
+  newCards: { day: string; count: number };
+}
+
+interface ReviewContextValue {
+  /** Ids of the cards to study today, reviews first */
+  dueCardIds: string[];
+  getSchedule: (cardId: string) => CardSchedule | undefined;
+  gradeCard: (cardId: string, grade: Grade) => void;
+}
+
+const ReviewContext = createContext<ReviewContextValue | undefined>(undefined);
+const STORAGE_KEY = "review";
+
+const EMPTY_REVIEW: Review = { schedules: {}, newCards: { day: "", count: 0 } };
+
+function newCards(value: unknown): Review["newCards"] {
+  if (!value || typeof value !== "object") return EMPTY_REVIEW.newCards;
+  const { day, count } = value as Record<string, unknown>;
+  return typeof day === "string" && Number.isInteger(count)
+    ? { day, count: count as number }
+    : EMPTY_REVIEW.newCards;
+}
+
+function getStoredReview(): Review {
+  if (typeof window === "undefined") return EMPTY_REVIEW;
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "null");
+    if (stored && typeof stored === "object") {
+      return {
+        schedules: readCardSchedules(stored.schedules),
+        newCards: newCards(stored.newCards),
+      };
+    }
+  } catch {
+    // Corrupt entry - start over rather than crash
+  }
+  return EMPTY_REVIEW;
+}
+
+export function ReviewProvider({ children }: { children: ReactNode }) {
+  const [storedReview, setReview] = useState<Review>(getStoredReview);
+  // The prerendered HTML counts every card as new; stored reviews apply once hydrated
+  const review = useHydrated() ? storedReview : EMPTY_REVIEW;
+  const { viewedSections } = useProgress();
+  const today = toDay();
+
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(storedReview));
+  }, [storedReview]);
+
+  const newCardsStarted = review.newCards.day === today ? review.newCards.count : 0;
+  const dueCardIds = getDueCards(
+    getCardIds(lessons, quickReference, viewedSections),
+    review.schedules,
+    NEW_CARDS_PER_DAY - newCardsStarted,
+    today,
+  );
+
+  const getSchedule = (cardId: string) => review.schedules[cardId];
+
+  const gradeCard = (cardId: string, grade: Grade) => {
+    setReview((prev) => {
+      const previous = prev.schedules[cardId];
+      const startedToday = prev.newCards.day === today ? prev.newCards.count : 0;
+      return {
+        schedules: { ...prev.schedules, [cardId]: scheduleCard(previous, grade, today) },
+        newCards: previous ? prev.newCards : { day: today, count: startedToday + 1 },
+      };
+    });
+  };
+
+  return (
+    <ReviewContext.Provider value={{ dueCardIds, getSchedule, gradeCard }}>
+      {children}
+    </ReviewContext.Provider>
+  );
+}
+
+export function useReview() {
+  const context = useContext(ReviewContext);
+  if (!context) {
+    throw new Error("useReview must be used within ReviewProvider");
+  }
+  return context;
+}
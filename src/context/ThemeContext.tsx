@@ -1,66 +1,119 @@
 import { createContext, useContext, useState, useEffect } from "react";
 import type { ReactNode } from "react";
+import { useHydrated } from "../lib/use-hydrated";
 
-type Theme = "light" | "dark";
+/** Themes with their own set of color tokens in index.css */
+export const COLOR_THEMES = ["light", "dark", "high-contrast", "sepia"] as const;
+
+export type ColorTheme = (typeof COLOR_THEMES)[number];
+
+/** A color theme, or `"system"` to follow the OS light/dark setting */
+export type Theme = "system" | ColorTheme;
+
+export const THEMES: Theme[] = ["system", ...COLOR_THEMES];
+
+/** Whether each theme is a light or a dark one, for code highlighting and native controls */
+export const THEME_APPEARANCE: Record<ColorTheme, "light" | "dark"> = {
+  dark: "dark",
+  light: "light",
+  "high-contrast": "dark",
+  sepia: "light",
+};
 
 interface ThemeContextValue {
+  /** The reader's choice */
   theme: Theme;
-  toggleTheme: () => void;
+  /** The color theme on screen, with `"system"` resolved */
+  resolvedTheme: ColorTheme;
+  appearance: "light" | "dark";
+  setTheme: (theme: Theme) => void;
 }
 
 const ThemeContext = createContext<ThemeContextValue | undefined>(undefined);
+// Keep in sync with the inline script in index.html, which applies the theme before first paint
 const STORAGE_KEY = "theme";
+/** What the prerendered HTML shows, since the server can't know the preference */
+const DEFAULT_THEME: ColorTheme = "dark";
 
-function getStoredTheme(): Theme | null {
-  if (typeof window === "undefined") return null;
+function isColorTheme(value: string | null): value is ColorTheme {
+  return COLOR_THEMES.includes(value as ColorTheme);
+}
+
+// "system" isn't stored: no stored theme means following the OS
+function getStoredTheme(): Theme {
+  if (typeof window === "undefined") return "system";
   const stored = localStorage.getItem(STORAGE_KEY);
-  if (stored === "light" || stored === "dark") return stored;
-  return null;
+  return isColorTheme(stored) ? stored : "system";
 }
 
-function getSystemTheme(): Theme {
+function getSystemTheme(): ColorTheme {
   if (typeof window !== "undefined" && window.matchMedia) {
     return window.matchMedia("(prefers-color-scheme: light)").matches ? "light" : "dark";
   }
-  return "dark";
+  return DEFAULT_THEME;
 }
 
-function getInitialTheme(): Theme {
-  return getStoredTheme() ?? getSystemTheme();
+function applyColorTheme(theme: ColorTheme) {
+  document.documentElement.classList.remove(...COLOR_THEMES);
+  document.documentElement.classList.add(theme);
 }
 
 export function ThemeProvider({ children }: { children: ReactNode }) {
-  const [theme, setTheme] = useState<Theme>(getInitialTheme);
+  const [theme, setThemeState] = useState<Theme>(getStoredTheme);
+  const [systemTheme, setSystemTheme] = useState<ColorTheme>(getSystemTheme);
+  const hydrated = useHydrated();
+  const resolvedTheme = theme === "system" ? systemTheme : theme;
 
   useEffect(() => {
-    document.documentElement.classList.remove("light", "dark");
-    document.documentElement.classList.add(theme);
-  }, [theme]);
+    applyColorTheme(resolvedTheme);
+
+    // Print on white paper in the light theme, whatever is on screen. The class
+    // is switched directly: a state update wouldn't render before printing.
+    const printLight = () => applyColorTheme("light");
+    const restore = () => applyColorTheme(resolvedTheme);
+    window.addEventListener("beforeprint", printLight);
+    window.addEventListener("afterprint", restore);
+    return () => {
+      window.removeEventListener("beforeprint", printLight);
+      window.removeEventListener("afterprint", restore);
+    };
+  }, [resolvedTheme]);
 
-  // Listen for system preference changes (only if no stored preference)
+  // Track the OS setting, which applies whenever the theme is "system"
   useEffect(() => {
     const mediaQuery = window.matchMedia("(prefers-color-scheme: light)");
 
     const handleChange = (event: MediaQueryListEvent | { matches: boolean }) => {
-      // Only follow system if user hasn't set a preference
-      if (!getStoredTheme()) {
-        setTheme(event.matches ? "light" : "dark");
-      }
+      setSystemTheme(event.matches ? "light" : "dark");
     };
 
     mediaQuery.addEventListener("change", handleChange);
     return () => mediaQuery.removeEventListener("change", handleChange);
   }, []);
 
-  const toggleTheme = () => {
-    setTheme((prev) => {
-      const next = prev === "dark" ? "light" : "dark";
+  const setTheme = (next: Theme) => {
+    if (next === "system") {
+      localStorage.removeItem(STORAGE_KEY);
+    } else {
       localStorage.setItem(STORAGE_KEY, next);
-      return next;
-    });
+    }
+    setThemeState(next);
   };
 
-  return <ThemeContext.Provider value={{ theme, toggleTheme }}>{children}</ThemeContext.Provider>;
+  const shown = hydrated ? resolvedTheme : DEFAULT_THEME;
+
+  return (
+    <ThemeContext.Provider
+      value={{
+        theme: hydrated ? theme : "system",
+        resolvedTheme: shown,
+        appearance: THEME_APPEARANCE[shown],
+        setTheme,
+      }}
+    >
+      {children}
+    </ThemeContext.Provider>
+  );
 }
 
 export function useTheme() {
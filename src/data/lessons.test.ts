@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+import { getLessonById, lessons, loadAllLessons, loadLesson } from "./lessons";
+import { tipCardId } from "../lib/card-ids";
+
+describe("lesson manifest", () => {
+  it("lists lessons in curriculum order", () => {
+    const orders = lessons.map((lesson) => lesson.order);
+    expect(orders).toEqual([...orders].sort((a, b) => a - b));
+  });
+
+  it("summarises each lesson without its content", async () => {
+    const loaded = await loadAllLessons();
+
+    expect(loaded.map((lesson) => lesson.id)).toEqual(lessons.map((lesson) => lesson.id));
+    for (const lesson of loaded) {
+      const summary = getLessonById(lesson.id)!;
+      expect(summary).not.toHaveProperty("sections");
+      expect(summary).toMatchObject({
+        title: lesson.title,
+        module: lesson.module,
+        category: lesson.category,
+        sectionCount: lesson.sections.length,
+        tipCardIds: lesson.sections.map((section) =>
+          (section.tips ?? []).map((tip) => tipCardId(lesson.id, tip)),
+        ),
+      });
+    }
+  });
+});
+
+describe("loadLesson", () => {
+  it("loads each lesson once", async () => {
+    expect(loadLesson("state")).toBe(loadLesson("state"));
+    expect((await loadLesson("state")).sections.length).toBeGreaterThan(0);
+  });
+
+  it("rejects unknown lessons", async () => {
+    await expect(loadLesson("missing")).rejects.toThrow('Unknown lesson "missing"');
+  });
+
+  it("doesn't cache a failed load, so the next call tries again", async () => {
+    const failed = loadLesson("missing");
+    await expect(failed).rejects.toThrow();
+
+    expect(loadLesson("missing")).not.toBe(failed);
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import {
+  QUICK_REFERENCE_CATEGORIES,
+  featuredQuickReference,
+  filterQuickReference,
+  quickReference,
+} from "./quick-reference";
+import { loadLesson } from "./lessons";
+import { getSectionAnchors } from "../lib/anchors";
+
+describe("quickReference", () => {
+  it("links every entry to a section that exists", async () => {
+    for (const entry of quickReference) {
+      const lesson = await loadLesson(entry.lessonId);
+      if (entry.section) expect(getSectionAnchors(lesson)).toContain(entry.section);
+    }
+  });
+
+  it("keeps each category's entries together, in category order", () => {
+    const order = quickReference.map((entry) => QUICK_REFERENCE_CATEGORIES.indexOf(entry.category));
+    expect(order).toEqual([...order].sort((a, b) => a - b));
+  });
+
+  it("features the everyday patterns on the home page", () => {
+    expect(featuredQuickReference.map((entry) => entry.react)).toEqual([
+      "function Component()",
+      "props",
+      'className="..."',
+      "useState()",
+      "onChange={(e) => ...",
+      "useContext()",
+      "useEffect()",
+      "<div>",
+      ".map()",
+      "key={id}",
+    ]);
+  });
+});
+
+describe("filterQuickReference", () => {
+  it("matches either side, the category or the lesson title, ignoring case", () => {
+    const reacts = (query: string) =>
+      filterQuickReference(quickReference, query).map((entry) => entry.react);
+
+    expect(reacts("FOREACH")).toEqual([".map()"]);
+    expect(reacts("usestate")).toEqual(["useState()"]);
+    expect(reacts("forms & input")).toContain("<select>");
+    expect(reacts("optionals")).toEqual(["T | undefined", "a ?? b"]);
+    expect(reacts("  ")).toHaveLength(quickReference.length);
+  });
+});
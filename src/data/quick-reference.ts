@@ -0,0 +1,403 @@
+import { getLessonById } from "./lessons";
+
+export const QUICK_REFERENCE_CATEGORIES = [
+  "Components",
+  "State",
+  "Lifecycle",
+  "Layout",
+  "Lists",
+  "Navigation",
+  "Forms & Input",
+  "Data",
+  "Language",
+] as const;
+
+export type QuickReferenceCategory = (typeof QUICK_REFERENCE_CATEGORIES)[number];
+
+/** A React idiom and its closest SwiftUI equivalent */
+export interface QuickReferenceEntry {
+  react: string;
+  swiftui: string;
+  category: QuickReferenceCategory;
+  /** Lesson that explains the mapping */
+  lessonId: string;
+  /** Anchor of the section within the lesson (see lib/anchors.ts) */
+  section?: string;
+  /** Shown in the preview on the home page */
+  featured?: boolean;
+}
+
+/**
+ * The React → SwiftUI cheat sheet at /cheatsheet, previewed on the home page
+ * and reviewed as flashcards. Grouped by category; within a category, the
+ * order is the order on the page.
+ */
+export const quickReference: QuickReferenceEntry[] = [
+  {
+    react: "function Component()",
+    swiftui: "struct View: View",
+    category: "Components",
+    lessonId: "basics",
+    section: "functional-components-structs",
+    featured: true,
+  },
+  {
+    react: "props",
+    swiftui: "let properties",
+    category: "Components",
+    lessonId: "basics",
+    section: "functional-components-structs",
+    featured: true,
+  },
+  {
+    react: 'className="..."',
+    swiftui: ".modifier()",
+    category: "Components",
+    lessonId: "basics",
+    section: "jsx-elements-view-modifiers",
+    featured: true,
+  },
+  {
+    react: "<p> / <span>",
+    swiftui: "Text",
+    category: "Components",
+    lessonId: "basics",
+    section: "text-and-typography",
+  },
+  {
+    react: "<img>",
+    swiftui: "Image",
+    category: "Components",
+    lessonId: "basics",
+    section: "images-and-sf-symbols",
+  },
+  {
+    react: "<button onClick>",
+    swiftui: "Button(action:)",
+    category: "Components",
+    lessonId: "basics",
+    section: "buttons-and-actions",
+  },
+  {
+    react: "useState()",
+    swiftui: "@State",
+    category: "State",
+    lessonId: "state",
+    section: "usestate-state",
+    featured: true,
+  },
+  {
+    react: "onChange={(e) => ...",
+    swiftui: "$binding",
+    category: "State",
+    lessonId: "state",
+    section: "props-with-callbacks-binding",
+    featured: true,
+  },
+  {
+    react: "useMemo()",
+    swiftui: "computed property",
+    category: "State",
+    lessonId: "state",
+    section: "derived-state-computed-properties",
+  },
+  {
+    react: "localStorage",
+    swiftui: "@AppStorage",
+    category: "State",
+    lessonId: "state",
+    section: "appstorage",
+  },
+  {
+    react: "useContext()",
+    swiftui: "@Environment",
+    category: "State",
+    lessonId: "context",
+    section: "context-api-environment",
+    featured: true,
+  },
+  {
+    react: "Redux / Zustand store",
+    swiftui: "@Observable class",
+    category: "State",
+    lessonId: "context",
+    section: "global-state-observable",
+  },
+  {
+    react: "useEffect()",
+    swiftui: ".task / .onAppear",
+    category: "Lifecycle",
+    lessonId: "state",
+    section: "useeffect-onappear-onchange-task",
+    featured: true,
+  },
+  {
+    react: "useEffect(..., [value])",
+    swiftui: ".onChange(of: value)",
+    category: "Lifecycle",
+    lessonId: "view-lifecycle",
+    section: "onchange",
+  },
+  {
+    react: "effect cleanup",
+    swiftui: ".onDisappear",
+    category: "Lifecycle",
+    lessonId: "view-lifecycle",
+    section: "onappear-ondisappear",
+  },
+  {
+    react: "key={...} to reset state",
+    swiftui: ".id(...)",
+    category: "Lifecycle",
+    lessonId: "view-lifecycle",
+    section: "view-identity",
+  },
+  {
+    react: "<div>",
+    swiftui: "VStack / HStack",
+    category: "Layout",
+    lessonId: "layout",
+    section: "flexbox-stacks",
+    featured: true,
+  },
+  {
+    react: "justify-content / align-items",
+    swiftui: "alignment: / Spacer()",
+    category: "Layout",
+    lessonId: "layout",
+    section: "justify-content-and-align-items-stack-alignment",
+  },
+  {
+    react: "display: grid",
+    swiftui: "Grid / LazyVGrid",
+    category: "Layout",
+    lessonId: "layout",
+    section: "grid-layouts",
+  },
+  {
+    react: "width / height",
+    swiftui: ".frame()",
+    category: "Layout",
+    lessonId: "layout",
+    section: "frame-and-sizing",
+  },
+  {
+    react: "position: absolute",
+    swiftui: ".offset() / .position()",
+    category: "Layout",
+    lessonId: "alignment-positioning",
+    section: "position-vs-offset",
+  },
+  {
+    react: "z-index",
+    swiftui: "ZStack / .zIndex()",
+    category: "Layout",
+    lessonId: "alignment-positioning",
+    section: "zindex-and-overlays",
+  },
+  {
+    react: "overflow: auto",
+    swiftui: "ScrollView",
+    category: "Layout",
+    lessonId: "scroll-advanced",
+    section: "scrollview",
+  },
+  {
+    react: ".map()",
+    swiftui: "ForEach",
+    category: "Lists",
+    lessonId: "lists",
+    section: "array-map-foreach",
+    featured: true,
+  },
+  {
+    react: "key={id}",
+    swiftui: "Identifiable",
+    category: "Lists",
+    lessonId: "data-models",
+    section: "identifiable",
+    featured: true,
+  },
+  {
+    react: "{condition && <View />}",
+    swiftui: "if condition { View() }",
+    category: "Lists",
+    lessonId: "lists",
+    section: "conditional-rendering",
+  },
+  {
+    react: "<ul>",
+    swiftui: "List",
+    category: "Lists",
+    lessonId: "lists",
+    section: "list-styles",
+  },
+  {
+    react: "search input + .filter()",
+    swiftui: ".searchable(text:)",
+    category: "Lists",
+    lessonId: "search-filtering",
+    section: "searchable",
+  },
+  {
+    react: "<BrowserRouter>",
+    swiftui: "NavigationStack",
+    category: "Navigation",
+    lessonId: "navigation",
+    section: "react-router-navigationstack",
+  },
+  {
+    react: "<Link to>",
+    swiftui: "NavigationLink",
+    category: "Navigation",
+    lessonId: "navigation",
+    section: "react-router-navigationstack",
+  },
+  {
+    react: "navigate(path)",
+    swiftui: "path.append(value)",
+    category: "Navigation",
+    lessonId: "navigation",
+    section: "navigationpath",
+  },
+  {
+    react: "tabs",
+    swiftui: "TabView",
+    category: "Navigation",
+    lessonId: "navigation",
+    section: "tab-navigation",
+  },
+  {
+    react: "modal",
+    swiftui: ".sheet()",
+    category: "Navigation",
+    lessonId: "alerts-sheets",
+    section: "sheet-presentations",
+  },
+  {
+    react: "window.confirm()",
+    swiftui: ".alert() / .confirmationDialog()",
+    category: "Navigation",
+    lessonId: "alerts-sheets",
+    section: "alert",
+  },
+  {
+    react: "<input value onChange>",
+    swiftui: "TextField(text: $value)",
+    category: "Forms & Input",
+    lessonId: "forms",
+    section: "controlled-inputs-textfield",
+  },
+  {
+    react: "<select>",
+    swiftui: "Picker",
+    category: "Forms & Input",
+    lessonId: "forms",
+    section: "select-dropdown-picker",
+  },
+  {
+    react: '<input type="date">',
+    swiftui: "DatePicker",
+    category: "Forms & Input",
+    lessonId: "pickers-selection",
+    section: "datepicker",
+  },
+  {
+    react: "ref.current.focus()",
+    swiftui: "@FocusState",
+    category: "Forms & Input",
+    lessonId: "forms",
+    section: "focus-management",
+  },
+  {
+    react: "onClick on any element",
+    swiftui: ".onTapGesture",
+    category: "Forms & Input",
+    lessonId: "gestures",
+    section: "tap-and-long-press",
+  },
+  {
+    react: "fetch()",
+    swiftui: "URLSession",
+    category: "Data",
+    lessonId: "networking",
+    section: "fetch-urlsession",
+  },
+  {
+    react: "React Query",
+    swiftui: "@Observable + .task",
+    category: "Data",
+    lessonId: "networking",
+    section: "react-query-pattern-observable-task",
+  },
+  {
+    react: "JSON.parse()",
+    swiftui: "JSONDecoder + Codable",
+    category: "Data",
+    lessonId: "data-models",
+    section: "codable",
+  },
+  {
+    react: "try { await ... } catch",
+    swiftui: "do { try await ... } catch",
+    category: "Data",
+    lessonId: "error-handling",
+    section: "do-catch-syntax",
+  },
+  {
+    react: "T | undefined",
+    swiftui: "T?",
+    category: "Language",
+    lessonId: "optionals-nil-safety",
+    section: "optional-declaration",
+  },
+  {
+    react: "a ?? b",
+    swiftui: "a ?? b",
+    category: "Language",
+    lessonId: "optionals-nil-safety",
+    section: "force-unwrap-and-nil-coalescing",
+  },
+  {
+    react: "`Hello ${name}`",
+    swiftui: '"Hello \\(name)"',
+    category: "Language",
+    lessonId: "types-and-inference",
+    section: "string-interpolation",
+  },
+  {
+    react: "(x) => x * 2",
+    swiftui: "{ x in x * 2 }",
+    category: "Language",
+    lessonId: "closures",
+    section: "basic-closure-syntax",
+  },
+  {
+    react: "interface",
+    swiftui: "protocol",
+    category: "Language",
+    lessonId: "protocols",
+    section: "basic-protocol",
+  },
+  {
+    react: "discriminated union",
+    swiftui: "enum with associated values",
+    category: "Language",
+    lessonId: "enums-associated-values",
+    section: "associated-values-the-superpower",
+  },
+];
+
+/** The entries shown on the home page */
+export const featuredQuickReference = quickReference.filter((entry) => entry.featured);
+
+/** Entries matching a filter on either side, the category or the lesson title */
+export function filterQuickReference(entries: QuickReferenceEntry[], query: string) {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return entries;
+  return entries.filter((entry) =>
+    [entry.react, entry.swiftui, entry.category, getLessonById(entry.lessonId)?.title ?? ""].some(
+      (text) => text.toLowerCase().includes(needle),
+    ),
+  );
+}
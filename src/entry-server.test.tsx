@@ -0,0 +1,57 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { lessons } from "./data/lessons";
+import { indexedRoutes, render, routes } from "./entry-server";
+
+describe("prerendering", () => {
+  beforeEach(() => {
+    Object.defineProperty(window, "matchMedia", {
+      writable: true,
+      value: vi.fn().mockImplementation((query: string) => ({
+        matches: false,
+        media: query,
+        onchange: null,
+        addListener: vi.fn(),
+        removeListener: vi.fn(),
+        addEventListener: vi.fn(),
+        removeEventListener: vi.fn(),
+        dispatchEvent: vi.fn(),
+      })),
+    });
+  });
+
+  it("covers the home page, every lesson and the other pages", () => {
+    expect(routes).toEqual([
+      "/",
+      ...lessons.map((lesson) => `/lessons/${lesson.id}`),
+      "/bookmarks",
+      "/review",
+      "/cheatsheet",
+    ]);
+  });
+
+  it("leaves the pages of saved bookmarks and reviews out of the sitemap", () => {
+    expect(indexedRoutes).toEqual([
+      "/",
+      ...lessons.map((lesson) => `/lessons/${lesson.id}`),
+      "/cheatsheet",
+    ]);
+  });
+
+  it("renders the lesson content and its title and description", async () => {
+    const { html, meta } = await render("/lessons/state");
+
+    expect(html).toContain("State Management</h1>");
+    expect(html).not.toContain("Loading lesson");
+    expect(meta).toEqual({
+      title: "State Management · SwiftUI for React Developers",
+      description: lessons.find((lesson) => lesson.id === "state")!.description,
+    });
+  });
+
+  it("renders unknown paths as the not-found page", async () => {
+    const { html, meta } = await render("/404");
+
+    expect(html).toContain("Page not found");
+    expect(meta.title).toBe("Page not found · SwiftUI for React Developers");
+  });
+});
@@ -0,0 +1,40 @@
+import { StrictMode } from "react";
+import { prerender } from "react-dom/static";
+import { StaticRouter } from "react-router-dom";
+import { AppProviders } from "./context/AppProviders";
+import App from "./App.tsx";
+import { lessons } from "./data/lessons";
+import { getPageMeta } from "./lib/page-meta";
+
+// Pages that only show what's saved in this browser. Their prerendered HTML
+// is empty (nothing saved, every card new), so they stay out of the sitemap.
+const PERSONAL_ROUTES = ["/bookmarks", "/review"];
+
+/** Routes written to static HTML at build time (see plugins/prerender.ts) */
+export const routes = [
+  "/",
+  ...lessons.map((lesson) => `/lessons/${lesson.id}`),
+  ...PERSONAL_ROUTES,
+  "/cheatsheet",
+];
+
+/** The prerendered routes worth listing in sitemap.xml */
+export const indexedRoutes = routes.filter((route) => !PERSONAL_ROUTES.includes(route));
+
+/** Renders a route to HTML, waiting for the lazy lesson view and the lesson's content */
+export async function render(url: string) {
+  const { prelude } = await prerender(
+    <StrictMode>
+      <StaticRouter location={url}>
+        <AppProviders>
+          <App />
+        </AppProviders>
+      </StaticRouter>
+    </StrictMode>,
+    // Inline every Suspense boundary instead of outlining large ones behind the
+    // fallback, so the lesson is in the HTML without running a script
+    { progressiveChunkSize: Number.POSITIVE_INFINITY },
+  );
+
+  return { html: await new Response(prelude).text(), meta: getPageMeta(url) };
+}
@@ -0,0 +1,67 @@
+import { act, cleanup, screen } from "@testing-library/react";
+import { hydrateRoot } from "react-dom/client";
+import { MemoryRouter } from "react-router-dom";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import App from "./App";
+import { AppProviders } from "./context/AppProviders";
+import { render } from "./entry-server";
+
+afterEach(() => {
+  cleanup();
+  document.body.innerHTML = "";
+  localStorage.clear();
+});
+
+// Prerendering a route that suspends (a lesson) leaves React Router's context
+// set in this process, which breaks client renders afterwards. Only the home
+// page is prerendered here; entry-server.test.tsx covers lesson pages.
+describe("hydrating prerendered HTML", () => {
+  beforeEach(() => {
+    Object.defineProperty(window, "matchMedia", {
+      writable: true,
+      value: vi.fn().mockImplementation((query: string) => ({
+        matches: false,
+        media: query,
+        onchange: null,
+        addListener: vi.fn(),
+        removeListener: vi.fn(),
+        addEventListener: vi.fn(),
+        removeEventListener: vi.fn(),
+        dispatchEvent: vi.fn(),
+      })),
+    });
+  });
+
+  it("matches the server markup, then shows stored preferences and progress", async () => {
+    const { html } = await render("/");
+    localStorage.setItem("theme", "light");
+    localStorage.setItem("sidebarModule", "swiftui");
+    localStorage.setItem(
+      "progress",
+      JSON.stringify({ viewedSections: {}, completedLessons: ["state"] }),
+    );
+    const container = document.createElement("div");
+    container.innerHTML = html;
+    document.body.appendChild(container);
+    const onRecoverableError = vi.fn();
+
+    const root = await act(async () =>
+      hydrateRoot(
+        container,
+        <MemoryRouter initialEntries={["/"]}>
+          <AppProviders>
+            <App />
+          </AppProviders>
+        </MemoryRouter>,
+        { onRecoverableError },
+      ),
+    );
+
+    expect(onRecoverableError).not.toHaveBeenCalled();
+    expect(screen.getByTitle("Theme: Light")).toBeInTheDocument();
+    expect(screen.getByRole("tab", { name: "SwiftUI" })).toHaveAttribute("aria-selected", "true");
+    expect(screen.getByRole("button", { name: /Continue Learning/ })).toBeInTheDocument();
+    expect(screen.getByTestId("lesson-completed")).toBeInTheDocument();
+    act(() => root.unmount());
+  });
+});
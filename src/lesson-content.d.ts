@@ -0,0 +1,6 @@
+// Modules generated by plugins/lesson-content.ts
+
+declare module "virtual:lesson-manifest" {
+  const manifest: import("./types").LessonSummary[];
+  export default manifest;
+}
@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest";
+import { getSectionAnchors, lessonPath, slugify } from "./anchors";
+import { loadAllLessons } from "../data/lessons";
+import type { LessonSection } from "../types";
+
+function section(title: string, id?: string): LessonSection {
+  return {
+    format: "single",
+    language: "swift",
+    title,
+    id,
+    explanation: "",
+    code: { code: "" },
+  };
+}
+
+describe("slugify", () => {
+  it.each([
+    ["useEffect → .onAppear / .onChange / .task", "useeffect-onappear-onchange-task"],
+    ["@AppStorage", "appstorage"],
+    ["Types & Type Inference", "types-and-type-inference"],
+    ["Why `some View`", "why-some-view"],
+    ["Projected Value ($prefix)", "projected-value-prefix"],
+  ])("%s → %s", (title, slug) => {
+    expect(slugify(title)).toBe(slug);
+  });
+});
+
+describe("getSectionAnchors", () => {
+  it("prefers an explicit section id over the title slug", () => {
+    expect(getSectionAnchors({ sections: [section("Title", "custom")] })).toEqual(["custom"]);
+  });
+
+  it("suffixes repeated slugs so anchors stay unique", () => {
+    const sections = [section("Basics"), section("Basics"), section("Basics")];
+    expect(getSectionAnchors({ sections })).toEqual(["basics", "basics-2", "basics-3"]);
+  });
+
+  it("falls back to the section position when the title has no slug", () => {
+    expect(getSectionAnchors({ sections: [section("→")] })).toEqual(["section-1"]);
+  });
+
+  it("produces unique anchors for every lesson", async () => {
+    for (const lesson of await loadAllLessons()) {
+      const anchors = getSectionAnchors(lesson);
+      expect(new Set(anchors).size).toBe(anchors.length);
+    }
+  });
+});
+
+describe("lessonPath", () => {
+  it("appends the section anchor as a hash", () => {
+    expect(lessonPath("state")).toBe("/lessons/state");
+    expect(lessonPath("state", "appstorage")).toBe("/lessons/state#appstorage");
+  });
+});
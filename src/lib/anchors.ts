@@ -0,0 +1,36 @@
+import type { Lesson, LessonSection } from "../types";
+
+/** "useEffect → .onAppear / .onChange" becomes "useeffect-onappear-onchange" */
+export function slugify(text: string) {
+  return text
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/&/g, " and ")
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+function sectionSlug(section: LessonSection, index: number) {
+  return section.id ?? (slugify(section.title) || `section-${index + 1}`);
+}
+
+/**
+ * Anchor ids for every section of a lesson, in order. An explicit `id` wins
+ * over the title slug; repeated slugs get a numeric suffix so anchors stay
+ * unique within the page.
+ */
+export function getSectionAnchors(lesson: Pick<Lesson, "sections">): string[] {
+  const seen = new Map<string, number>();
+  return lesson.sections.map((section, index) => {
+    const slug = sectionSlug(section, index);
+    const count = (seen.get(slug) ?? 0) + 1;
+    seen.set(slug, count);
+    return count === 1 ? slug : `${slug}-${count}`;
+  });
+}
+
+export function lessonPath(lessonId: string, sectionAnchor?: string) {
+  const path = `/lessons/${lessonId}`;
+  return sectionAnchor ? `${path}#${sectionAnchor}` : path;
+}
@@ -0,0 +1,16 @@
+// Tip card ids, in their own module so the lesson-content plugin can put them
+// in the manifest without pulling in the app. See flashcards.ts for the format.
+
+/** 32-bit FNV-1a, in base 36: short, stable ids for text too long to slug */
+function hashText(text: string) {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(36);
+}
+
+export function tipCardId(lessonId: string, tip: string) {
+  return `tip:${lessonId}:${hashText(tip)}`;
+}
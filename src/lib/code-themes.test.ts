@@ -0,0 +1,18 @@
+import { describe, expect, it } from "vitest";
+import { CODE_THEMES, CODE_THEME_PREFERENCES, resolveCodeTheme } from "./code-themes";
+
+describe("resolveCodeTheme", () => {
+  it("matches the page theme on auto", () => {
+    expect(resolveCodeTheme("auto", "dark")).toBe(CODE_THEMES["utilitarian-dark"]);
+    expect(resolveCodeTheme("auto", "light")).toBe(CODE_THEMES["utilitarian-light"]);
+  });
+
+  it("uses a chosen theme on either page theme", () => {
+    expect(resolveCodeTheme("xcode-dark", "light")).toBe(CODE_THEMES["xcode-dark"]);
+    expect(resolveCodeTheme("xcode-light", "dark")).toBe(CODE_THEMES["xcode-light"]);
+  });
+
+  it("offers every theme as a preference", () => {
+    expect(CODE_THEME_PREFERENCES.filter((id) => id !== "auto")).toEqual(Object.keys(CODE_THEMES));
+  });
+});
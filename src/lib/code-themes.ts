@@ -0,0 +1,137 @@
+import type { PrismTheme } from "prism-react-renderer";
+
+export type Appearance = "light" | "dark";
+
+export interface CodeTheme {
+  label: string;
+  appearance: Appearance;
+  prism: PrismTheme;
+}
+
+// The site's own palette: muted, with the warm/cool accents of index.css
+const utilitarianDark: PrismTheme = {
+  plain: {
+    color: "#c8c8c8",
+    backgroundColor: "#0c0c0c",
+  },
+  styles: [
+    {
+      types: ["comment", "prolog", "doctype", "cdata"],
+      style: { color: "#7a7a7a", fontStyle: "italic" },
+    },
+    { types: ["punctuation"], style: { color: "#888888" } },
+    { types: ["property", "tag", "constant", "symbol", "deleted"], style: { color: "#d4a574" } },
+    { types: ["boolean", "number"], style: { color: "#e0a870" } },
+    {
+      types: ["selector", "attr-name", "string", "char", "builtin", "inserted"],
+      style: { color: "#a8c490" },
+    },
+    { types: ["operator", "entity", "url"], style: { color: "#8ab4d0" } },
+    { types: ["atrule", "attr-value", "keyword"], style: { color: "#7aa2c4" } },
+    { types: ["function"], style: { color: "#8cc8e8" } },
+    { types: ["class-name"], style: { color: "#c4a8d8" } },
+    { types: ["regex", "important", "variable"], style: { color: "#e8c078" } },
+    // Swift `\(expr)` would otherwise inherit the enclosing string's color
+    { types: ["interpolation"], style: { color: "#c8c8c8" } },
+  ],
+};
+
+// A light counterpart in the same muted style. These are its own colors, not
+// the `:root.light` tokens, so changing a token doesn't change the code blocks.
+const utilitarianLight: PrismTheme = {
+  plain: {
+    color: "#1a1a1a",
+    backgroundColor: "#f8f8f8",
+  },
+  styles: [
+    {
+      types: ["comment", "prolog", "doctype", "cdata"],
+      style: { color: "#707070", fontStyle: "italic" },
+    },
+    { types: ["punctuation"], style: { color: "#606060" } },
+    { types: ["property", "tag", "constant", "symbol", "deleted"], style: { color: "#8a5a28" } },
+    { types: ["boolean", "number"], style: { color: "#9a6330" } },
+    {
+      types: ["selector", "attr-name", "string", "char", "builtin", "inserted"],
+      style: { color: "#4a7030" },
+    },
+    { types: ["operator", "entity", "url"], style: { color: "#3e6e94" } },
+    { types: ["atrule", "attr-value", "keyword"], style: { color: "#3a6690" } },
+    { types: ["function"], style: { color: "#2a6a8a" } },
+    { types: ["class-name"], style: { color: "#7a4e98" } },
+    { types: ["regex", "important", "variable"], style: { color: "#8a6410" } },
+    { types: ["interpolation"], style: { color: "#1a1a1a" } },
+  ],
+};
+
+// Xcode's "Default (Light)" and "Default (Dark)" source editor themes
+const xcodeLight: PrismTheme = {
+  plain: {
+    color: "#000000",
+    backgroundColor: "#ffffff",
+  },
+  styles: [
+    { types: ["comment", "prolog", "doctype", "cdata"], style: { color: "#5d6c79" } },
+    { types: ["punctuation", "operator"], style: { color: "#000000" } },
+    { types: ["keyword", "boolean", "atrule"], style: { color: "#9b2393", fontWeight: "bold" } },
+    { types: ["string", "char", "attr-value", "inserted"], style: { color: "#c41a16" } },
+    { types: ["number"], style: { color: "#1c00cf" } },
+    { types: ["class-name", "builtin"], style: { color: "#3900a0" } },
+    { types: ["function"], style: { color: "#326d74" } },
+    { types: ["property", "constant", "variable"], style: { color: "#326d74" } },
+    { types: ["tag", "selector", "attr-name"], style: { color: "#0b4f79" } },
+    { types: ["symbol", "important", "regex"], style: { color: "#815f03" } },
+    { types: ["url", "entity", "deleted"], style: { color: "#0e0eff" } },
+    { types: ["interpolation"], style: { color: "#000000" } },
+  ],
+};
+
+const xcodeDark: PrismTheme = {
+  plain: {
+    color: "#dfdfe0",
+    backgroundColor: "#1f1f24",
+  },
+  styles: [
+    { types: ["comment", "prolog", "doctype", "cdata"], style: { color: "#7f8c98" } },
+    { types: ["punctuation", "operator"], style: { color: "#dfdfe0" } },
+    { types: ["keyword", "boolean", "atrule"], style: { color: "#ff7ab2", fontWeight: "bold" } },
+    { types: ["string", "char", "attr-value", "inserted"], style: { color: "#ff8170" } },
+    { types: ["number"], style: { color: "#d9c97c" } },
+    { types: ["class-name", "builtin"], style: { color: "#dabaff" } },
+    { types: ["function"], style: { color: "#67b7a4" } },
+    { types: ["property", "constant", "variable"], style: { color: "#67b7a4" } },
+    { types: ["tag", "selector", "attr-name"], style: { color: "#5dd8ff" } },
+    { types: ["symbol", "important", "regex"], style: { color: "#cc9768" } },
+    { types: ["url", "entity", "deleted"], style: { color: "#6699ff" } },
+    { types: ["interpolation"], style: { color: "#dfdfe0" } },
+  ],
+};
+
+/** `"auto"` uses the utilitarian theme that matches the page */
+export const CODE_THEME_PREFERENCES = [
+  "auto",
+  "utilitarian-dark",
+  "utilitarian-light",
+  "xcode-dark",
+  "xcode-light",
+] as const;
+
+export type CodeThemePreference = (typeof CODE_THEME_PREFERENCES)[number];
+
+export type CodeThemeId = Exclude<CodeThemePreference, "auto">;
+
+export const CODE_THEMES: Record<CodeThemeId, CodeTheme> = {
+  "utilitarian-dark": { label: "Utilitarian Dark", appearance: "dark", prism: utilitarianDark },
+  "utilitarian-light": { label: "Utilitarian Light", appearance: "light", prism: utilitarianLight },
+  "xcode-dark": { label: "Xcode Dark", appearance: "dark", prism: xcodeDark },
+  "xcode-light": { label: "Xcode Light", appearance: "light", prism: xcodeLight },
+};
+
+/** The theme to highlight code with, given the preference and the page's theme */
+export function resolveCodeTheme(
+  preference: CodeThemePreference,
+  pageTheme: Appearance,
+): CodeTheme {
+  if (preference === "auto") return CODE_THEMES[`utilitarian-${pageTheme}`];
+  return CODE_THEMES[preference];
+}
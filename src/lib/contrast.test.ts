@@ -0,0 +1,110 @@
+import { describe, expect, it } from "vitest";
+import css from "../index.css?raw";
+import {
+  contrastRatio,
+  findCodeThemeViolations,
+  findContrastViolations,
+  formatViolation,
+  getColorPairings,
+  parseThemes,
+} from "./contrast";
+import { COLOR_THEMES } from "../context/ThemeContext";
+import { CODE_THEMES } from "./code-themes";
+
+const themes = parseThemes(css);
+
+describe("contrastRatio", () => {
+  it("follows the WCAG formula", () => {
+    expect(contrastRatio("#000000", "#ffffff")).toBeCloseTo(21);
+    expect(contrastRatio("#fff", "#ffffff")).toBe(1);
+    expect(contrastRatio("#909090", "#ffffff")).toBeCloseTo(3.19, 2);
+    expect(contrastRatio("#ffffff", "#909090")).toBe(contrastRatio("#909090", "#ffffff"));
+  });
+});
+
+describe("parseThemes", () => {
+  it("layers each theme's overrides on the @theme tokens and skips nested blocks", () => {
+    const parsed = parseThemes(`
+      @theme { --color-bg-primary: #000000; --color-text-primary: #FFFFFF; }
+      :root.light { --color-bg-primary: #ffffff; }
+      @media print { :root { --color-bg-primary: #eeeeee; } }
+    `);
+
+    expect(parsed).toEqual({
+      dark: { "bg-primary": "#000000", "text-primary": "#ffffff" },
+      light: { "bg-primary": "#ffffff", "text-primary": "#ffffff" },
+    });
+  });
+
+  it("finds every theme in index.css with every token a pairing uses", () => {
+    expect(Object.keys(themes).sort()).toEqual([...COLOR_THEMES].sort());
+    for (const tokens of Object.values(themes)) {
+      for (const { text, background } of getColorPairings(tokens)) {
+        expect(tokens).toHaveProperty(text);
+        expect(tokens).toHaveProperty(background);
+      }
+    }
+  });
+});
+
+describe("getColorPairings", () => {
+  it("checks every text token on every background token a theme declares", () => {
+    const pairings = getColorPairings({
+      "bg-primary": "#ffffff",
+      "bg-inset": "#eeeeee",
+      "text-primary": "#000000",
+      "text-hint": "#999999",
+      "accent-warm": "#8f5a24",
+      "accent-cool": "#3d6a8e",
+      border: "#d0d0d0",
+    });
+
+    expect(pairings).toEqual(
+      expect.arrayContaining([
+        { text: "text-hint", background: "bg-primary" },
+        { text: "text-hint", background: "bg-inset" },
+        { text: "text-primary", background: "bg-inset" },
+      ]),
+    );
+    expect(pairings.some(({ text }) => text === "border")).toBe(false);
+  });
+});
+
+describe("theme contrast", () => {
+  it("reports the pairs that fall short of AA", () => {
+    const violations = findContrastViolations(
+      { light: { "text-muted": "#909090", "bg-primary": "#ffffff" } },
+      [{ text: "text-muted", background: "bg-primary" }],
+    );
+
+    expect(violations.map(formatViolation)).toEqual(["light: text-muted on bg-primary is 3.19:1"]);
+  });
+
+  it.each(COLOR_THEMES)("meets WCAG AA for every text/background pairing in %s", (theme) => {
+    const violations = findContrastViolations({ [theme]: themes[theme] });
+
+    expect(violations.map(formatViolation)).toEqual([]);
+  });
+});
+
+describe("code theme contrast", () => {
+  it("reports token colors that fall short of AA on the theme's background", () => {
+    const violations = findCodeThemeViolations("dim", {
+      plain: { color: "#c8c8c8", backgroundColor: "#0c0c0c" },
+      styles: [
+        { types: ["comment", "prolog"], style: { color: "#606060" } },
+        { types: ["italic"], style: { fontStyle: "italic" } },
+      ],
+    });
+
+    expect(violations.map(formatViolation)).toEqual([
+      "dim: comment, prolog on background is 3.11:1",
+    ]);
+  });
+
+  it.each(Object.entries(CODE_THEMES))("meets WCAG AA for every token in %s", (id, { prism }) => {
+    const violations = findCodeThemeViolations(id, prism);
+
+    expect(violations.map(formatViolation)).toEqual([]);
+  });
+});
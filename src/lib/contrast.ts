@@ -0,0 +1,156 @@
+// WCAG 2 contrast checks for the color tokens in index.css and the code
+// themes. `@theme` holds the dark theme, which the `:root.<theme>` blocks
+// override token by token.
+
+import type { PrismTheme } from "prism-react-renderer";
+
+export type ThemeTokens = Record<string, string>;
+
+/** A text color the components put on a background color (token names without `--color-`) */
+export interface ColorPairing {
+  text: string;
+  background: string;
+}
+
+export interface ContrastViolation extends ColorPairing {
+  theme: string;
+  ratio: number;
+}
+
+/** WCAG AA minimum for body text */
+export const AA_CONTRAST = 4.5;
+
+/** The theme the `@theme` block defines */
+export const BASE_THEME = "dark";
+
+const BLOCK = /(@theme|:root\.([\w-]+))\s*\{([^}]*)\}/g;
+const TOKEN = /--color-([\w-]+)\s*:\s*(#[0-9a-f]{3}(?:[0-9a-f]{3})?)\s*;/gi;
+
+function parseTokens(body: string): ThemeTokens {
+  return Object.fromEntries(
+    Array.from(body.matchAll(TOKEN), ([, name, value]) => [name, value.toLowerCase()]),
+  );
+}
+
+/**
+ * The full token set of every theme in a stylesheet, keyed by theme name.
+ * Blocks nested in at-rules (like the print overrides) aren't themes and are skipped.
+ */
+export function parseThemes(css: string): Record<string, ThemeTokens> {
+  const themes: Record<string, ThemeTokens> = {};
+  let base: ThemeTokens = {};
+  let depth = 0;
+  let lastIndex = 0;
+
+  for (const match of css.matchAll(BLOCK)) {
+    // Count the braces before this block to tell top-level rules from nested ones
+    const between = css.slice(lastIndex, match.index);
+    depth += (between.match(/\{/g) ?? []).length - (between.match(/\}/g) ?? []).length;
+    lastIndex = match.index + match[0].length;
+    if (depth > 0) continue;
+
+    const [, selector, themeName, body] = match;
+    if (selector === "@theme") {
+      base = { ...base, ...parseTokens(body) };
+      themes[BASE_THEME] = base;
+    } else {
+      themes[themeName] = parseTokens(body);
+    }
+  }
+
+  return Object.fromEntries(
+    Object.entries(themes).map(([name, tokens]) => [
+      name,
+      name === BASE_THEME ? tokens : { ...base, ...tokens },
+    ]),
+  );
+}
+
+function channel(value: number) {
+  const srgb = value / 255;
+  return srgb <= 0.04045 ? srgb / 12.92 : ((srgb + 0.055) / 1.055) ** 2.4;
+}
+
+/** WCAG relative luminance of a `#rgb` or `#rrggbb` color */
+export function relativeLuminance(hex: string): number {
+  const digits =
+    hex.length === 4
+      ? hex
+          .slice(1)
+          .split("")
+          .map((digit) => digit + digit)
+      : [hex.slice(1, 3), hex.slice(3, 5), hex.slice(5, 7)];
+  const [r, g, b] = digits.map((pair) => channel(parseInt(pair, 16)));
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+}
+
+/** Contrast ratio between two colors, from 1 (none) to 21 (black on white) */
+export function contrastRatio(a: string, b: string): number {
+  const [lighter, darker] = [relativeLuminance(a), relativeLuminance(b)].sort((x, y) => y - x);
+  return (lighter + 0.05) / (darker + 0.05);
+}
+
+// The surfaces each accent is used as text on
+const ACCENT_TEXT_BACKGROUNDS: Record<string, string[]> = {
+  "accent-warm": ["bg-primary", "bg-secondary", "bg-tertiary"],
+  "accent-cool": ["bg-secondary", "bg-tertiary"],
+};
+
+/**
+ * Text/background pairings to check in a theme: every `text-*` token on every
+ * `bg-*` token it declares, so new tokens are checked as soon as they're added.
+ * On top of those, the accents where they're text (links and inline code) and
+ * labels on accent buttons. Borders and the dim accent are decorative.
+ */
+export function getColorPairings(tokens: ThemeTokens): ColorPairing[] {
+  const names = Object.keys(tokens);
+  const backgrounds = names.filter((name) => name.startsWith("bg-"));
+  return [
+    ...names
+      .filter((name) => name.startsWith("text-"))
+      .flatMap((text) => backgrounds.map((background) => ({ text, background }))),
+    ...Object.entries(ACCENT_TEXT_BACKGROUNDS).flatMap(([text, surfaces]) =>
+      surfaces.map((background) => ({ text, background })),
+    ),
+    { text: "bg-primary", background: "accent-warm" },
+  ];
+}
+
+/** Every pairing that falls short of WCAG AA in any theme (by default, each theme's own pairings) */
+export function findContrastViolations(
+  themes: Record<string, ThemeTokens>,
+  pairings?: ColorPairing[],
+): ContrastViolation[] {
+  return Object.entries(themes).flatMap(([theme, tokens]) =>
+    (pairings ?? getColorPairings(tokens)).flatMap((pairing) => {
+      const ratio = contrastRatio(tokens[pairing.text], tokens[pairing.background]);
+      return ratio < AA_CONTRAST ? [{ ...pairing, theme, ratio }] : [];
+    }),
+  );
+}
+
+/**
+ * Every colored token in a code theme (and its plain text) that falls short of
+ * WCAG AA on the theme's background. Tokens are named by their Prism types.
+ */
+export function findCodeThemeViolations(
+  name: string,
+  { plain, styles }: PrismTheme,
+): ContrastViolation[] {
+  const background = plain.backgroundColor;
+  if (!background) return [];
+  const colors = [
+    { text: "plain", color: plain.color },
+    ...styles.map(({ types, style }) => ({ text: types.join(", "), color: style.color })),
+  ];
+  return colors.flatMap(({ text, color }) => {
+    if (!color) return [];
+    const ratio = contrastRatio(color, background);
+    return ratio < AA_CONTRAST ? [{ theme: name, text, background: "background", ratio }] : [];
+  });
+}
+
+/** e.g. `light: text-muted on bg-primary is 3.19:1` */
+export function formatViolation({ theme, text, background, ratio }: ContrastViolation) {
+  return `${theme}: ${text} on ${background} is ${ratio.toFixed(2)}:1`;
+}
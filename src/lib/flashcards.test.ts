@@ -0,0 +1,159 @@
+import { describe, expect, it } from "vitest";
+import {
+  addDays,
+  getCardIds,
+  getCardLessonId,
+  getDueCards,
+  getLessonCards,
+  getReferenceCards,
+  readCardSchedules,
+  scheduleCard,
+  toDay,
+} from "./flashcards";
+import { tipCardId } from "./card-ids";
+import type { CardSchedule } from "./flashcards";
+import { getLessonById, lessons, loadLesson } from "../data/lessons";
+import { quickReference } from "../data/quick-reference";
+import type { Lesson, LessonSummary } from "../types";
+
+const TODAY = "2026-10-19";
+
+describe("scheduleCard", () => {
+  it("grows the interval from 1 day to 6 days and then by the ease", () => {
+    const first = scheduleCard(undefined, "good", TODAY);
+    const second = scheduleCard(first, "good", first.due);
+    const third = scheduleCard(second, "good", second.due);
+
+    expect(first).toEqual({ repetitions: 1, interval: 1, ease: 2.5, due: "2026-10-20" });
+    expect(second).toMatchObject({ repetitions: 2, interval: 6, due: "2026-10-26" });
+    expect(third).toMatchObject({ repetitions: 3, interval: 15, due: "2026-11-10" });
+  });
+
+  it("adjusts the ease by how easily the card was recalled", () => {
+    expect(scheduleCard(undefined, "easy", TODAY).ease).toBeCloseTo(2.6);
+    expect(scheduleCard(undefined, "hard", TODAY).ease).toBeCloseTo(2.36);
+  });
+
+  it("starts a lapsed card over without dropping its ease below 1.3", () => {
+    const learned: CardSchedule = { repetitions: 4, interval: 40, ease: 1.4, due: TODAY };
+
+    expect(scheduleCard(learned, "again", TODAY)).toEqual({
+      repetitions: 0,
+      interval: 1,
+      ease: 1.3,
+      due: "2026-10-20",
+    });
+  });
+});
+
+describe("dates", () => {
+  it("formats local days and adds days across month ends", () => {
+    expect(toDay(new Date(2026, 0, 5))).toBe("2026-01-05");
+    expect(addDays("2026-10-30", 3)).toBe("2026-11-02");
+    expect(addDays("2026-12-31", 1)).toBe("2027-01-01");
+  });
+});
+
+describe("getCardIds", () => {
+  const summary = {
+    id: "state",
+    tipCardIds: [["tip:state:a", "tip:state:b"], [], ["tip:state:c"]],
+  } as unknown as LessonSummary;
+
+  it("starts with the Quick Reference and adds tips from viewed sections only", () => {
+    const reference = quickReference.filter((entry) => entry.category === "Lifecycle");
+    const ids = getCardIds([summary], reference.slice(0, 2), { state: [0, 1] });
+
+    expect(ids).toEqual(["ref:useeffect", "ref:useeffect-value", "tip:state:a", "tip:state:b"]);
+  });
+
+  it("gives every Quick Reference row its own id", () => {
+    const ids = getCardIds(lessons, quickReference, {});
+    expect(new Set(ids).size).toBe(quickReference.length);
+  });
+});
+
+describe("cards", () => {
+  it("turns each tip into a card prompted by its section", async () => {
+    const lesson = await loadLesson("state");
+    const cards = getLessonCards(lesson);
+    const firstTip = lesson.sections.findIndex((section) => section.tips?.length);
+
+    expect(cards).toHaveLength(lesson.sections.reduce((n, s) => n + (s.tips?.length ?? 0), 0));
+    expect(cards[0]).toMatchObject({
+      id: tipCardId("state", lesson.sections[firstTip].tips![0]),
+      front: lesson.sections[firstTip].title,
+      back: lesson.sections[firstTip].tips![0],
+      lessonId: "state",
+    });
+    expect(getCardLessonId(cards[0].id)).toBe("state");
+  });
+
+  it("keys tip cards by their text, as the manifest does", async () => {
+    const lesson = await loadLesson("state");
+    const ids = getLessonCards(lesson).map((card) => card.id);
+
+    expect(getLessonById("state")!.tipCardIds.flat()).toEqual(ids);
+    expect(new Set(ids).size).toBe(ids.length);
+  });
+
+  it("keeps tip card ids when tips are added or reordered", () => {
+    const cardIds = (sections: { title: string; tips: string[] }[]) =>
+      getLessonCards({ id: "state", title: "State", sections } as unknown as Lesson).map(
+        (card) => card.id,
+      );
+    const before = cardIds([
+      { title: "A", tips: ["one", "two"] },
+      { title: "B", tips: ["three"] },
+    ]);
+    const after = cardIds([
+      { title: "B", tips: ["new", "three"] },
+      { title: "A", tips: ["two", "one"] },
+    ]);
+
+    expect(after).toHaveLength(4);
+    expect(after).toEqual(expect.arrayContaining(before));
+  });
+
+  it("quizzes Quick Reference rows from React to SwiftUI", () => {
+    const cards = getReferenceCards(quickReference);
+    expect(cards.find((card) => card.id === "ref:usestate")).toMatchObject({
+      front: "useState()",
+      back: "@State",
+      isCode: true,
+    });
+    expect(getCardLessonId("ref:usestate")).toBeNull();
+  });
+});
+
+describe("getDueCards", () => {
+  const ids = ["a", "b", "c", "d", "e"];
+  const schedules: Record<string, CardSchedule> = {
+    a: { repetitions: 2, interval: 6, ease: 2.5, due: "2026-10-25" },
+    b: { repetitions: 1, interval: 1, ease: 2.5, due: TODAY },
+    c: { repetitions: 3, interval: 15, ease: 2.5, due: "2026-10-10" },
+  };
+
+  it("lists overdue reviews oldest first, then new cards up to the allowance", () => {
+    expect(getDueCards(ids, schedules, 1, TODAY)).toEqual(["c", "b", "d"]);
+    expect(getDueCards(ids, schedules, 5, TODAY)).toEqual(["c", "b", "d", "e"]);
+    expect(getDueCards(ids, schedules, -2, TODAY)).toEqual(["c", "b"]);
+  });
+});
+
+describe("readCardSchedules", () => {
+  it("keeps well-formed schedules and drops the rest", () => {
+    const learned: CardSchedule = { repetitions: 2, interval: 6, ease: 2.5, due: TODAY };
+
+    expect(
+      readCardSchedules({
+        a: learned,
+        b: { repetitions: 1, interval: "1", ease: 2.5, due: TODAY },
+        c: { repetitions: 1, interval: 1, ease: 2.5, due: 20261019 },
+        d: null,
+      }),
+    ).toEqual({ a: learned });
+    expect(readCardSchedules([learned])).toEqual({});
+    expect(readCardSchedules("schedules")).toEqual({});
+  });
+});
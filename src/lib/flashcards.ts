@@ -0,0 +1,190 @@
+import type { Lesson, LessonSummary } from "../types";
+import type { QuickReferenceEntry } from "../data/quick-reference";
+import { getSectionAnchors, slugify } from "./anchors";
+import { tipCardId } from "./card-ids";
+
+// Flashcards come from two places: every tip in a lesson (prompted by its
+// section's title) and every row of the Quick Reference table. Card ids come
+// from the text, so review history stays with its card when tips are added or
+// reordered. The manifest carries the tip ids, so the daily count doesn't have
+// to load any lesson content:
+//
+//   tip:<lessonId>:<hash of the tip>
+//   ref:<slug of the React side>
+//
+// Scheduling follows SM-2: each answer is graded, a pass grows the interval
+// (1 day, 6 days, then times the card's ease) and a lapse starts it over.
+
+export interface Flashcard {
+  id: string;
+  /** Where the card comes from, e.g. "State Management › useState → @State" */
+  source: string;
+  front: string;
+  /** What to recall, shown under the front */
+  question: string;
+  back: string;
+  /** Section to open for the full explanation */
+  lessonId?: string;
+  anchor?: string;
+  /** Quick Reference cards are code on both sides */
+  isCode?: boolean;
+}
+
+/** A card's SM-2 state after its latest review */
+export interface CardSchedule {
+  /** Passing reviews in a row */
+  repetitions: number;
+  /** Days until the card is due again */
+  interval: number;
+  /** Interval multiplier, never below `MIN_EASE` */
+  ease: number;
+  /** Day the card is due, as YYYY-MM-DD in local time */
+  due: string;
+}
+
+export const GRADES = ["again", "hard", "good", "easy"] as const;
+
+export type Grade = (typeof GRADES)[number];
+
+/** SM-2's 0–5 recall quality for each answer button */
+const GRADE_QUALITY: Record<Grade, number> = { again: 1, hard: 3, good: 4, easy: 5 };
+
+const INITIAL_EASE = 2.5;
+const MIN_EASE = 1.3;
+
+/** Unseen cards introduced per day, on top of the reviews that are due */
+export const NEW_CARDS_PER_DAY = 20;
+
+export function referenceCardId(entry: QuickReferenceEntry) {
+  return `ref:${slugify(entry.react)}`;
+}
+
+/**
+ * Every card id in the order new cards are introduced: the Quick Reference
+ * first, then each lesson's tips in curriculum order. Tips only join once the
+ * reader has seen their section, so reviews never get ahead of the lessons.
+ */
+export function getCardIds(
+  lessons: LessonSummary[],
+  reference: QuickReferenceEntry[],
+  viewedSections: Record<string, number[]>,
+) {
+  const tipIds = lessons.flatMap((lesson) =>
+    lesson.tipCardIds.flatMap((ids, sectionIndex) =>
+      viewedSections[lesson.id]?.includes(sectionIndex) ? ids : [],
+    ),
+  );
+  // A tip repeated word for word is one card
+  return [...new Set([...reference.map(referenceCardId), ...tipIds])];
+}
+
+export function getLessonCards(lesson: Lesson): Flashcard[] {
+  const anchors = getSectionAnchors(lesson);
+  return lesson.sections.flatMap((section, sectionIndex) =>
+    (section.tips ?? []).map((tip, tipIndex, tips) => ({
+      id: tipCardId(lesson.id, tip),
+      source: `${lesson.title} › ${section.title}`,
+      front: section.title,
+      question:
+        tips.length > 1
+          ? `Tip ${tipIndex + 1} of ${tips.length}: what should a React dev remember?`
+          : "What should a React dev remember?",
+      back: tip,
+      lessonId: lesson.id,
+      anchor: anchors[sectionIndex],
+    })),
+  );
+}
+
+export function getReferenceCards(reference: QuickReferenceEntry[]): Flashcard[] {
+  return reference.map((entry) => ({
+    id: referenceCardId(entry),
+    source: "Quick Reference",
+    front: entry.react,
+    question: "What's the SwiftUI equivalent?",
+    back: entry.swiftui,
+    isCode: true,
+  }));
+}
+
+/** "tip:state:1x2k9f0" → "state"; null for cards that don't belong to a lesson */
+export function getCardLessonId(cardId: string) {
+  return cardId.match(/^tip:([^:]+):/)?.[1] ?? null;
+}
+
+/** Today (or `date`) as YYYY-MM-DD in local time */
+export function toDay(date = new Date()) {
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+export function addDays(day: string, days: number) {
+  const [year, month, date] = day.split("-").map(Number);
+  return toDay(new Date(year, month - 1, date + days));
+}
+
+/** The card's next schedule after answering it with `grade` on `today` */
+export function scheduleCard(
+  previous: CardSchedule | undefined,
+  grade: Grade,
+  today: string,
+): CardSchedule {
+  const quality = GRADE_QUALITY[grade];
+  const { repetitions, interval, ease } = previous ?? {
+    repetitions: 0,
+    interval: 0,
+    ease: INITIAL_EASE,
+  };
+
+  const nextEase = Math.max(MIN_EASE, ease + 0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02));
+
+  if (quality < 3) {
+    return { repetitions: 0, interval: 1, ease: nextEase, due: addDays(today, 1) };
+  }
+
+  const nextInterval = repetitions === 0 ? 1 : repetitions === 1 ? 6 : Math.round(interval * ease);
+  return {
+    repetitions: repetitions + 1,
+    interval: nextInterval,
+    ease: nextEase,
+    due: addDays(today, nextInterval),
+  };
+}
+
+function isCardSchedule(value: unknown): value is CardSchedule {
+  if (!value || typeof value !== "object") return false;
+  const { repetitions, interval, ease, due } = value as Record<string, unknown>;
+  return (
+    Number.isInteger(repetitions) &&
+    Number.isFinite(interval) &&
+    Number.isFinite(ease) &&
+    typeof due === "string" &&
+    /^\d{4}-\d{2}-\d{2}$/.test(due)
+  );
+}
+
+/** Keeps the well-formed schedules of a stored value, dropping anything else */
+export function readCardSchedules(value: unknown): Record<string, CardSchedule> {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return {};
+  return Object.fromEntries(
+    Object.entries(value).filter(([, schedule]) => isCardSchedule(schedule)),
+  );
+}
+
+/**
+ * Cards to study today: reviews that are due (oldest first), then as many
+ * unseen cards as today's new-card allowance has left.
+ */
+export function getDueCards(
+  cardIds: string[],
+  schedules: Record<string, CardSchedule>,
+  newCardsLeft: number,
+  today: string,
+) {
+  const reviews = cardIds
+    .filter((id) => schedules[id] && schedules[id].due <= today)
+    .sort((a, b) => schedules[a].due.localeCompare(schedules[b].due));
+  const newCards = cardIds.filter((id) => !schedules[id]).slice(0, Math.max(0, newCardsLeft));
+  return [...reviews, ...newCards];
+}
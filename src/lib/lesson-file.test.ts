@@ -0,0 +1,166 @@
+import { describe, expect, it } from "vitest";
+import { LessonFileError, parseLessonFile } from "./lesson-file";
+
+const frontmatter = `---
+id: state
+title: State Management
+description: useState and friends
+module: swiftui
+category: Fundamentals
+order: 12
+prerequisites: basics, property-wrappers
+---
+`;
+
+describe("parseLessonFile", () => {
+  it("reads frontmatter, comparison sections and the quiz", () => {
+    const source = `${frontmatter}
+## useState → @State {#usestate}
+
+Local **state** lives in \`@State\`.
+
+\`\`\`tsx react title="React \\"hooks\\"" highlights="1,3-4"
+const [count, setCount] = useState(0);
+\`\`\`
+
+\`\`\`swift swiftui highlights="1"
+@State private var count = 0
+Text("Count: \\(count)")
+\`\`\`
+
+\`\`\`links
+1 -> 1-2
+\`\`\`
+
+- Mark @State as private
+- No setter needed,
+  just assign
+
+# Quiz
+
+## Which wrapper owns local state?
+
+- [ ] \`@Binding\`
+- [x] \`@State\`
+
+\`@State\` is owned by the view.
+`;
+
+    expect(parseLessonFile(source)).toEqual({
+      id: "state",
+      title: "State Management",
+      description: "useState and friends",
+      module: "swiftui",
+      category: "Fundamentals",
+      order: 12,
+      prerequisites: ["basics", "property-wrappers"],
+      sections: [
+        {
+          format: "comparison",
+          id: "usestate",
+          title: "useState → @State",
+          explanation: "Local **state** lives in `@State`.",
+          leftTitle: 'React "hooks"',
+          react: {
+            code: "const [count, setCount] = useState(0);",
+            highlights: [1, [3, 4]],
+          },
+          swiftui: {
+            code: '@State private var count = 0\nText("Count: \\(count)")',
+            highlights: [1],
+          },
+          links: [{ react: 1, swiftui: [1, 2] }],
+          tips: ["Mark @State as private", "No setter needed, just assign"],
+        },
+      ],
+      quiz: [
+        {
+          question: "Which wrapper owns local state?",
+          options: ["`@Binding`", "`@State`"],
+          correctIndex: 1,
+          explanation: "`@State` is owned by the view.",
+        },
+      ],
+    });
+  });
+
+  it("reads single-code sections and keeps # lines inside code", () => {
+    const source = `${frontmatter}
+## Persisting values
+
+Values that survive relaunches.
+
+\`\`\`swift
+#if DEBUG
+## not a heading
+#endif
+\`\`\`
+`;
+
+    expect(parseLessonFile(source).sections).toEqual([
+      {
+        format: "single",
+        title: "Persisting values",
+        explanation: "Values that survive relaunches.",
+        language: "swift",
+        code: { code: "#if DEBUG\n## not a heading\n#endif" },
+      },
+    ]);
+  });
+
+  it("allows longer fences around code that contains backticks", () => {
+    const source = `${frontmatter}
+## Template literals
+
+Markdown in a string.
+
+\`\`\`\`typescript
+const doc = \`
+\`\`\`swift
+\`;
+\`\`\`\`
+`;
+
+    expect(parseLessonFile(source).sections[0]).toMatchObject({
+      language: "typescript",
+      code: { code: "const doc = `\n```swift\n`;" },
+    });
+  });
+
+  it.each([
+    ["missing frontmatter", "## Title", "lesson:1: expected frontmatter starting with ---"],
+    [
+      "a missing key",
+      frontmatter.replace("category: Fundamentals\n", ""),
+      'lesson:1: frontmatter is missing "category"',
+    ],
+    [
+      "an unknown key",
+      frontmatter.replace("order: 12", "orde: 12"),
+      'lesson:7: unknown frontmatter key "orde"',
+    ],
+    [
+      "a comparison with one side",
+      `${frontmatter}\n## Title\n\nText\n\n\`\`\`tsx react\nx\n\`\`\`\n`,
+      "lesson:11: a comparison needs exactly one react and one swiftui code block",
+    ],
+    [
+      "prose after the code",
+      `${frontmatter}\n## Title\n\nText\n\n\`\`\`swift\nx\n\`\`\`\n\nMore text\n`,
+      "lesson:19: text after the code must be a bullet list of tips",
+    ],
+    [
+      "an unclosed code block",
+      `${frontmatter}\n## Title\n\n\`\`\`swift\nx\n`,
+      "lesson:13: code block is not closed",
+    ],
+    [
+      "a quiz without an answer",
+      `${frontmatter}\n# Quiz\n\n## Question?\n\n- [ ] A\n- [ ] B\n`,
+      "lesson:13: mark the correct option with [x]",
+    ],
+  ])("reports %s with its line number", (_, source, message) => {
+    expect(() => parseLessonFile(source)).toThrow(LessonFileError);
+    expect(() => parseLessonFile(source)).toThrow(message);
+  });
+});
@@ -0,0 +1,342 @@
+import type { Lesson, LessonSection, LineLink, LineRange, QuizQuestion } from "../types";
+
+// Lessons live in src/content/lessons/<id>.md, one file per lesson:
+//
+//   ---
+//   id: state
+//   title: State Management
+//   description: Learn how useState maps to @State
+//   module: swiftui
+//   category: Fundamentals
+//   order: 12
+//   prerequisites: basics, property-wrappers
+//   ---
+//
+//   ## useState → @State {#usestate}
+//
+//   Explanation, in the markdown subset from lib/markdown.ts.
+//
+//   ```tsx react title="React" highlights="2,4-5"
+//   const [count, setCount] = useState(0);
+//   ```
+//
+//   ```swift swiftui highlights="1"
+//   @State private var count = 0
+//   ```
+//
+//   ```links
+//   1 -> 1
+//   ```
+//
+//   - Tips are the bullet list after the code
+//
+//   # Quiz
+//
+//   ## Which property wrapper owns local view state?
+//
+//   - [x] `@State`
+//   - [ ] `@Binding`
+//
+//   Explanation shown after answering.
+//
+// A section with `react` and `swiftui` blocks is a comparison. A section with
+// one unlabelled `swift` or `typescript` block is a single-code section.
+
+export class LessonFileError extends Error {
+  constructor(file: string, line: number, message: string) {
+    super(`${file}:${line}: ${message}`);
+    this.name = "LessonFileError";
+  }
+}
+
+const FRONTMATTER_KEYS = [
+  "id",
+  "title",
+  "description",
+  "module",
+  "category",
+  "order",
+  "prerequisites",
+];
+const MODULES: Lesson["module"][] = ["swift-basics", "swiftui"];
+const SINGLE_LANGUAGES = ["swift", "typescript"] as const;
+
+type Fail = (line: number, message: string) => never;
+
+interface Line {
+  text: string;
+  /** 1-based, for error messages */
+  number: number;
+}
+
+interface CodeFence {
+  language: string;
+  role?: string;
+  attributes: Record<string, string>;
+  code: string;
+  line: number;
+}
+
+/** `"3"` → 3, `"2-4"` → [2, 4] */
+function parseRange(text: string): LineRange | null {
+  const match = /^(\d+)(?:-(\d+))?$/.exec(text.trim());
+  if (!match) return null;
+  return match[2] ? [Number(match[1]), Number(match[2])] : Number(match[1]);
+}
+
+/** `tsx react title="Hooks"` → words and key/value attributes */
+function parseInfoString(info: string) {
+  const words: string[] = [];
+  const attributes: Record<string, string> = {};
+  for (const match of info.matchAll(/(\w+)="((?:[^"\\]|\\.)*)"|(\S+)/g)) {
+    if (match[3] !== undefined) {
+      words.push(match[3]);
+    } else {
+      attributes[match[1]] = match[2].replace(/\\(.)/g, "$1");
+    }
+  }
+  return { words, attributes };
+}
+
+/** A fence closes with at least as many backticks as opened it, and nothing else */
+function isClosingFence(text: string, marker: string) {
+  return text.startsWith(marker) && /^`*\s*$/.test(text.slice(marker.length));
+}
+
+/** Strips blank lines at both ends and joins the rest */
+function joinLines(lines: Line[]) {
+  return lines
+    .map((line) => line.text)
+    .join("\n")
+    .trim();
+}
+
+export function parseLessonFile(source: string, file = "lesson"): Lesson {
+  const lines: Line[] = source
+    .replace(/\r\n/g, "\n")
+    .split("\n")
+    .map((text, index) => ({ text, number: index + 1 }));
+  const fail: Fail = (line, message) => {
+    throw new LessonFileError(file, line, message);
+  };
+
+  // Frontmatter
+  if (lines[0]?.text !== "---") fail(1, "expected frontmatter starting with ---");
+  const frontmatterEnd = lines.findIndex((line, index) => index > 0 && line.text === "---");
+  if (frontmatterEnd === -1) fail(1, "frontmatter is not closed with ---");
+
+  const meta: Record<string, string> = {};
+  for (const line of lines.slice(1, frontmatterEnd)) {
+    if (!line.text.trim()) continue;
+    const match = /^([\w-]+):\s*(.*)$/.exec(line.text);
+    if (!match) fail(line.number, `expected "key: value", got "${line.text}"`);
+    const [, key, value] = match;
+    if (!FRONTMATTER_KEYS.includes(key)) fail(line.number, `unknown frontmatter key "${key}"`);
+    meta[key] = value.trim();
+  }
+  for (const key of FRONTMATTER_KEYS.filter((key) => key !== "prerequisites")) {
+    if (!meta[key]) fail(1, `frontmatter is missing "${key}"`);
+  }
+  const module = meta.module as Lesson["module"];
+  if (!MODULES.includes(module)) fail(1, `unknown module "${meta.module}"`);
+  const order = Number(meta.order);
+  if (!Number.isFinite(order)) fail(1, `order "${meta.order}" is not a number`);
+
+  const lesson: Lesson = {
+    id: meta.id,
+    title: meta.title,
+    description: meta.description,
+    module,
+    category: meta.category,
+    order,
+    sections: [],
+  };
+  if (meta.prerequisites) {
+    lesson.prerequisites = meta.prerequisites.split(",").map((id) => id.trim());
+  }
+
+  // Split the body into sections (##) and the optional quiz (# Quiz), keeping
+  // fenced code intact so `#` comments in code aren't read as headings.
+  type Block = { heading: Line; lines: Line[] };
+  const sectionBlocks: Block[] = [];
+  const quizBlocks: Block[] = [];
+  let inQuiz = false;
+  let current: Block | null = null;
+  let fence: string | null = null;
+  let fenceLine = 0;
+
+  for (const line of lines.slice(frontmatterEnd + 1)) {
+    if (fence) {
+      if (isClosingFence(line.text, fence)) fence = null;
+      current?.lines.push(line);
+      continue;
+    }
+
+    const opening = /^(`{3,})/.exec(line.text);
+    if (opening) {
+      fence = opening[1];
+      fenceLine = line.number;
+      if (!current) fail(line.number, "code block outside of a section");
+      current.lines.push(line);
+    } else if (line.text === "# Quiz") {
+      inQuiz = true;
+      current = null;
+    } else if (line.text.startsWith("## ")) {
+      current = { heading: line, lines: [] };
+      (inQuiz ? quizBlocks : sectionBlocks).push(current);
+    } else if (/^#{1,6} /.test(line.text)) {
+      fail(line.number, `unexpected heading "${line.text}"`);
+    } else if (current) {
+      current.lines.push(line);
+    } else if (line.text.trim()) {
+      fail(line.number, "text outside of a section");
+    }
+  }
+  if (fence) fail(fenceLine, "code block is not closed");
+
+  lesson.sections = sectionBlocks.map((block) => parseSection(block, fail));
+  if (inQuiz) {
+    lesson.quiz = quizBlocks.map((block) => parseQuestion(block, fail));
+  }
+
+  return lesson;
+}
+
+function parseSection({ heading, lines }: { heading: Line; lines: Line[] }, fail: Fail) {
+  const headingMatch = /^## (.*?)(?:\s+\{#([\w-]+)\})?\s*$/.exec(heading.text)!;
+  const title = headingMatch[1];
+  const id = headingMatch[2];
+
+  const explanation: Line[] = [];
+  const tips: Line[] = [];
+  const fences: CodeFence[] = [];
+  let links: LineLink[] | undefined;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const opening = /^(`{3,})(.*)$/.exec(line.text);
+
+    if (opening) {
+      const [, marker, info] = opening;
+      const end = lines.findIndex(
+        (candidate, index) => index > i && isClosingFence(candidate.text, marker),
+      );
+      const body = lines.slice(i + 1, end);
+      const { words, attributes } = parseInfoString(info);
+      i = end;
+
+      if (words[0] === "links") {
+        links = body
+          .filter((entry) => entry.text.trim())
+          .map((entry) => {
+            const parts = entry.text.split("->");
+            const react = parseRange(parts[0]);
+            const swiftui = parts.length === 2 ? parseRange(parts[1]) : null;
+            if (react === null || swiftui === null) {
+              fail(entry.number, `expected "react-lines -> swiftui-lines", got "${entry.text}"`);
+            }
+            return { react, swiftui };
+          });
+      } else {
+        fences.push({
+          language: words[0] ?? "",
+          role: words[1],
+          attributes,
+          code: body.map((entry) => entry.text).join("\n"),
+          line: line.number,
+        });
+      }
+      continue;
+    }
+
+    if (fences.length === 0) {
+      explanation.push(line);
+    } else if (/^[-*+]\s+/.test(line.text)) {
+      tips.push({ ...line, text: line.text.replace(/^[-*+]\s+/, "") });
+    } else if (line.text.trim() && /^\s/.test(line.text) && tips.length > 0) {
+      // Indented continuation of the previous tip
+      tips[tips.length - 1].text += ` ${line.text.trim()}`;
+    } else if (line.text.trim()) {
+      fail(line.number, "text after the code must be a bullet list of tips");
+    }
+  }
+
+  const example = (fence: CodeFence) => {
+    const highlights = fence.attributes.highlights?.split(",").map((part) => {
+      const range = parseRange(part);
+      if (range === null) fail(fence.line, `invalid highlights "${fence.attributes.highlights}"`);
+      return range;
+    });
+    return highlights ? { code: fence.code, highlights } : { code: fence.code };
+  };
+
+  const base = {
+    ...(id ? { id } : {}),
+    title,
+    explanation: joinLines(explanation),
+    ...(tips.length > 0 ? { tips: tips.map((tip) => tip.text.trim()) } : {}),
+  };
+
+  const react = fences.find((fence) => fence.role === "react");
+  const swiftui = fences.find((fence) => fence.role === "swiftui");
+  let section: LessonSection;
+
+  if (react || swiftui) {
+    if (!react || !swiftui || fences.length !== 2) {
+      fail(heading.number, "a comparison needs exactly one react and one swiftui code block");
+    }
+    section = {
+      format: "comparison",
+      ...base,
+      ...(react.attributes.title ? { leftTitle: react.attributes.title } : {}),
+      ...(swiftui.attributes.title ? { rightTitle: swiftui.attributes.title } : {}),
+      react: example(react),
+      swiftui: example(swiftui),
+      ...(links ? { links } : {}),
+    };
+  } else {
+    if (fences.length !== 1) {
+      fail(heading.number, "a section needs one code block, or a react and a swiftui block");
+    }
+    const [fence] = fences;
+    const language = SINGLE_LANGUAGES.find((candidate) => candidate === fence.language);
+    if (!language) {
+      fail(fence.line, `single code blocks must be swift or typescript, got "${fence.language}"`);
+    }
+    if (links) fail(heading.number, "links only apply to comparisons");
+    section = { format: "single", ...base, language, code: example(fence) };
+  }
+
+  return section;
+}
+
+function parseQuestion(
+  { heading, lines }: { heading: Line; lines: Line[] },
+  fail: Fail,
+): QuizQuestion {
+  const options: string[] = [];
+  let correctIndex = -1;
+  const explanation: Line[] = [];
+
+  for (const line of lines) {
+    const option = /^[-*+]\s+\[( |x)\]\s+(.*)$/.exec(line.text);
+    if (option && explanation.every((entry) => !entry.text.trim())) {
+      if (option[1] === "x") {
+        if (correctIndex !== -1) fail(line.number, "only one option can be marked [x]");
+        correctIndex = options.length;
+      }
+      options.push(option[2].trim());
+    } else {
+      explanation.push(line);
+    }
+  }
+
+  if (correctIndex === -1) fail(heading.number, "mark the correct option with [x]");
+
+  return {
+    question: heading.text.slice(3).trim(),
+    options,
+    correctIndex,
+    explanation: joinLines(explanation),
+  };
+}
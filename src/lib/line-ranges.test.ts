@@ -0,0 +1,40 @@
+import { describe, expect, it } from "vitest";
+import { counterpartLine, formatLineRange, sliceLines, trimBlankLines } from "./line-ranges";
+
+describe("trimBlankLines", () => {
+  it("keeps the indentation of the first line", () => {
+    expect(trimBlankLines("\n\n    Text()\n}\n  \n")).toBe("    Text()\n}");
+  });
+});
+
+describe("sliceLines", () => {
+  const code = '\nstruct A: View {\n    var body: some View {\n        Text("A")\n    }\n}\n';
+
+  it("returns the lines in the range without their shared indentation", () => {
+    expect(sliceLines(code, [2, 4])).toBe('var body: some View {\n    Text("A")\n}');
+    expect(sliceLines(code, 3)).toBe('Text("A")');
+  });
+});
+
+describe("formatLineRange", () => {
+  it("describes single lines and ranges", () => {
+    expect(formatLineRange(2)).toBe("line 2");
+    expect(formatLineRange([3, 5])).toBe("lines 3–5");
+  });
+});
+
+describe("counterpartLine", () => {
+  const links = [{ react: 2, swiftui: [3, 5] as [number, number] }];
+  const lineCounts = { react: 5, swiftui: 9 };
+
+  it("follows links in either direction", () => {
+    expect(counterpartLine(2, "react", links, lineCounts)).toBe(3);
+    expect(counterpartLine(4, "swiftui", links, lineCounts)).toBe(2);
+  });
+
+  it("keeps the relative position for unlinked lines", () => {
+    expect(counterpartLine(1, "react", links, lineCounts)).toBe(1);
+    expect(counterpartLine(5, "react", links, lineCounts)).toBe(9);
+    expect(counterpartLine(3, "react", links, lineCounts)).toBe(5);
+  });
+});
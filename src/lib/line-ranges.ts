@@ -0,0 +1,62 @@
+import type { LineLink, LineRange } from "../types";
+
+export function rangeBounds(range: LineRange): [number, number] {
+  return typeof range === "number" ? [range, range] : range;
+}
+
+export function rangeContains(range: LineRange, line: number): boolean {
+  const [start, end] = rangeBounds(range);
+  return line >= start && line <= end;
+}
+
+export function expandRanges(ranges: LineRange[] = []): Set<number> {
+  const lines = new Set<number>();
+  for (const range of ranges) {
+    const [start, end] = rangeBounds(range);
+    for (let line = start; line <= end; line++) {
+      lines.add(line);
+    }
+  }
+  return lines;
+}
+
+/** Drops blank lines at both ends, keeping the first line's indentation */
+export function trimBlankLines(code: string) {
+  return code.replace(/^(?:[ \t]*\n)+/, "").trimEnd();
+}
+
+/** The lines in `range` of a code block, with their common indentation removed */
+export function sliceLines(code: string, range: LineRange) {
+  const [start, end] = rangeBounds(range);
+  const lines = trimBlankLines(code)
+    .split("\n")
+    .slice(start - 1, end);
+  const indent = Math.min(
+    ...lines.filter((line) => line.trim()).map((line) => line.length - line.trimStart().length),
+  );
+  return lines.map((line) => line.slice(Number.isFinite(indent) ? indent : 0)).join("\n");
+}
+
+/** `2` → "line 2", `[3, 5]` → "lines 3–5" */
+export function formatLineRange(range: LineRange) {
+  const [start, end] = rangeBounds(range);
+  return start === end ? `line ${start}` : `lines ${start}–${end}`;
+}
+
+/**
+ * The line in the other block that corresponds to `line`: the start of its
+ * linked range if there is one, otherwise the line at the same relative
+ * position.
+ */
+export function counterpartLine(
+  line: number,
+  side: keyof LineLink,
+  links: LineLink[],
+  lineCounts: Record<keyof LineLink, number>,
+) {
+  const other = side === "react" ? "swiftui" : "react";
+  const link = links.find((candidate) => rangeContains(candidate[side], line));
+  if (link) return rangeBounds(link[other])[0];
+  const position = (line - 1) / Math.max(lineCounts[side] - 1, 1);
+  return Math.round(position * (lineCounts[other] - 1)) + 1;
+}
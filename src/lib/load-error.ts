@@ -0,0 +1,10 @@
+/**
+ * Code or content that couldn't be fetched: a dropped connection, or a chunk
+ * gone after a deploy. `LoadErrorBoundary` offers a retry for these.
+ */
+export class LoadError extends Error {
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, options);
+    this.name = "LoadError";
+  }
+}
@@ -0,0 +1,93 @@
+import { describe, expect, it } from "vitest";
+import { parseInline, parseMarkdown, resolveLink } from "./markdown";
+
+describe("parseInline", () => {
+  it("parses strong, emphasis and code spans", () => {
+    expect(parseInline("**bold** and *italic* with `code`")).toEqual([
+      { type: "strong", children: [{ type: "text", text: "bold" }] },
+      { type: "text", text: " and " },
+      { type: "em", children: [{ type: "text", text: "italic" }] },
+      { type: "text", text: " with " },
+      { type: "code", text: "code" },
+    ]);
+  });
+
+  it("keeps markdown characters inside code spans literal", () => {
+    expect(parseInline("`**not bold**`")).toEqual([{ type: "code", text: "**not bold**" }]);
+  });
+
+  it("leaves unmatched and word-internal delimiters alone", () => {
+    expect(parseInline("snake_case and image/* files")).toEqual([
+      { type: "text", text: "snake_case and image/* files" },
+    ]);
+    expect(parseInline("5 * 3 = 15")).toEqual([{ type: "text", text: "5 * 3 = 15" }]);
+  });
+
+  it("only treats markdown punctuation as escapable", () => {
+    expect(parseInline("\\*literal\\* and @Environment(\\.colorScheme)")).toEqual([
+      { type: "text", text: "*literal* and @Environment(\\.colorScheme)" },
+    ]);
+  });
+
+  it("parses links with formatted text", () => {
+    expect(parseInline("see [the **state** lesson](lesson:state)")).toEqual([
+      { type: "text", text: "see " },
+      {
+        type: "link",
+        href: "lesson:state",
+        children: [
+          { type: "text", text: "the " },
+          { type: "strong", children: [{ type: "text", text: "state" }] },
+          { type: "text", text: " lesson" },
+        ],
+      },
+    ]);
+  });
+
+  it("treats brackets without a target as text", () => {
+    expect(parseInline("like [value, setValue]")).toEqual([
+      { type: "text", text: "like [value, setValue]" },
+    ]);
+  });
+});
+
+describe("parseMarkdown", () => {
+  it("splits paragraphs on blank lines", () => {
+    const blocks = parseMarkdown("First line\ncontinues.\n\nSecond paragraph.");
+    expect(blocks).toEqual([
+      { type: "paragraph", children: [{ type: "text", text: "First line continues." }] },
+      { type: "paragraph", children: [{ type: "text", text: "Second paragraph." }] },
+    ]);
+  });
+
+  it("parses bullet and numbered lists", () => {
+    const blocks = parseMarkdown("Steps:\n1. Install\n2. Run\n\n- one\n- two\n  wrapped");
+    expect(blocks).toEqual([
+      { type: "paragraph", children: [{ type: "text", text: "Steps:" }] },
+      {
+        type: "list",
+        ordered: true,
+        items: [[{ type: "text", text: "Install" }], [{ type: "text", text: "Run" }]],
+      },
+      {
+        type: "list",
+        ordered: false,
+        items: [[{ type: "text", text: "one" }], [{ type: "text", text: "two wrapped" }]],
+      },
+    ]);
+  });
+});
+
+describe("resolveLink", () => {
+  it.each([
+    ["lesson:state#appstorage", { kind: "internal", to: "/lessons/state#appstorage" }],
+    ["/lessons/state", { kind: "internal", to: "/lessons/state" }],
+    ["#tips", { kind: "internal", to: "#tips" }],
+    ["https://developer.apple.com", { kind: "external", href: "https://developer.apple.com" }],
+    ["javascript:alert(1)", null],
+    ["//evil.example", null],
+    ["data:text/html,hi", null],
+  ])("%s", (href, expected) => {
+    expect(resolveLink(href)).toEqual(expected);
+  });
+});
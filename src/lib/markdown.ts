@@ -0,0 +1,198 @@
+// A deliberately small markdown subset for lesson prose: paragraphs, bullet
+// and numbered lists, **strong**, *emphasis*, `code` and [links](href).
+// Parsing produces plain data; components/Markdown.tsx turns it into React
+// elements, so lesson content never reaches the DOM as HTML.
+
+export type InlineNode =
+  | { type: "text"; text: string }
+  | { type: "code"; text: string }
+  | { type: "strong"; children: InlineNode[] }
+  | { type: "em"; children: InlineNode[] }
+  | { type: "link"; href: string; children: InlineNode[] };
+
+export type BlockNode =
+  | { type: "paragraph"; children: InlineNode[] }
+  | { type: "list"; ordered: boolean; items: InlineNode[][] };
+
+// Only markdown punctuation can be escaped; `\(name)` and `\.self` in Swift
+// snippets keep their backslash.
+const ESCAPABLE = new Set(["\\", "`", "*", "_", "[", "]"]);
+
+const isWordChar = (char: string | undefined) => char !== undefined && /[\p{L}\p{N}]/u.test(char);
+const isSpace = (char: string | undefined) => char === undefined || /\s/.test(char);
+
+function pushText(nodes: InlineNode[], text: string) {
+  const last = nodes[nodes.length - 1];
+  if (last?.type === "text") {
+    last.text += text;
+  } else {
+    nodes.push({ type: "text", text });
+  }
+}
+
+/** Index of the closing delimiter for emphasis opened at `from`, or -1 */
+function findClosingDelimiter(text: string, delimiter: string, from: number) {
+  let i = from;
+  while (i < text.length) {
+    if (text[i] === "\\" && ESCAPABLE.has(text[i + 1])) {
+      i += 2;
+      continue;
+    }
+    if (text[i] === "`") {
+      const end = text.indexOf("`", i + 1);
+      if (end !== -1) {
+        i = end + 1;
+        continue;
+      }
+    }
+    if (
+      text.startsWith(delimiter, i) &&
+      !isSpace(text[i - 1]) &&
+      // `**` closes strong, so a single `*` must not be half of one
+      !(delimiter === "*" && text[i + 1] === "*") &&
+      // Underscores inside words (snake_case) never close emphasis
+      !(delimiter === "_" && isWordChar(text[i + 1]))
+    ) {
+      return i;
+    }
+    i++;
+  }
+  return -1;
+}
+
+export function parseInline(text: string): InlineNode[] {
+  const nodes: InlineNode[] = [];
+  let i = 0;
+
+  while (i < text.length) {
+    const char = text[i];
+
+    if (char === "\\" && ESCAPABLE.has(text[i + 1])) {
+      pushText(nodes, text[i + 1]);
+      i += 2;
+      continue;
+    }
+
+    if (char === "`") {
+      const end = text.indexOf("`", i + 1);
+      if (end !== -1) {
+        nodes.push({ type: "code", text: text.slice(i + 1, end) });
+        i = end + 1;
+        continue;
+      }
+    }
+
+    if (text.startsWith("**", i) && !isSpace(text[i + 2])) {
+      const end = findClosingDelimiter(text, "**", i + 2);
+      if (end !== -1) {
+        nodes.push({ type: "strong", children: parseInline(text.slice(i + 2, end)) });
+        i = end + 2;
+        continue;
+      }
+    }
+
+    if (
+      (char === "*" || char === "_") &&
+      !isSpace(text[i + 1]) &&
+      !(char === "_" && isWordChar(text[i - 1]))
+    ) {
+      const end = findClosingDelimiter(text, char, i + 1);
+      if (end !== -1 && end > i + 1) {
+        nodes.push({ type: "em", children: parseInline(text.slice(i + 1, end)) });
+        i = end + 1;
+        continue;
+      }
+    }
+
+    if (char === "[") {
+      const link = /^\[((?:\\.|[^\]\\])+)\]\(([^()\s]+)\)/.exec(text.slice(i));
+      if (link) {
+        nodes.push({ type: "link", href: link[2], children: parseInline(link[1]) });
+        i += link[0].length;
+        continue;
+      }
+    }
+
+    pushText(nodes, char);
+    i++;
+  }
+
+  return nodes;
+}
+
+const LIST_ITEM = /^\s*(?:([-*+])|(\d+)[.)])\s+(.*)$/;
+
+export function parseMarkdown(source: string): BlockNode[] {
+  const blocks: BlockNode[] = [];
+  let paragraph: string[] = [];
+  let list: { ordered: boolean; items: string[][] } | null = null;
+
+  const flushParagraph = () => {
+    if (paragraph.length > 0) {
+      blocks.push({ type: "paragraph", children: parseInline(paragraph.join(" ")) });
+      paragraph = [];
+    }
+  };
+
+  const flushList = () => {
+    if (list) {
+      blocks.push({
+        type: "list",
+        ordered: list.ordered,
+        items: list.items.map((lines) => parseInline(lines.join(" "))),
+      });
+      list = null;
+    }
+  };
+
+  for (const rawLine of source.split("\n")) {
+    const line = rawLine.trim();
+
+    if (!line) {
+      flushParagraph();
+      flushList();
+      continue;
+    }
+
+    const item = LIST_ITEM.exec(line);
+    if (item) {
+      flushParagraph();
+      const ordered = item[2] !== undefined;
+      if (list && list.ordered !== ordered) flushList();
+      list ??= { ordered, items: [] };
+      list.items.push([item[3]]);
+    } else if (list) {
+      // Continuation of the previous list item
+      list.items[list.items.length - 1].push(line);
+    } else {
+      paragraph.push(line);
+    }
+  }
+
+  flushParagraph();
+  flushList();
+  return blocks;
+}
+
+export type ResolvedLink = { kind: "internal"; to: string } | { kind: "external"; href: string };
+
+/**
+ * `lesson:state#appstorage` and `/lessons/state` stay inside the app; http(s)
+ * and mailto links open externally. Anything else (`javascript:`, `data:`) is
+ * rejected and rendered as plain text.
+ */
+export function resolveLink(href: string): ResolvedLink | null {
+  if (href.startsWith("lesson:")) {
+    return { kind: "internal", to: `/lessons/${href.slice("lesson:".length)}` };
+  }
+  if (href.startsWith("/") && !href.startsWith("//")) {
+    return { kind: "internal", to: href };
+  }
+  if (href.startsWith("#")) {
+    return { kind: "internal", to: href };
+  }
+  if (/^(?:https?:|mailto:)/i.test(href)) {
+    return { kind: "external", href };
+  }
+  return null;
+}
@@ -0,0 +1,171 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  deleteOldCaches,
+  getCacheName,
+  getPrecacheKey,
+  precache,
+  respond,
+  type PrecacheManifest,
+} from "./offline-cache";
+
+const ORIGIN = "https://example.com";
+
+/** In-memory Cache API: a cache per name, entries keyed by path */
+function createCacheStorage(initial: Record<string, Record<string, string>> = {}) {
+  const stores = new Map<string, Map<string, Response>>();
+  for (const [name, entries] of Object.entries(initial)) {
+    stores.set(
+      name,
+      new Map(Object.entries(entries).map(([url, body]) => [url, new Response(body)])),
+    );
+  }
+
+  const open = vi.fn(async (name: string) => {
+    if (!stores.has(name)) stores.set(name, new Map());
+    const store = stores.get(name)!;
+    return {
+      put: vi.fn(async (url: string, response: Response) => {
+        store.set(url, response);
+      }),
+      match: vi.fn(async (url: string) => store.get(url)?.clone()),
+    } as unknown as Cache;
+  });
+
+  const caches = {
+    open,
+    keys: vi.fn(async () => [...stores.keys()]),
+    delete: vi.fn(async (name: string) => stores.delete(name)),
+  } as unknown as CacheStorage;
+
+  return { caches, stores };
+}
+
+const manifest: PrecacheManifest = {
+  version: "abc123",
+  urls: ["/index.html", "/404.html", "/lessons/state.html", "/assets/index-1a2b.js"],
+};
+
+function request(path: string, mode: RequestMode = "cors") {
+  return { url: `${ORIGIN}${path}`, mode } as Request;
+}
+
+describe("precache", () => {
+  it("stores every file in the cache for this build", async () => {
+    const { caches, stores } = createCacheStorage();
+    const fetchFromNetwork = vi.fn(async (url: string) => new Response(`body of ${url}`));
+
+    await precache(caches, manifest, fetchFromNetwork);
+
+    const store = stores.get(getCacheName("abc123"))!;
+    expect([...store.keys()].sort()).toEqual([...manifest.urls].sort());
+    expect(await store.get("/lessons/state.html")!.text()).toBe("body of /lessons/state.html");
+  });
+
+  it("fails when a file can't be fetched, so the install is retried", async () => {
+    const { caches } = createCacheStorage();
+    const fetchFromNetwork = async (url: string) =>
+      new Response(null, { status: url === "/404.html" ? 404 : 200 });
+
+    await expect(precache(caches, manifest, fetchFromNetwork)).rejects.toThrow(
+      "Precaching /404.html failed with 404",
+    );
+  });
+
+  it("stores redirected responses as plain copies", async () => {
+    const { caches, stores } = createCacheStorage();
+    const fetchFromNetwork = async () => {
+      const response = new Response("page");
+      Object.defineProperty(response, "redirected", { value: true });
+      return response;
+    };
+
+    await precache(caches, { version: "abc123", urls: ["/lessons/state.html"] }, fetchFromNetwork);
+
+    const cached = stores.get(getCacheName("abc123"))!.get("/lessons/state.html")!;
+    expect(cached.redirected).toBe(false);
+    expect(await cached.text()).toBe("page");
+  });
+});
+
+describe("deleteOldCaches", () => {
+  it("removes caches from previous builds only", async () => {
+    const { caches, stores } = createCacheStorage({
+      [getCacheName("old")]: {},
+      [getCacheName("abc123")]: {},
+      "another-app": {},
+    });
+
+    await deleteOldCaches(caches, "abc123");
+
+    expect([...stores.keys()]).toEqual([getCacheName("abc123"), "another-app"]);
+  });
+});
+
+describe("getPrecacheKey", () => {
+  it.each([
+    ["/", true, "/index.html"],
+    ["/lessons/state", true, "/lessons/state.html"],
+    ["/lessons/state/", true, "/lessons/state.html"],
+    ["/lessons/missing", true, null],
+    ["/assets/index-1a2b.js", false, "/assets/index-1a2b.js"],
+    ["/assets/other.js", false, null],
+  ])("maps %s (navigation: %s) to %s", (path, isNavigation, expected) => {
+    expect(getPrecacheKey(new URL(path, ORIGIN), manifest, isNavigation)).toBe(expected);
+  });
+});
+
+describe("respond", () => {
+  const cached = {
+    [getCacheName("abc123")]: {
+      "/index.html": "home",
+      "/404.html": "not found",
+      "/lessons/state.html": "state lesson",
+      "/assets/index-1a2b.js": "app code",
+    },
+  };
+
+  it("serves precached pages and assets without the network", async () => {
+    const { caches } = createCacheStorage(cached);
+    const fetchFromNetwork = vi.fn();
+
+    const page = await respond(
+      caches,
+      manifest,
+      request("/lessons/state", "navigate"),
+      fetchFromNetwork,
+    );
+    const script = await respond(
+      caches,
+      manifest,
+      request("/assets/index-1a2b.js"),
+      fetchFromNetwork,
+    );
+
+    expect(await page.text()).toBe("state lesson");
+    expect(await script.text()).toBe("app code");
+    expect(fetchFromNetwork).not.toHaveBeenCalled();
+  });
+
+  it("fetches anything else from the network", async () => {
+    const { caches } = createCacheStorage(cached);
+    const fetchFromNetwork = vi.fn(async () => new Response("fresh"));
+
+    const response = await respond(caches, manifest, request("/api/data"), fetchFromNetwork);
+
+    expect(await response.text()).toBe("fresh");
+  });
+
+  it("falls back to the cached 404 page for unknown pages while offline", async () => {
+    const { caches } = createCacheStorage(cached);
+    const offline = vi.fn(async () => {
+      throw new TypeError("Failed to fetch");
+    });
+
+    const page = await respond(caches, manifest, request("/lessons/missing", "navigate"), offline);
+
+    expect(await page.text()).toBe("not found");
+    await expect(respond(caches, manifest, request("/api/data"), offline)).rejects.toThrow(
+      "Failed to fetch",
+    );
+  });
+});
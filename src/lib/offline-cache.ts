@@ -0,0 +1,93 @@
+// Caching strategy for the service worker (src/service-worker.ts). Kept free of
+// service worker globals so it can be tested with a mocked Cache API.
+//
+// Every built file is precached on install under a cache named after the
+// build, so a deploy installs a fresh cache and activation drops the old one.
+// Precached files are served cache-first: their URLs are content-hashed, and
+// the HTML only changes with a new build.
+
+export const CACHE_PREFIX = "swiftui-for-react-devs-";
+
+/** Files the service worker caches, and the build they belong to */
+export interface PrecacheManifest {
+  version: string;
+  urls: string[];
+}
+
+export function getCacheName(version: string) {
+  return `${CACHE_PREFIX}${version}`;
+}
+
+/**
+ * Caches every file, failing (and so failing the install) if any can't be
+ * fetched. Hosts with clean URLs redirect `/lessons/state.html` to
+ * `/lessons/state`; browsers refuse redirected responses for navigations, so
+ * those are stored as plain copies.
+ */
+export async function precache(
+  caches: CacheStorage,
+  { version, urls }: PrecacheManifest,
+  fetchFromNetwork: (url: string) => Promise<Response>,
+) {
+  const cache = await caches.open(getCacheName(version));
+  await Promise.all(
+    urls.map(async (url) => {
+      const response = await fetchFromNetwork(url);
+      if (!response.ok) throw new Error(`Precaching ${url} failed with ${response.status}`);
+      const copy = response.redirected
+        ? new Response(await response.blob(), { headers: response.headers })
+        : response;
+      await cache.put(url, copy);
+    }),
+  );
+}
+
+/** Drops caches from previous builds, leaving other apps' caches alone */
+export async function deleteOldCaches(caches: CacheStorage, version: string) {
+  const current = getCacheName(version);
+  const names = await caches.keys();
+  await Promise.all(
+    names
+      .filter((name) => name.startsWith(CACHE_PREFIX) && name !== current)
+      .map((name) => caches.delete(name)),
+  );
+}
+
+/**
+ * The precached file for a request: pages are prerendered to `.html` files,
+ * so `/` maps to `/index.html` and `/lessons/state` to `/lessons/state.html`.
+ */
+export function getPrecacheKey(url: URL, { urls }: PrecacheManifest, isNavigation: boolean) {
+  const candidates = isNavigation
+    ? [url.pathname === "/" ? "/index.html" : `${url.pathname.replace(/\/$/, "")}.html`]
+    : [url.pathname];
+  return candidates.find((candidate) => urls.includes(candidate)) ?? null;
+}
+
+/**
+ * Serves precached files from the cache and everything else from the network.
+ * Navigations that fail offline fall back to the cached 404 page.
+ */
+export async function respond(
+  caches: CacheStorage,
+  manifest: PrecacheManifest,
+  request: Request,
+  fetchFromNetwork: (request: Request) => Promise<Response>,
+): Promise<Response> {
+  const isNavigation = request.mode === "navigate";
+  const key = getPrecacheKey(new URL(request.url), manifest, isNavigation);
+  const cache = await caches.open(getCacheName(manifest.version));
+
+  if (key) {
+    const cached = await cache.match(key);
+    if (cached) return cached;
+  }
+
+  try {
+    return await fetchFromNetwork(request);
+  } catch (error) {
+    const fallback = isNavigation ? await cache.match("/404.html") : undefined;
+    if (fallback) return fallback;
+    throw error;
+  }
+}
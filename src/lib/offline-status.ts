@@ -0,0 +1,46 @@
+import { useEffect, useState, useSyncExternalStore } from "react";
+
+const SERVICE_WORKER_URL = "/sw.js";
+
+/** Registers the service worker that plugins/service-worker.ts builds */
+export function registerServiceWorker() {
+  if (!("serviceWorker" in navigator)) return;
+  // Wait for the page to load so precaching doesn't compete with it
+  window.addEventListener("load", () => {
+    navigator.serviceWorker.register(SERVICE_WORKER_URL).catch(() => {
+      // Unsupported context (private mode, insecure origin) - the app still works online
+    });
+  });
+}
+
+function subscribeToConnection(onChange: () => void) {
+  window.addEventListener("online", onChange);
+  window.addEventListener("offline", onChange);
+  return () => {
+    window.removeEventListener("online", onChange);
+    window.removeEventListener("offline", onChange);
+  };
+}
+
+export function useOfflineStatus() {
+  const online = useSyncExternalStore(
+    subscribeToConnection,
+    () => navigator.onLine,
+    () => true,
+  );
+  // A service worker only activates once everything is precached
+  const [availableOffline, setAvailableOffline] = useState(false);
+
+  useEffect(() => {
+    if (!("serviceWorker" in navigator)) return;
+    let cancelled = false;
+    navigator.serviceWorker.ready.then(() => {
+      if (!cancelled) setAvailableOffline(true);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return { online, availableOffline };
+}
@@ -0,0 +1,44 @@
+import { matchPath } from "react-router-dom";
+import { APP_DESCRIPTION, APP_TITLE } from "../constants";
+import { getLessonById } from "../data/lessons";
+
+export interface PageMeta {
+  title: string;
+  description: string;
+}
+
+/** Document title and meta description for a route, used by the prerender and the client */
+export function getPageMeta(pathname: string): PageMeta {
+  if (matchPath("/", pathname)) {
+    return { title: APP_TITLE, description: APP_DESCRIPTION };
+  }
+
+  if (matchPath("/bookmarks", pathname)) {
+    return {
+      title: `Bookmarks & notes · ${APP_TITLE}`,
+      description: "The sections you bookmarked and the notes you wrote on them.",
+    };
+  }
+
+  if (matchPath("/review", pathname)) {
+    return {
+      title: `Review · ${APP_TITLE}`,
+      description: "Spaced-repetition flashcards from the Quick Reference and lesson tips.",
+    };
+  }
+
+  if (matchPath("/cheatsheet", pathname)) {
+    return {
+      title: `Cheat sheet · ${APP_TITLE}`,
+      description: "Every React pattern in the course next to its SwiftUI equivalent.",
+    };
+  }
+
+  const lessonId = matchPath("/lessons/:id", pathname)?.params.id;
+  const lesson = lessonId ? getLessonById(lessonId) : undefined;
+  if (lesson) {
+    return { title: `${lesson.title} · ${APP_TITLE}`, description: lesson.description };
+  }
+
+  return { title: `Page not found · ${APP_TITLE}`, description: APP_DESCRIPTION };
+}
@@ -0,0 +1,95 @@
+import { Prism, normalizeTokens } from "prism-react-renderer";
+import { describe, expect, it } from "vitest";
+import "./prism-swift";
+import { loadAllLessons } from "../data/lessons";
+import { isComparisonSection } from "../types";
+
+function tokenize(code: string) {
+  return normalizeTokens(Prism.tokenize(code.trim(), Prism.languages.swift));
+}
+
+// One line per source line: "type:content" for every non-whitespace token
+function describeTokens(code: string) {
+  return tokenize(code).map((line) =>
+    line
+      .filter((token) => token.content.trim() !== "")
+      .map(
+        (token) =>
+          `${token.types.filter((t) => t !== "plain").join(".") || "plain"}:${token.content.trim()}`,
+      )
+      .join("  "),
+  );
+}
+
+function typeOf(code: string, content: string) {
+  const token = tokenize(code)
+    .flat()
+    .find((t) => t.content === content);
+  return token?.types;
+}
+
+const lessons = await loadAllLessons();
+
+function swiftSample(lessonId: string, sectionTitle: string) {
+  const lesson = lessons.find((l) => l.id === lessonId);
+  const section = lesson?.sections.find((s) => s.title === sectionTitle);
+  if (!section || !isComparisonSection(section)) {
+    throw new Error(`No comparison section "${sectionTitle}" in lesson "${lessonId}"`);
+  }
+  return section.swiftui.code;
+}
+
+describe("Swift grammar", () => {
+  it("registers on prism-react-renderer's Prism instance", () => {
+    expect(Prism.languages.swift).toBeDefined();
+    expect(Prism.languages.swift).toHaveProperty("property-wrapper");
+  });
+
+  it("distinguishes property wrappers, result builders and plain attributes", () => {
+    expect(typeOf("@State private var count = 0", "@State")).toContain("property-wrapper");
+    expect(typeOf("@ViewBuilder var body: Body { get }", "@ViewBuilder")).toContain(
+      "result-builder",
+    );
+    expect(typeOf("@MainActor class Store {}", "@MainActor")).toContain("attribute");
+  });
+
+  it("tokenizes string interpolation as Swift", () => {
+    const code = 'let upper = "Name: \\(name.uppercased())"';
+    expect(typeOf(code, "\\(")).toContain("interpolation-punctuation");
+    expect(typeOf(code, "uppercased")).toContain("function");
+    expect(typeOf(code, '"Name: ')).toContain("string");
+  });
+
+  it("keeps multiline strings in one string token", () => {
+    const lines = tokenize('let poem = """\n    Roses are red\n    """');
+    expect(lines[1].map((t) => t.types)).toEqual([["multiline-string", "string"]]);
+  });
+
+  it("recognises key paths, argument labels and macros", () => {
+    expect(typeOf("ForEach(items, id: \\.self) { Text($0) }", "\\.self")).toContain("key-path");
+    expect(typeOf("ForEach(items, id: \\.self) { Text($0) }", "id")).toContain("argument-label");
+    expect(typeOf("#Preview {\n    ContentView()\n}", "#Preview")).toContain("macro");
+  });
+
+  it("recognises `some View`, `guard let` and projected values", () => {
+    expect(typeOf("var body: some View {", "some")).toContain("keyword");
+    expect(typeOf("var body: some View {", "View")).toContain("class-name");
+    expect(typeOf("guard let user else { return }", "guard")).toContain("keyword");
+    expect(typeOf("Counter(count: $count)", "$count")).toContain("projected-value");
+  });
+
+  it("treats leading-dot members as implicit member expressions", () => {
+    expect(typeOf('Text("Hi").font(.title)', ".title")).toContain("implicit-member");
+    expect(typeOf("let email = user?.email", ".email")).toBeUndefined();
+  });
+
+  it.each([
+    ["types-and-inference", "String Interpolation"],
+    ["optionals-nil-safety", "Guard Statements"],
+    ["protocols", "The View Protocol"],
+    ["property-wrappers", "Projected Value ($prefix)"],
+    ["property-wrappers", "SwiftUI's Property Wrappers"],
+  ])("matches token snapshot for %s / %s", (lessonId, sectionTitle) => {
+    expect(describeTokens(swiftSample(lessonId, sectionTitle))).toMatchSnapshot();
+  });
+});
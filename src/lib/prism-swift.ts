@@ -0,0 +1,188 @@
+import { Prism, type PrismGrammar } from "prism-react-renderer";
+
+// SwiftUI's built-in property wrappers. Anything else starting with `@` is
+// highlighted as a plain attribute (`@MainActor`, `@escaping`, `@Observable`).
+const PROPERTY_WRAPPERS = [
+  "AppStorage",
+  "Bindable",
+  "Binding",
+  "Environment",
+  "EnvironmentObject",
+  "FetchRequest",
+  "FocusState",
+  "FocusedValue",
+  "GestureState",
+  "Namespace",
+  "ObservedObject",
+  "Published",
+  "Query",
+  "ScaledMetric",
+  "SceneStorage",
+  "State",
+  "StateObject",
+];
+
+const KEYWORDS = [
+  "Any",
+  "Self",
+  "Type",
+  "actor",
+  "any",
+  "as",
+  "associatedtype",
+  "async",
+  "await",
+  "break",
+  "case",
+  "catch",
+  "class",
+  "continue",
+  "convenience",
+  "default",
+  "defer",
+  "deinit",
+  "didSet",
+  "do",
+  "dynamic",
+  "else",
+  "enum",
+  "extension",
+  "fallthrough",
+  "fileprivate",
+  "final",
+  "for",
+  "func",
+  "get",
+  "guard",
+  "if",
+  "import",
+  "in",
+  "indirect",
+  "infix",
+  "init",
+  "inout",
+  "internal",
+  "is",
+  "isolated",
+  "lazy",
+  "let",
+  "mutating",
+  "nonisolated",
+  "nonmutating",
+  "open",
+  "operator",
+  "optional",
+  "override",
+  "package",
+  "postfix",
+  "precedencegroup",
+  "prefix",
+  "private",
+  "protocol",
+  "public",
+  "repeat",
+  "required",
+  "rethrows",
+  "return",
+  "self",
+  "set",
+  "some",
+  "static",
+  "struct",
+  "subscript",
+  "super",
+  "switch",
+  "throw",
+  "throws",
+  "try",
+  "typealias",
+  "unowned",
+  "var",
+  "weak",
+  "where",
+  "while",
+  "willSet",
+];
+
+// Interpolation inside `"\(...)"`, allowing one level of nested parentheses
+// so calls like `\(name.uppercased())` stay intact.
+const interpolation = {
+  pattern: /(\\#*\()(?:[^()]|\((?:[^()]|\([^()]*\))*\))*(?=\))/,
+  lookbehind: true,
+  inside: {} as PrismGrammar,
+};
+
+function stringInside(): PrismGrammar {
+  return {
+    interpolation,
+    "interpolation-punctuation": { pattern: /^\)|\\#*\($/, alias: "punctuation" },
+    string: /[\s\S]+/,
+  };
+}
+
+const swift: PrismGrammar = {
+  comment: {
+    pattern: /(^|[^\\:])(?:\/\/.*|\/\*[\s\S]*?(?:\*\/|$))/,
+    lookbehind: true,
+    greedy: true,
+  },
+  "multiline-string": {
+    pattern: /(#*)"""[\s\S]*?"""\1/,
+    greedy: true,
+    alias: "string",
+    inside: stringInside(),
+  },
+  "string-literal": {
+    pattern: /(#*)"(?:\\(?:#*\((?:[^()]|\((?:[^()]|\([^()]*\))*\))*\)|.)|[^\\"\r\n])*"\1/,
+    greedy: true,
+    alias: "string",
+    inside: stringInside(),
+  },
+  // `#Preview`, `#if DEBUG`, `#available(iOS 17, *)`
+  macro: { pattern: /#\w+\b/, alias: "property" },
+  "property-wrapper": {
+    pattern: RegExp(`@(?:${PROPERTY_WRAPPERS.join("|")})\\b`),
+    alias: "important",
+  },
+  // `@ViewBuilder`, `@ToolbarContentBuilder`, `@resultBuilder`
+  "result-builder": { pattern: /@(?:\w*Builder|resultBuilder)\b/, alias: "atrule" },
+  attribute: { pattern: /@\w+/, alias: "atrule" },
+  // `\.self`, `\.colorScheme`, `\User.name`
+  "key-path": { pattern: /\\(?:[A-Z]\w*)?(?:\.[A-Za-z_]\w*)+/, alias: "variable" },
+  "function-definition": { pattern: /(\bfunc\s+)\w+/, lookbehind: true, alias: "function" },
+  "type-definition": {
+    pattern: /(\b(?:actor|class|enum|extension|protocol|struct|typealias)\s+)\w+/,
+    lookbehind: true,
+    alias: "class-name",
+  },
+  // `Text("Hi", bundle: .main)`, `func greet(name: String)`
+  "argument-label": {
+    pattern: /([(,]\s*)[a-z_]\w*(?=\s*:(?!:))/,
+    lookbehind: true,
+    alias: "attr-name",
+  },
+  keyword: RegExp(`\\b(?:${KEYWORDS.join("|")})\\b`),
+  boolean: /\b(?:false|true)\b/,
+  nil: { pattern: /\bnil\b/, alias: "constant" },
+  "short-argument": { pattern: /\$\d+\b/, alias: "variable" },
+  // `$count` passes a Binding to a @State property
+  "projected-value": { pattern: /\$[A-Za-z_]\w*/, alias: "variable" },
+  omit: { pattern: /\b_\b/, alias: "keyword" },
+  number:
+    /\b(?:0x[\da-f_]+(?:\.[\da-f_]+)?(?:p[+-]?\d+)?|0b[01_]+|0o[0-7_]+|\d[\d_]*(?:\.\d[\d_]*)?(?:e[+-]?\d+)?)\b/i,
+  "class-name": /\b[A-Z]\w*\b/,
+  // `.font(.title)`, `case .loading:`, `isOn ? .green : .gray`
+  "implicit-member": {
+    pattern: /((?:[(,:=[]|\s\?|\breturn|\bcase)\s*)\.[a-z_]\w*\b/,
+    lookbehind: true,
+    alias: "constant",
+  },
+  function: /\b[a-z_]\w*(?=\s*\()/i,
+  operator: /[-+*/%=!<>&|^~?]+|\.\.[.<]/,
+  punctuation: /[{}[\]();,.:\\]/,
+};
+
+// Interpolated expressions are themselves Swift
+interpolation.inside = swift;
+
+Prism.languages.swift = swift;
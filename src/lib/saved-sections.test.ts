@@ -0,0 +1,88 @@
+import { describe, expect, it } from "vitest";
+import {
+  NotesImportError,
+  exportSavedSections,
+  mergeSavedSections,
+  parseSavedSectionsExport,
+  parseSectionKey,
+  readSavedSections,
+  sectionKey,
+} from "./saved-sections";
+import type { SavedSections } from "./saved-sections";
+
+const saved: SavedSections = {
+  "state#usestate": {
+    bookmarked: true,
+    note: "Like `useState`",
+    updatedAt: "2026-10-01T10:00:00.000Z",
+  },
+  "navigation#stacks": {
+    bookmarked: false,
+    note: "Read again",
+    updatedAt: "2026-10-02T10:00:00.000Z",
+  },
+};
+
+describe("section keys", () => {
+  it("round-trips a lesson id and anchor", () => {
+    expect(sectionKey("state", "usestate")).toBe("state#usestate");
+    expect(parseSectionKey("state#usestate")).toEqual({ lessonId: "state", anchor: "usestate" });
+    expect(parseSectionKey("state")).toBeNull();
+  });
+});
+
+describe("readSavedSections", () => {
+  it("drops malformed and empty entries", () => {
+    expect(
+      readSavedSections({
+        ...saved,
+        "no-anchor": saved["state#usestate"],
+        "state#wrong-types": { bookmarked: "yes", note: 1, updatedAt: "2026-10-01" },
+        "state#nothing": { bookmarked: false, note: "  ", updatedAt: "2026-10-01" },
+      }),
+    ).toEqual(saved);
+    expect(readSavedSections(null)).toEqual({});
+    expect(readSavedSections([saved])).toEqual({});
+  });
+});
+
+describe("exportSavedSections / parseSavedSectionsExport", () => {
+  it("round-trips saved sections", () => {
+    const file = exportSavedSections(saved, new Date("2026-10-19T09:30:00.000Z"));
+
+    expect(JSON.parse(file)).toMatchObject({ exportedAt: "2026-10-19T09:30:00.000Z" });
+    expect(parseSavedSectionsExport(file)).toEqual(saved);
+  });
+
+  it.each([
+    ["not json", "The file isn't valid JSON"],
+    ["null", "The file isn't a notes export"],
+    ['{"sections": {}}', "The file isn't a notes export"],
+    ['{"format": "swiftui-for-react-devs-notes", "version": 2}', "Unsupported export version 2"],
+    ['{"format": "swiftui-for-react-devs-notes", "version": 1}', "The export has no sections"],
+    [
+      '{"format": "swiftui-for-react-devs-notes", "version": 1, "sections": {"state#x": {"note": 1}}}',
+      'Invalid entry "state#x"',
+    ],
+  ])("rejects %s", (text, message) => {
+    expect(() => parseSavedSectionsExport(text)).toThrow(new NotesImportError(message));
+  });
+});
+
+describe("mergeSavedSections", () => {
+  it("adds new sections and keeps the newer copy of sections saved on both sides", () => {
+    const merged = mergeSavedSections(saved, {
+      "state#usestate": { bookmarked: false, note: "Older", updatedAt: "2026-09-01T00:00:00.000Z" },
+      "navigation#stacks": {
+        bookmarked: true,
+        note: "Newer",
+        updatedAt: "2026-10-03T00:00:00.000Z",
+      },
+      "lists#foreach": { bookmarked: true, note: "", updatedAt: "2026-10-03T00:00:00.000Z" },
+    });
+
+    expect(merged["state#usestate"].note).toBe("Like `useState`");
+    expect(merged["navigation#stacks"].note).toBe("Newer");
+    expect(Object.keys(merged)).toEqual(["state#usestate", "navigation#stacks", "lists#foreach"]);
+  });
+});
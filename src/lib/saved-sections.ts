@@ -0,0 +1,127 @@
+// Bookmarks and notes are stored per section, keyed by "lessonId#anchor" (the
+// same anchor as the section's deep link), and exported as a JSON file:
+//
+//   {
+//     "format": "swiftui-for-react-devs-notes",
+//     "version": 1,
+//     "exportedAt": "2026-10-19T09:30:00.000Z",
+//     "sections": {
+//       "state#usestate": {
+//         "bookmarked": true,
+//         "note": "Like `useState`, but the view owns it",
+//         "updatedAt": "2026-10-18T21:04:12.000Z"
+//       }
+//     }
+//   }
+
+/** What the reader saved for one section */
+export interface SavedSection {
+  bookmarked: boolean;
+  /** Markdown, empty when the section has no note */
+  note: string;
+  /** ISO timestamp of the last change, so imports keep the newer copy */
+  updatedAt: string;
+}
+
+/** Saved sections keyed by `sectionKey(lessonId, anchor)` */
+export type SavedSections = Record<string, SavedSection>;
+
+export const EXPORT_FORMAT = "swiftui-for-react-devs-notes";
+const EXPORT_VERSION = 1;
+
+export class NotesImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "NotesImportError";
+  }
+}
+
+export function sectionKey(lessonId: string, anchor: string) {
+  return `${lessonId}#${anchor}`;
+}
+
+/** "state#usestate" → { lessonId: "state", anchor: "usestate" }, or null if malformed */
+export function parseSectionKey(key: string) {
+  const match = key.match(/^([^#]+)#(.+)$/);
+  return match ? { lessonId: match[1], anchor: match[2] } : null;
+}
+
+/** Whether there's anything left worth keeping for a section */
+export function isEmptySection(section: SavedSection) {
+  return !section.bookmarked && section.note.trim() === "";
+}
+
+function isSavedSection(value: unknown): value is SavedSection {
+  if (!value || typeof value !== "object") return false;
+  const { bookmarked, note, updatedAt } = value as Record<string, unknown>;
+  return (
+    typeof bookmarked === "boolean" &&
+    typeof note === "string" &&
+    typeof updatedAt === "string" &&
+    !Number.isNaN(Date.parse(updatedAt))
+  );
+}
+
+/** Keeps the well-formed entries of a stored value, dropping anything else */
+export function readSavedSections(value: unknown): SavedSections {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return {};
+  return Object.fromEntries(
+    Object.entries(value).filter(
+      ([key, section]) =>
+        parseSectionKey(key) && isSavedSection(section) && !isEmptySection(section),
+    ),
+  );
+}
+
+export function exportSavedSections(sections: SavedSections, exportedAt = new Date()) {
+  return JSON.stringify(
+    {
+      format: EXPORT_FORMAT,
+      version: EXPORT_VERSION,
+      exportedAt: exportedAt.toISOString(),
+      sections,
+    },
+    null,
+    2,
+  );
+}
+
+/** Reads an exported file, rejecting anything that isn't one rather than importing part of it */
+export function parseSavedSectionsExport(text: string): SavedSections {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new NotesImportError("The file isn't valid JSON");
+  }
+
+  const { format, version, sections } = (data ?? {}) as Record<string, unknown>;
+  if (format !== EXPORT_FORMAT) {
+    throw new NotesImportError("The file isn't a notes export");
+  }
+  if (version !== EXPORT_VERSION) {
+    throw new NotesImportError(`Unsupported export version ${String(version)}`);
+  }
+  if (!sections || typeof sections !== "object" || Array.isArray(sections)) {
+    throw new NotesImportError("The export has no sections");
+  }
+
+  for (const [key, section] of Object.entries(sections)) {
+    if (!parseSectionKey(key) || !isSavedSection(section)) {
+      throw new NotesImportError(`Invalid entry "${key}"`);
+    }
+  }
+  return readSavedSections(sections);
+}
+
+/** Combines two sets of saved sections, keeping the more recently changed copy of each */
+export function mergeSavedSections(current: SavedSections, incoming: SavedSections) {
+  const merged = { ...current };
+  for (const [key, section] of Object.entries(incoming)) {
+    const existing = merged[key];
+    if (!existing || Date.parse(section.updatedAt) > Date.parse(existing.updatedAt)) {
+      merged[key] = section;
+    }
+  }
+  return merged;
+}
@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest";
+import { buildSearchIndex, search } from "./search";
+import { loadAllLessons } from "../data/lessons";
+import type { Lesson } from "../types";
+
+const fixture: Lesson[] = [
+  {
+    id: "state",
+    title: "State Management",
+    description: "useState and friends",
+    module: "swiftui",
+    category: "Fundamentals",
+    order: 1,
+    sections: [
+      {
+        format: "comparison",
+        title: "useState → @State",
+        explanation: "Local **state** lives in `@State`.",
+        react: { code: "const [count, setCount] = useState(0);" },
+        swiftui: { code: "@State private var count = 0" },
+        tips: ["Mark @State as private"],
+      },
+      {
+        format: "single",
+        title: "Persisting values",
+        explanation: "Values that survive relaunches.",
+        language: "swift",
+        code: { code: '@AppStorage("username") var username = ""' },
+      },
+    ],
+  },
+];
+
+describe("search", () => {
+  const index = buildSearchIndex(fixture);
+
+  it("returns nothing for an empty query", () => {
+    expect(search(index, "   ")).toEqual([]);
+  });
+
+  it("finds matches in code and points at the section", () => {
+    const [result] = search(index, "@AppStorage");
+    expect(result).toMatchObject({ lessonId: "state", sectionIndex: 1, field: "code" });
+  });
+
+  it("ranks title matches above explanation and code matches", () => {
+    const results = search(index, "@state");
+    expect(results[0]).toMatchObject({ sectionIndex: 0, field: "sectionTitle" });
+  });
+
+  it("requires every term to match", () => {
+    expect(search(index, "appstorage useState")).toEqual([]);
+    expect(search(index, "persisting username")).toHaveLength(1);
+  });
+
+  it("returns a lesson-level result for description matches", () => {
+    const results = search(index, "friends");
+    expect(results).toHaveLength(1);
+    expect(results[0].sectionIndex).toBeUndefined();
+  });
+
+  it("strips inline markdown from snippets", () => {
+    const [result] = search(index, "lives in");
+    expect(result.snippet).toBe("Local state lives in @State.");
+  });
+
+  it("finds where @AppStorage is explained in the real lessons", async () => {
+    const results = search(buildSearchIndex(await loadAllLessons()), "@AppStorage");
+    expect(results[0]).toMatchObject({
+      lessonId: "state",
+      sectionTitle: "@AppStorage",
+      sectionAnchor: "appstorage",
+    });
+  });
+});
@@ -0,0 +1,163 @@
+import type { Lesson } from "../types";
+import { isComparisonSection } from "../types";
+import { getSectionAnchors } from "./anchors";
+
+type SearchField = "lessonTitle" | "description" | "sectionTitle" | "explanation" | "tips" | "code";
+
+// Higher weight = a match in this field says more about relevance
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+  lessonTitle: 10,
+  sectionTitle: 8,
+  description: 5,
+  explanation: 3,
+  tips: 3,
+  code: 1,
+};
+
+interface SearchDocument {
+  lessonId: string;
+  lessonTitle: string;
+  /** Undefined for the lesson-level document (title + description) */
+  sectionIndex?: number;
+  sectionAnchor?: string;
+  sectionTitle?: string;
+  fields: Partial<Record<SearchField, string>>;
+  /** Lowercased copies of `fields`, computed once when the index is built */
+  normalized: Partial<Record<SearchField, string>>;
+}
+
+export interface SearchResult {
+  lessonId: string;
+  lessonTitle: string;
+  sectionIndex?: number;
+  sectionAnchor?: string;
+  sectionTitle?: string;
+  field: SearchField;
+  snippet: string;
+  score: number;
+}
+
+export type SearchIndex = SearchDocument[];
+
+function createDocument(
+  base: Omit<SearchDocument, "fields" | "normalized">,
+  fields: SearchDocument["fields"],
+): SearchDocument {
+  const normalized: SearchDocument["normalized"] = {};
+  for (const [field, text] of Object.entries(fields) as [SearchField, string][]) {
+    normalized[field] = text.toLowerCase();
+  }
+  return { ...base, fields, normalized };
+}
+
+export function buildSearchIndex(lessons: Lesson[]): SearchIndex {
+  return lessons.flatMap((lesson) => {
+    const lessonDocument = createDocument(
+      { lessonId: lesson.id, lessonTitle: lesson.title },
+      { lessonTitle: lesson.title, description: lesson.description },
+    );
+
+    const anchors = getSectionAnchors(lesson);
+    const sectionDocuments = lesson.sections.map((section, sectionIndex) =>
+      createDocument(
+        {
+          lessonId: lesson.id,
+          lessonTitle: lesson.title,
+          sectionIndex,
+          sectionAnchor: anchors[sectionIndex],
+          sectionTitle: section.title,
+        },
+        {
+          sectionTitle: section.title,
+          explanation: section.explanation,
+          tips: section.tips?.join("\n") ?? "",
+          code: isComparisonSection(section)
+            ? `${section.react.code}\n${section.swiftui.code}`
+            : section.code.code,
+        },
+      ),
+    );
+
+    return [lessonDocument, ...sectionDocuments];
+  });
+}
+
+// Strip the inline markdown used in lesson content so snippets read as plain text
+function plainText(text: string) {
+  return text
+    .replace(/\[([^\]]+)\]\([^()\s]+\)/g, "$1")
+    .replace(/\*\*|`/g, "")
+    .replace(/\s+/g, " ");
+}
+
+function makeSnippet(text: string, term: string, radius = 60) {
+  const plain = plainText(text);
+  const at = plain.toLowerCase().indexOf(term);
+  if (at === -1) return plain.slice(0, radius * 2);
+
+  const start = Math.max(0, at - radius);
+  const end = Math.min(plain.length, at + term.length + radius);
+  return `${start > 0 ? "…" : ""}${plain.slice(start, end).trim()}${end < plain.length ? "…" : ""}`;
+}
+
+/**
+ * Every query term must appear somewhere in a document. Each term scores the
+ * weight of the best field it appears in, with a bonus when the whole query
+ * appears verbatim or a term matches at the start of a word.
+ */
+export function search(index: SearchIndex, query: string, limit = 20): SearchResult[] {
+  const phrase = query.trim().toLowerCase();
+  if (!phrase) return [];
+  const terms = phrase.split(/\s+/);
+
+  const results: SearchResult[] = [];
+
+  for (const doc of index) {
+    let score = 0;
+    let bestField: SearchField | undefined;
+    let bestWeight = 0;
+
+    const allTermsMatch = terms.every((term) => {
+      let termScore = 0;
+      for (const [field, text] of Object.entries(doc.normalized) as [SearchField, string][]) {
+        const at = text.indexOf(term);
+        if (at === -1) continue;
+
+        const atWordStart = at === 0 || /\W/.test(text[at - 1]);
+        const weight = FIELD_WEIGHTS[field] * (atWordStart ? 1.5 : 1);
+        termScore = Math.max(termScore, weight);
+        if (weight > bestWeight) {
+          bestWeight = weight;
+          bestField = field;
+        }
+      }
+      score += termScore;
+      return termScore > 0;
+    });
+
+    if (!allTermsMatch || !bestField) continue;
+    const field: SearchField = bestField;
+
+    if (terms.length > 1) {
+      for (const [field, text] of Object.entries(doc.normalized) as [SearchField, string][]) {
+        if (text.includes(phrase)) score += FIELD_WEIGHTS[field];
+      }
+    }
+
+    results.push({
+      lessonId: doc.lessonId,
+      lessonTitle: doc.lessonTitle,
+      sectionIndex: doc.sectionIndex,
+      sectionAnchor: doc.sectionAnchor,
+      sectionTitle: doc.sectionTitle,
+      field,
+      snippet: makeSnippet(
+        doc.fields[field] ?? "",
+        terms.find((term) => doc.normalized[field]?.includes(term)) ?? terms[0],
+      ),
+      score,
+    });
+  }
+
+  return results.sort((a, b) => b.score - a.score).slice(0, limit);
+}
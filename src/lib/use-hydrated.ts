@@ -0,0 +1,19 @@
+import { useSyncExternalStore } from "react";
+
+const subscribe = () => () => {};
+
+/**
+ * False while prerendering and while hydrating the prerendered HTML, true
+ * afterwards (and from the start when the page wasn't prerendered).
+ *
+ * Anything read from localStorage differs from what the prerender saw, so
+ * components render their defaults until this flips, then re-render with the
+ * stored values instead of failing hydration.
+ */
+export function useHydrated() {
+  return useSyncExternalStore(
+    subscribe,
+    () => true,
+    () => false,
+  );
+}
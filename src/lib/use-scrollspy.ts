@@ -0,0 +1,42 @@
+import { useEffect, useState } from "react";
+
+// The band near the top of the viewport that decides which section is "in
+// view": below the mobile header and above the lower 60% of the screen
+const ROOT_MARGIN = "-64px 0px -60% 0px";
+
+/**
+ * The id of the first element (in `ids` order) that crosses the top of the
+ * viewport, or null until one has. Between sections the last one stays active.
+ */
+export function useScrollspy(ids: string[]): string | null {
+  const key = ids.join(" ");
+  // Remember which id list the active id belongs to, so a new page starts clean
+  const [active, setActive] = useState<{ key: string; id: string } | null>(null);
+
+  useEffect(() => {
+    if (typeof IntersectionObserver === "undefined") return;
+    const targets = key.split(" ");
+    const intersecting = new Set<string>();
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        for (const entry of entries) {
+          if (entry.isIntersecting) intersecting.add(entry.target.id);
+          else intersecting.delete(entry.target.id);
+        }
+        const first = targets.find((id) => intersecting.has(id));
+        if (first) setActive({ key, id: first });
+      },
+      { rootMargin: ROOT_MARGIN },
+    );
+
+    for (const id of targets) {
+      const element = document.getElementById(id);
+      if (element) observer.observe(element);
+    }
+
+    return () => observer.disconnect();
+  }, [key]);
+
+  return active?.key === key ? active.id : null;
+}
@@ -0,0 +1,189 @@
+import { describe, expect, it } from "vitest";
+import { formatDiagnostic, validateLessons } from "./validate-lessons";
+import { loadAllLessons } from "../data/lessons";
+import type { Lesson, LessonSection } from "../types";
+
+function lesson(overrides: Partial<Lesson> = {}): Lesson {
+  return {
+    id: "state",
+    title: "State Management",
+    description: "useState and friends",
+    module: "swiftui",
+    category: "Fundamentals",
+    order: 1,
+    sections: [
+      {
+        format: "comparison",
+        title: "useState → @State",
+        explanation: "Local **state** lives in `@State`.",
+        react: { code: "const [count, setCount] = useState(0);\nreturn count;" },
+        swiftui: { code: "@State private var count = 0" },
+      },
+    ],
+    ...overrides,
+  };
+}
+
+function messages(input: Lesson[]) {
+  return validateLessons(input).map(formatDiagnostic);
+}
+
+describe("lesson content", () => {
+  it("has no validation errors", async () => {
+    // Formatted so a failure lists every problem with its lesson and section
+    expect(messages(await loadAllLessons())).toEqual([]);
+  });
+});
+
+describe("validateLessons", () => {
+  it("accepts a well-formed lesson", () => {
+    expect(validateLessons([lesson()])).toEqual([]);
+  });
+
+  it("reports duplicate lesson ids", () => {
+    expect(messages([lesson(), lesson({ order: 2 })])).toEqual([
+      'state: duplicate lesson id "state"',
+    ]);
+  });
+
+  it("reports ids that can't be used in a URL", () => {
+    expect(messages([lesson({ id: "State Management" })])).toEqual([
+      'State Management: id "State Management" is not a lowercase slug',
+    ]);
+  });
+
+  it("reports unknown categories for the lesson's module", () => {
+    expect(messages([lesson({ category: "Fundamentlas" })])).toEqual([
+      'state: unknown category "Fundamentlas" for module "swiftui"',
+    ]);
+    expect(messages([lesson({ module: "swift-basics" })])).toEqual([
+      'state: unknown category "Fundamentals" for module "swift-basics"',
+    ]);
+  });
+
+  it("reports clashing curriculum positions", () => {
+    expect(
+      messages([lesson(), lesson({ id: "context" }), lesson({ id: "forms", order: 1.5 })]),
+    ).toEqual([
+      'context: order 1 is already used by "state"',
+      "forms: order 1.5 is not an integer",
+    ]);
+  });
+
+  it("reports prerequisites that are missing or come later", () => {
+    const input = [
+      lesson({ prerequisites: ["context", "basics"] }),
+      lesson({ id: "context", order: 2, prerequisites: ["state"] }),
+    ];
+
+    expect(messages(input)).toEqual([
+      'state: prerequisite "context" comes later in the curriculum',
+      'state: unknown prerequisite "basics"',
+    ]);
+  });
+
+  it("reports lessons and sections without content", () => {
+    const empty: LessonSection = {
+      format: "comparison",
+      title: "Empty",
+      explanation: " ",
+      react: { code: "" },
+      swiftui: { code: 'Text("Hi")' },
+      tips: [""],
+    };
+
+    expect(
+      messages([
+        lesson({ id: "a", sections: [] }),
+        lesson({ id: "b", order: 2, sections: [empty] }),
+      ]),
+    ).toEqual([
+      "a: has no sections",
+      'b › section 1 "Empty": explanation is empty',
+      'b › section 1 "Empty": has an empty tip',
+      'b › section 1 "Empty": react code is empty',
+    ]);
+  });
+
+  it("reports single-code sections without a language", () => {
+    const section = {
+      format: "single",
+      title: "Persisting values",
+      explanation: "Values that survive relaunches.",
+      code: { code: '@AppStorage("username") var username = ""' },
+    } as LessonSection;
+
+    expect(messages([lesson({ sections: [section] })])).toEqual([
+      'state › section 1 "Persisting values": format "single" section is missing a language',
+    ]);
+  });
+
+  it("reports highlights and links outside the code", () => {
+    const section: LessonSection = {
+      format: "comparison",
+      title: "useState → @State",
+      explanation: "Local state.",
+      react: {
+        code: "const [count, setCount] = useState(0);\nreturn count;\n",
+        highlights: [2, [2, 3]],
+      },
+      swiftui: { code: "@State private var count = 0", highlights: [[1, 1], 0] },
+      links: [
+        { react: 1, swiftui: 1 },
+        { react: [2, 1], swiftui: 2 },
+      ],
+    };
+
+    expect(validateLessons([lesson({ sections: [section] })]).map((d) => d.message)).toEqual([
+      "react highlight lines 2-3 is past the last line (2)",
+      "swiftui highlight line 0 is not a valid line range",
+      "react link lines 2-1 ends before it starts",
+      "swiftui link line 2 is past the last line (1)",
+    ]);
+  });
+
+  it("reports duplicate section ids", () => {
+    const base = lesson().sections[0];
+    const sections = [
+      { ...base, id: "state" },
+      { ...base, id: "state" },
+    ];
+
+    expect(messages([lesson({ sections })])).toEqual([
+      'state › section 2 "useState → @State": duplicate section id "state"',
+    ]);
+  });
+
+  it("reports lesson: links to missing lessons and sections", () => {
+    const base = lesson().sections[0];
+    const sections = [
+      {
+        ...base,
+        explanation: "See [state](lesson:state#usestate-state) and [missing](lesson:missing).",
+        tips: ["Also [this](lesson:state#nowhere)", "And [the docs](https://developer.apple.com)"],
+      },
+    ];
+
+    expect(validateLessons([lesson({ sections })]).map((d) => d.message)).toEqual([
+      'links to unknown lesson "missing"',
+      'links to unknown section "nowhere" in "state"',
+    ]);
+  });
+
+  it("reports quiz answers that don't exist", () => {
+    const quiz = [
+      {
+        question: "Which wrapper?",
+        options: ["@State", "@Binding"],
+        correctIndex: 2,
+        explanation: "",
+      },
+      { question: "Only one?", options: ["Yes"], correctIndex: 0, explanation: "" },
+    ];
+
+    expect(messages([lesson({ quiz })])).toEqual([
+      "state: quiz question 1 has correctIndex 2 out of range",
+      "state: quiz question 2 needs at least two options",
+    ]);
+  });
+});
@@ -0,0 +1,233 @@
+import type { CodeExample, Lesson, LessonSection, LineRange } from "../types";
+import { isComparisonSection } from "../types";
+import { getSectionAnchors } from "./anchors";
+import { rangeBounds } from "./line-ranges";
+import { parseMarkdown } from "./markdown";
+import type { InlineNode } from "./markdown";
+
+// The sidebar groups lessons by category, so a typo silently creates a new
+// group. New categories must be added here on purpose.
+export const KNOWN_CATEGORIES: Record<Lesson["module"], string[]> = {
+  "swift-basics": [
+    "Advanced Types",
+    "Functions & Closures",
+    "Memory & Types",
+    "Safety & Errors",
+    "Type System",
+  ],
+  swiftui: [
+    "Advanced",
+    "Data",
+    "Data Display",
+    "Forms",
+    "Fundamentals",
+    "Layout",
+    "Navigation",
+    "State",
+    "UI",
+  ],
+};
+
+const LANGUAGES = ["swift", "typescript"];
+
+export interface LessonDiagnostic {
+  lessonId: string;
+  /** Undefined for problems with the lesson itself rather than one section */
+  sectionIndex?: number;
+  sectionTitle?: string;
+  message: string;
+}
+
+/** `state › section 2 "useState → @State": highlight 12 is past the last line (9)` */
+export function formatDiagnostic({
+  lessonId,
+  sectionIndex,
+  sectionTitle,
+  message,
+}: LessonDiagnostic) {
+  const location =
+    sectionIndex === undefined
+      ? lessonId
+      : `${lessonId} › section ${sectionIndex + 1} "${sectionTitle}"`;
+  return `${location}: ${message}`;
+}
+
+function lineCount(example: CodeExample) {
+  return example.code.trim().split("\n").length;
+}
+
+function describeRange(range: LineRange) {
+  const [start, end] = rangeBounds(range);
+  return start === end ? `line ${start}` : `lines ${start}-${end}`;
+}
+
+/** Problems with a single range, or null when it falls inside `1..lines` */
+function checkRange(range: LineRange, lines: number): string | null {
+  const [start, end] = rangeBounds(range);
+  if (!Number.isInteger(start) || !Number.isInteger(end) || start < 1) {
+    return `${describeRange(range)} is not a valid line range`;
+  }
+  if (end < start) return `${describeRange(range)} ends before it starts`;
+  if (end > lines) return `${describeRange(range)} is past the last line (${lines})`;
+  return null;
+}
+
+function collectLinks(nodes: InlineNode[], hrefs: string[] = []) {
+  for (const node of nodes) {
+    if (node.type === "link") hrefs.push(node.href);
+    if ("children" in node) collectLinks(node.children, hrefs);
+  }
+  return hrefs;
+}
+
+function markdownLinks(source: string) {
+  return parseMarkdown(source).flatMap((block) =>
+    block.type === "paragraph"
+      ? collectLinks(block.children)
+      : block.items.flatMap((item) => collectLinks(item)),
+  );
+}
+
+function validateSection(
+  section: LessonSection,
+  lessonsById: Map<string, Lesson>,
+  report: (message: string) => void,
+) {
+  if (!section.title.trim()) report("title is empty");
+  if (!section.explanation.trim()) report("explanation is empty");
+  if (section.tips?.some((tip) => !tip.trim())) report("has an empty tip");
+
+  const examples: [string, CodeExample][] = isComparisonSection(section)
+    ? [
+        ["react", section.react],
+        ["swiftui", section.swiftui],
+      ]
+    : [["code", section.code]];
+
+  if (!isComparisonSection(section) && !LANGUAGES.includes(section.language)) {
+    report(
+      section.language
+        ? `unknown language "${section.language}"`
+        : 'format "single" section is missing a language',
+    );
+  }
+
+  for (const [name, example] of examples) {
+    if (!example?.code?.trim()) {
+      report(`${name} code is empty`);
+      continue;
+    }
+    const lines = lineCount(example);
+    for (const range of example.highlights ?? []) {
+      const problem = checkRange(range, lines);
+      if (problem) report(`${name} highlight ${problem}`);
+    }
+  }
+
+  if (isComparisonSection(section)) {
+    const reactLines = lineCount(section.react);
+    const swiftuiLines = lineCount(section.swiftui);
+    for (const link of section.links ?? []) {
+      const reactProblem = checkRange(link.react, reactLines);
+      if (reactProblem) report(`react link ${reactProblem}`);
+      const swiftuiProblem = checkRange(link.swiftui, swiftuiLines);
+      if (swiftuiProblem) report(`swiftui link ${swiftuiProblem}`);
+    }
+  }
+
+  const prose = [section.explanation, ...(section.tips ?? [])].join("\n\n");
+  for (const href of markdownLinks(prose)) {
+    if (!href.startsWith("lesson:")) continue;
+    const [lessonId, anchor] = href.slice("lesson:".length).split("#");
+    const target = lessonsById.get(lessonId);
+    if (!target) {
+      report(`links to unknown lesson "${lessonId}"`);
+    } else if (anchor && !getSectionAnchors(target).includes(anchor)) {
+      report(`links to unknown section "${anchor}" in "${lessonId}"`);
+    }
+  }
+}
+
+/**
+ * Checks lesson content for mistakes the type system can't catch: duplicate
+ * ids, empty sections, highlights past the end of the code, unknown
+ * categories, a curriculum order that doesn't add up, broken `lesson:` links
+ * and impossible quiz answers. Returns an empty array when everything is fine.
+ */
+export function validateLessons(lessons: Lesson[]): LessonDiagnostic[] {
+  const diagnostics: LessonDiagnostic[] = [];
+  const lessonsById = new Map(lessons.map((lesson) => [lesson.id, lesson]));
+  const seenIds = new Set<string>();
+  const seenOrders = new Map<number, string>();
+
+  for (const lesson of lessons) {
+    const report = (message: string) => diagnostics.push({ lessonId: lesson.id, message });
+
+    if (!/^[a-z0-9]+(?:-[a-z0-9]+)*$/.test(lesson.id)) {
+      report(`id "${lesson.id}" is not a lowercase slug`);
+    }
+    if (seenIds.has(lesson.id)) report(`duplicate lesson id "${lesson.id}"`);
+    seenIds.add(lesson.id);
+
+    if (!lesson.title.trim()) report("title is empty");
+    if (!lesson.description.trim()) report("description is empty");
+
+    const categories = KNOWN_CATEGORIES[lesson.module];
+    if (!categories) {
+      report(`unknown module "${lesson.module}"`);
+    } else if (!categories.includes(lesson.category)) {
+      report(`unknown category "${lesson.category}" for module "${lesson.module}"`);
+    }
+
+    if (!Number.isInteger(lesson.order)) {
+      report(`order ${lesson.order} is not an integer`);
+    } else if (seenOrders.has(lesson.order)) {
+      report(`order ${lesson.order} is already used by "${seenOrders.get(lesson.order)}"`);
+    } else {
+      seenOrders.set(lesson.order, lesson.id);
+    }
+
+    for (const prerequisiteId of lesson.prerequisites ?? []) {
+      const prerequisite = lessonsById.get(prerequisiteId);
+      if (!prerequisite) {
+        report(`unknown prerequisite "${prerequisiteId}"`);
+      } else if (prerequisite.order >= lesson.order) {
+        report(`prerequisite "${prerequisiteId}" comes later in the curriculum`);
+      }
+    }
+
+    if (lesson.sections.length === 0) report("has no sections");
+
+    const sectionIds = new Set<string>();
+    lesson.sections.forEach((section, sectionIndex) => {
+      const reportSection = (message: string) =>
+        diagnostics.push({
+          lessonId: lesson.id,
+          sectionIndex,
+          sectionTitle: section.title,
+          message,
+        });
+
+      if (section.id !== undefined) {
+        if (sectionIds.has(section.id)) reportSection(`duplicate section id "${section.id}"`);
+        sectionIds.add(section.id);
+      }
+      validateSection(section, lessonsById, reportSection);
+    });
+
+    lesson.quiz?.forEach((question, questionIndex) => {
+      const prefix = `quiz question ${questionIndex + 1}`;
+      if (!question.question.trim()) report(`${prefix} is empty`);
+      if (question.options.length < 2) report(`${prefix} needs at least two options`);
+      if (
+        !Number.isInteger(question.correctIndex) ||
+        question.correctIndex < 0 ||
+        question.correctIndex >= question.options.length
+      ) {
+        report(`${prefix} has correctIndex ${question.correctIndex} out of range`);
+      }
+    });
+  }
+
+  return diagnostics;
+}
@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+import { isBareViewExpression, toXcodeSnippet } from "./xcode-snippet";
+
+describe("isBareViewExpression", () => {
+  it.each([
+    ['Text("Hello")'],
+    ['VStack(spacing: 8) {\n    Text("A")\n}\n.padding()'],
+    ['// Fixed size\nText("Fixed")\n    .frame(width: 200)\n\nImage("photo")'],
+    ["Color.red\n    .ignoresSafeArea()"],
+  ])("accepts %j", (code) => {
+    expect(isBareViewExpression(code)).toBe(true);
+  });
+
+  it.each([
+    ['struct ContentView: View {\n    var body: some View { Text("Hi") }\n}'],
+    ['@State private var count = 0\nText("\\(count)")'],
+    ["let numbers = [1, 2, 3]"],
+    ["import SwiftUI"],
+    [""],
+  ])("rejects %j", (code) => {
+    expect(isBareViewExpression(code)).toBe(false);
+  });
+});
+
+describe("toXcodeSnippet", () => {
+  it("wraps a view in ContentView with a preview", () => {
+    expect(toXcodeSnippet('\nVStack {\n    Text("Hi")\n\n}\n')).toBe(`import SwiftUI
+
+struct ContentView: View {
+    var body: some View {
+        VStack {
+            Text("Hi")
+
+        }
+    }
+}
+
+#Preview {
+    ContentView()
+}
+`);
+  });
+
+  it("leaves declarations alone", () => {
+    expect(toXcodeSnippet("struct Row: View {}")).toBeNull();
+  });
+});
@@ -0,0 +1,42 @@
+// A top-level line of a bare view expression: a view (`Text("Hi")`,
+// `VStack {`, `Color.red`), a modifier, or closing punctuation. Declarations
+// (`struct`, `let`, `@State var`, `import`) start lowercase or with `@`.
+const VIEW_LINE = /^(?:[A-Z]\w*\s*(?:[({.]|$)|[.})\]])/;
+
+const INDENT = "    ";
+
+/** True for snippets like `VStack { Text("Hi") }` that need a view around them to compile */
+export function isBareViewExpression(code: string) {
+  const topLevel = code
+    .trim()
+    .split("\n")
+    .filter((line) => line.trim() && !/^\s/.test(line) && !line.startsWith("//"));
+  return topLevel.length > 0 && topLevel.every((line) => VIEW_LINE.test(line));
+}
+
+/**
+ * Wraps a bare view expression in a `ContentView` with a `#Preview`, ready to
+ * paste into a new Xcode file. Returns null for anything else.
+ */
+export function toXcodeSnippet(code: string) {
+  if (!isBareViewExpression(code)) return null;
+
+  const body = code
+    .trim()
+    .split("\n")
+    .map((line) => (line ? `${INDENT}${INDENT}${line}` : line))
+    .join("\n");
+
+  return `import SwiftUI
+
+struct ContentView: View {
+${INDENT}var body: some View {
+${body}
+${INDENT}}
+}
+
+#Preview {
+${INDENT}ContentView()
+}
+`;
+}
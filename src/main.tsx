@@ -1,16 +1,30 @@
 import { StrictMode } from "react";
-import { createRoot } from "react-dom/client";
+import { createRoot, hydrateRoot } from "react-dom/client";
 import { BrowserRouter } from "react-router-dom";
-import { ThemeProvider } from "./context/ThemeContext";
+import { AppProviders } from "./context/AppProviders";
+import { registerServiceWorker } from "./lib/offline-status";
 import "./index.css";
 import App from "./App.tsx";
 
-createRoot(document.getElementById("root")!).render(
+const root = document.getElementById("root")!;
+const app = (
   <StrictMode>
     <BrowserRouter>
-      <ThemeProvider>
+      <AppProviders>
         <App />
-      </ThemeProvider>
+      </AppProviders>
     </BrowserRouter>
-  </StrictMode>,
+  </StrictMode>
 );
+
+// Built pages are prerendered (plugins/prerender.ts); the dev server serves an empty root
+if (root.hasChildNodes()) {
+  hydrateRoot(root, app);
+} else {
+  createRoot(root).render(app);
+}
+
+// The service worker only exists in builds; in dev it would serve stale modules
+if (import.meta.env.PROD) {
+  registerServiceWorker();
+}
@@ -0,0 +1,23 @@
+/// <reference lib="webworker" />
+import { deleteOldCaches, precache, respond } from "./lib/offline-cache";
+import type { PrecacheManifest } from "./lib/offline-cache";
+
+// Built on its own by plugins/service-worker.ts, which defines the manifest
+declare const __PRECACHE_MANIFEST__: PrecacheManifest;
+declare const self: ServiceWorkerGlobalScope;
+
+const manifest = __PRECACHE_MANIFEST__;
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(precache(caches, manifest, (url) => fetch(url, { cache: "reload" })));
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(deleteOldCaches(caches, manifest.version).then(() => self.clients.claim()));
+});
+
+self.addEventListener("fetch", (event) => {
+  const url = new URL(event.request.url);
+  if (event.request.method !== "GET" || url.origin !== self.location.origin) return;
+  event.respondWith(respond(caches, manifest, event.request, fetch));
+});
@@ -0,0 +1,24 @@
+import { render } from "@testing-library/react";
+import type { ReactNode } from "react";
+import { MemoryRouter } from "react-router-dom";
+import { onTestFinished, vi } from "vitest";
+import { AppProviders } from "./context/AppProviders";
+
+/** Renders inside a router at `route` with every app-wide context, as the app does */
+export function renderWithProviders(ui: ReactNode, { route = "/" }: { route?: string } = {}) {
+  return render(
+    <MemoryRouter initialEntries={[route]}>
+      <AppProviders>{ui}</AppProviders>
+    </MemoryRouter>,
+  );
+}
+
+/** Mocks `scrollIntoView`, which jsdom doesn't implement, for the current test only */
+export function mockScrollIntoView() {
+  const scrollIntoView = vi.fn();
+  Element.prototype.scrollIntoView = scrollIntoView;
+  onTestFinished(() => {
+    delete (Element.prototype as Partial<Element>).scrollIntoView;
+  });
+  return scrollIntoView;
+}
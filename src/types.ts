@@ -4,12 +4,26 @@ export interface Lesson {
   description: string;
   module: "swift-basics" | "swiftui";
   category: string;
+  /** Position in the curriculum. Lessons are read in ascending order across both modules. */
+  order: number;
+  /** Ids of lessons worth finishing first */
+  prerequisites?: string[];
   sections: LessonSection[];
+  quiz?: QuizQuestion[];
+}
+
+/** What the sidebar and navigation know about a lesson before its content loads */
+export interface LessonSummary extends Omit<Lesson, "sections" | "quiz"> {
+  sectionCount: number;
+  /** Review flashcard ids of each section's tips, in order (see lib/flashcards.ts) */
+  tipCardIds: string[][];
 }
 
 export type LessonSection = ComparisonSection | SingleCodeSection;
 
 interface BaseSection {
+  /** Anchor for deep links; defaults to a slug of the title */
+  id?: string;
   title: string;
   explanation: string;
   tips?: string[];
@@ -21,6 +35,7 @@ export interface ComparisonSection extends BaseSection {
   rightTitle?: string;
   react: CodeExample;
   swiftui: CodeExample;
+  links?: LineLink[];
 }
 
 export interface SingleCodeSection extends BaseSection {
@@ -31,7 +46,16 @@ export interface SingleCodeSection extends BaseSection {
 
 export interface CodeExample {
   code: string;
-  highlights?: number[];
+  highlights?: LineRange[];
+}
+
+/** A 1-based line number, or an inclusive `[start, end]` range of lines */
+export type LineRange = number | [number, number];
+
+/** Pairs React lines with the SwiftUI lines that express the same idea */
+export interface LineLink {
+  react: LineRange;
+  swiftui: LineRange;
 }
 
 export interface QuizQuestion {
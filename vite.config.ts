@@ -1,8 +1,19 @@
 import { defineConfig } from "vite";
 import react from "@vitejs/plugin-react";
 import tailwindcss from "@tailwindcss/vite";
+import { lessonContent } from "./plugins/lesson-content";
+import { prerender } from "./plugins/prerender";
+import { serviceWorker } from "./plugins/service-worker";
 
 // https://vite.dev/config/
 export default defineConfig({
-  plugins: [react(), tailwindcss()],
+  plugins: [
+    react(),
+    tailwindcss(),
+    lessonContent(),
+    // SITE_URL is the origin the site is deployed to; sitemap.xml needs it, so
+    // `vite build` fails without it
+    prerender({ entry: "src/entry-server.tsx", siteUrl: process.env.SITE_URL }),
+    serviceWorker({ entry: "src/service-worker.ts" }),
+  ],
 });
@@ -1,10 +1,13 @@
 import { defineConfig } from "vitest/config";
 import react from "@vitejs/plugin-react";
+import { lessonContent } from "./plugins/lesson-content";
 
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), lessonContent()],
   test: {
     environment: "jsdom",
     setupFiles: ["./src/test-setup.ts"],
+    // Vitest blanks stylesheets by default; the contrast tests read the theme tokens
+    css: { include: [/index\.css/] },
   },
 });